@@ -1,6 +1,6 @@
--- Revenue Management Database Schema
+-- Businesses, revenue entries and expense entries
 
--- Table for businesses
+-- migrate:up
 CREATE TABLE IF NOT EXISTS businesses (
     id SERIAL PRIMARY KEY,
     name VARCHAR(255) NOT NULL,
@@ -9,7 +9,6 @@ CREATE TABLE IF NOT EXISTS businesses (
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
--- Table for revenue entries
 CREATE TABLE IF NOT EXISTS revenue_entries (
     id SERIAL PRIMARY KEY,
     business_id INTEGER REFERENCES businesses(id) ON DELETE CASCADE,
@@ -21,7 +20,6 @@ CREATE TABLE IF NOT EXISTS revenue_entries (
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
--- Table for expense entries (optional for comprehensive financial tracking)
 CREATE TABLE IF NOT EXISTS expense_entries (
     id SERIAL PRIMARY KEY,
     business_id INTEGER REFERENCES businesses(id) ON DELETE CASCADE,
@@ -33,8 +31,12 @@ CREATE TABLE IF NOT EXISTS expense_entries (
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
--- Indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_revenue_entries_business_id ON revenue_entries(business_id);
 CREATE INDEX IF NOT EXISTS idx_revenue_entries_date ON revenue_entries(date);
 CREATE INDEX IF NOT EXISTS idx_expense_entries_business_id ON expense_entries(business_id);
-CREATE INDEX IF NOT EXISTS idx_expense_entries_date ON expense_entries(date);
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_expense_entries_date ON expense_entries(date);
+
+-- migrate:down
+DROP TABLE IF EXISTS expense_entries;
+DROP TABLE IF EXISTS revenue_entries;
+DROP TABLE IF EXISTS businesses;
@@ -0,0 +1,32 @@
+-- Subscriptions (mirrors the app Subscription type) and per-month variable amounts
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS subscriptions (
+    id SERIAL PRIMARY KEY,
+    business_id INTEGER REFERENCES businesses(id) ON DELETE SET NULL,
+    product_id INTEGER,
+    customer VARCHAR(255) NOT NULL,
+    plan_name VARCHAR(255) NOT NULL,
+    price DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    billing_type VARCHAR(20) NOT NULL CHECK (billing_type IN ('recurring', 'onetime', 'variable')),
+    cadence VARCHAR(20) NOT NULL DEFAULT 'monthly' CHECK (cadence IN ('monthly', 'yearly')),
+    start_date DATE NOT NULL,
+    cancel_date DATE,
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS subscription_variable_amounts (
+    subscription_id INTEGER NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+    month CHAR(7) NOT NULL,
+    amount DECIMAL(10, 2) NOT NULL,
+    PRIMARY KEY (subscription_id, month)
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_business_id ON subscriptions(business_id);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_start_date ON subscriptions(start_date);
+
+-- migrate:down
+DROP TABLE IF EXISTS subscription_variable_amounts;
+DROP TABLE IF EXISTS subscriptions;
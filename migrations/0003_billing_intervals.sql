@@ -0,0 +1,15 @@
+-- Billing intervals: quarterly, half-yearly, weekly and every-N-months cadences with an anchor date
+
+-- migrate:up
+ALTER TABLE subscriptions DROP CONSTRAINT IF EXISTS subscriptions_cadence_check;
+ALTER TABLE subscriptions ADD CONSTRAINT subscriptions_cadence_check
+    CHECK (cadence IN ('weekly', 'monthly', 'quarterly', 'halfyearly', 'yearly', 'custom'));
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS interval_months INTEGER CHECK (interval_months IS NULL OR interval_months > 0);
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS anchor_date DATE;
+
+-- migrate:down
+UPDATE subscriptions SET cadence = 'monthly' WHERE cadence IN ('weekly', 'quarterly', 'halfyearly', 'custom');
+ALTER TABLE subscriptions DROP COLUMN IF EXISTS anchor_date;
+ALTER TABLE subscriptions DROP COLUMN IF EXISTS interval_months;
+ALTER TABLE subscriptions DROP CONSTRAINT IF EXISTS subscriptions_cadence_check;
+ALTER TABLE subscriptions ADD CONSTRAINT subscriptions_cadence_check CHECK (cadence IN ('monthly', 'yearly'));
@@ -0,0 +1,12 @@
+-- Price history: price changes per subscription with the date they take effect
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS subscription_price_changes (
+    subscription_id INTEGER NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+    effective_date DATE NOT NULL,
+    price DECIMAL(10, 2) NOT NULL,
+    PRIMARY KEY (subscription_id, effective_date)
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS subscription_price_changes;
@@ -0,0 +1,15 @@
+-- Currencies: currency per subscription and a monthly exchange-rate table (value of 1 unit in EUR)
+
+-- migrate:up
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS currency CHAR(3) NOT NULL DEFAULT 'EUR';
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+    month CHAR(7) NOT NULL,
+    currency CHAR(3) NOT NULL,
+    rate DECIMAL(14, 6) NOT NULL CHECK (rate > 0),
+    PRIMARY KEY (month, currency)
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS exchange_rates;
+ALTER TABLE subscriptions DROP COLUMN IF EXISTS currency;
@@ -0,0 +1,11 @@
+-- VAT (BTW): default tariff per business, optional override per subscription
+
+-- migrate:up
+ALTER TABLE businesses ADD COLUMN IF NOT EXISTS vat_code VARCHAR(10) NOT NULL DEFAULT 'standard'
+    CHECK (vat_code IN ('standard', 'reduced', 'zero', 'reverse'));
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS vat_code VARCHAR(10)
+    CHECK (vat_code IS NULL OR vat_code IN ('standard', 'reduced', 'zero', 'reverse'));
+
+-- migrate:down
+ALTER TABLE subscriptions DROP COLUMN IF EXISTS vat_code;
+ALTER TABLE businesses DROP COLUMN IF EXISTS vat_code;
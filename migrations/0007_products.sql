@@ -0,0 +1,30 @@
+-- Product catalog per business; subscriptions link to a product through product_id
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS products (
+    id SERIAL PRIMARY KEY,
+    business_id INTEGER REFERENCES businesses(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    price DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    currency CHAR(3) NOT NULL DEFAULT 'EUR',
+    billing_type VARCHAR(20) NOT NULL CHECK (billing_type IN ('recurring', 'onetime', 'variable')),
+    cadence VARCHAR(20) NOT NULL DEFAULT 'monthly'
+        CHECK (cadence IN ('weekly', 'monthly', 'quarterly', 'halfyearly', 'yearly', 'custom')),
+    interval_months INTEGER CHECK (interval_months IS NULL OR interval_months > 0),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_products_business_id ON products(business_id);
+
+-- product_id was never filled before this migration
+UPDATE subscriptions SET product_id = NULL WHERE product_id IS NOT NULL;
+ALTER TABLE subscriptions DROP CONSTRAINT IF EXISTS subscriptions_product_id_fkey;
+ALTER TABLE subscriptions ADD CONSTRAINT subscriptions_product_id_fkey
+    FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_subscriptions_product_id ON subscriptions(product_id);
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_subscriptions_product_id;
+ALTER TABLE subscriptions DROP CONSTRAINT IF EXISTS subscriptions_product_id_fkey;
+DROP TABLE IF EXISTS products;
@@ -0,0 +1,43 @@
+-- Customers: one record per customer, linked to businesses and to their subscriptions
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS customers (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    email VARCHAR(255),
+    phone VARCHAR(50),
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS customer_businesses (
+    customer_id INTEGER NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    business_id INTEGER NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+    PRIMARY KEY (customer_id, business_id)
+);
+
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS customer_id INTEGER REFERENCES customers(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_subscriptions_customer_id ON subscriptions(customer_id);
+
+-- One customer per distinct name (case and spacing ignored), linked to the businesses of its subscriptions
+INSERT INTO customers (name)
+SELECT DISTINCT ON (lower(regexp_replace(trim(customer), '\s+', ' ', 'g'))) regexp_replace(trim(customer), '\s+', ' ', 'g')
+FROM subscriptions
+ORDER BY lower(regexp_replace(trim(customer), '\s+', ' ', 'g')), id;
+
+UPDATE subscriptions s
+SET customer_id = c.id, customer = c.name
+FROM customers c
+WHERE lower(c.name) = lower(regexp_replace(trim(s.customer), '\s+', ' ', 'g'));
+
+INSERT INTO customer_businesses (customer_id, business_id)
+SELECT DISTINCT customer_id, business_id FROM subscriptions
+WHERE customer_id IS NOT NULL AND business_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_subscriptions_customer_id;
+ALTER TABLE subscriptions DROP COLUMN IF EXISTS customer_id;
+DROP TABLE IF EXISTS customer_businesses;
+DROP TABLE IF EXISTS customers;
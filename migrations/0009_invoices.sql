@@ -0,0 +1,38 @@
+-- Invoices generated from the billing schedule; numbers are sequential and unique per business
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS invoices (
+    id SERIAL PRIMARY KEY,
+    business_id INTEGER REFERENCES businesses(id) ON DELETE CASCADE,
+    customer_id INTEGER REFERENCES customers(id) ON DELETE SET NULL,
+    customer VARCHAR(255) NOT NULL,
+    number VARCHAR(50) NOT NULL,
+    period CHAR(7) NOT NULL,
+    issue_date DATE NOT NULL,
+    due_date DATE NOT NULL,
+    currency CHAR(3) NOT NULL DEFAULT 'EUR',
+    status VARCHAR(10) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent')),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Invoices without a business share one number sequence
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_business_number ON invoices(COALESCE(business_id, 0), number);
+CREATE INDEX IF NOT EXISTS idx_invoices_period ON invoices(period);
+
+CREATE TABLE IF NOT EXISTS invoice_lines (
+    id SERIAL PRIMARY KEY,
+    invoice_id INTEGER NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    subscription_id INTEGER REFERENCES subscriptions(id) ON DELETE SET NULL,
+    description TEXT NOT NULL,
+    quantity DECIMAL(10, 2) NOT NULL DEFAULT 1,
+    unit_price DECIMAL(10, 2) NOT NULL,
+    vat_code VARCHAR(10) NOT NULL CHECK (vat_code IN ('standard', 'reduced', 'zero', 'reverse'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_invoice_id ON invoice_lines(invoice_id);
+
+-- migrate:down
+DROP TABLE IF EXISTS invoice_lines;
+DROP TABLE IF EXISTS invoices;
@@ -0,0 +1,20 @@
+-- Payments: money received per subscription and billing month; tracked per business from payments_from
+
+-- migrate:up
+ALTER TABLE businesses ADD COLUMN IF NOT EXISTS payments_from CHAR(7);
+
+CREATE TABLE IF NOT EXISTS payments (
+    id SERIAL PRIMARY KEY,
+    subscription_id INTEGER NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+    month CHAR(7) NOT NULL,
+    amount DECIMAL(10, 2) NOT NULL,
+    date DATE NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_subscription_month ON payments(subscription_id, month);
+
+-- migrate:down
+DROP TABLE IF EXISTS payments;
+ALTER TABLE businesses DROP COLUMN IF EXISTS payments_from;
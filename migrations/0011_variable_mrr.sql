@@ -0,0 +1,11 @@
+-- Variable income in MRR: optional per-subscription averaging (NULL = follow the app setting)
+
+-- migrate:up
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS variable_mrr_method VARCHAR(10)
+    CHECK (variable_mrr_method IS NULL OR variable_mrr_method IN ('off', 'average', 'median', 'last'));
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS variable_mrr_months INTEGER
+    CHECK (variable_mrr_months IS NULL OR variable_mrr_months > 0);
+
+-- migrate:down
+ALTER TABLE subscriptions DROP COLUMN IF EXISTS variable_mrr_months;
+ALTER TABLE subscriptions DROP COLUMN IF EXISTS variable_mrr_method;
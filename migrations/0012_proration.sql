@@ -0,0 +1,8 @@
+-- Proration: how partial first and last periods of a business's recurring subscriptions are charged
+
+-- migrate:up
+ALTER TABLE businesses ADD COLUMN IF NOT EXISTS proration VARCHAR(10) NOT NULL DEFAULT 'none'
+    CHECK (proration IN ('none', 'daily', 'halfmonth'));
+
+-- migrate:down
+ALTER TABLE businesses DROP COLUMN IF EXISTS proration;
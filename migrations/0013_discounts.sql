@@ -0,0 +1,19 @@
+-- Discounts: percentage or fixed promotions per subscription, for a period or a number of billing cycles
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS subscription_discounts (
+    id SERIAL PRIMARY KEY,
+    subscription_id INTEGER NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL DEFAULT 0,
+    kind VARCHAR(10) NOT NULL CHECK (kind IN ('percent', 'fixed')),
+    value DECIMAL(10, 2) NOT NULL CHECK (value >= 0),
+    start_date DATE,
+    end_date DATE,
+    cycles INTEGER CHECK (cycles IS NULL OR cycles > 0),
+    label VARCHAR(255)
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_discounts_subscription ON subscription_discounts(subscription_id);
+
+-- migrate:down
+DROP TABLE IF EXISTS subscription_discounts;
@@ -0,0 +1,23 @@
+-- Audit log: who changed which field of a business or subscription, when, and its old and new value.
+-- entity_id has no foreign key, so the history of deleted records is kept.
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS audit_log (
+    id SERIAL PRIMARY KEY,
+    at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    user_name VARCHAR(255) NOT NULL DEFAULT '',
+    entity VARCHAR(20) NOT NULL CHECK (entity IN ('company', 'subscription')),
+    entity_id VARCHAR(64) NOT NULL,
+    action VARCHAR(10) NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+    label VARCHAR(255) NOT NULL DEFAULT '',
+    changes JSONB NOT NULL DEFAULT '[]',
+    snapshot JSONB,
+    payments JSONB,
+    restored_from VARCHAR(64),
+    source VARCHAR(10) CHECK (source IN ('undo', 'redo'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity, entity_id);
+
+-- migrate:down
+DROP TABLE IF EXISTS audit_log;
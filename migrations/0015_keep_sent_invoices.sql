@@ -0,0 +1,10 @@
+-- Invoices are accounting records: a business with invoices cannot be deleted by the database
+-- (the app deletes its drafts first and refuses while it has sent invoices)
+
+-- migrate:up
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_business_id_fkey;
+ALTER TABLE invoices ADD CONSTRAINT invoices_business_id_fkey FOREIGN KEY (business_id) REFERENCES businesses(id) ON DELETE RESTRICT;
+
+-- migrate:down
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS invoices_business_id_fkey;
+ALTER TABLE invoices ADD CONSTRAINT invoices_business_id_fkey FOREIGN KEY (business_id) REFERENCES businesses(id) ON DELETE CASCADE;
@@ -0,0 +1,7 @@
+-- Deleted businesses: their products, expenses, draft invoices and links, so undo can restore them
+
+-- migrate:up
+ALTER TABLE audit_log ADD COLUMN IF NOT EXISTS dependents JSONB;
+
+-- migrate:down
+ALTER TABLE audit_log DROP COLUMN IF EXISTS dependents;
@@ -4,13 +4,53 @@ import dotenv from 'dotenv';
 // Load environment variables
 dotenv.config();
 
-import { runMigrations } from '../src/lib/migrations';
+import { createMigration, migrateDown, migrateUp, migrationStatus } from '../src/lib/migrations';
+
+const USAGE = `Usage: npm run migrate -- <command>
+
+Commands:
+  up [version]    Apply pending migrations (optionally up to and including version)
+  down [steps]    Revert the last applied migration(s), default 1
+  status          Show applied and pending migrations
+  create <name>   Create a new numbered migration file`;
+
+const parseNumber = (value: string | undefined, label: string): number | undefined => {
+  if (value == null) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) throw new Error(`${label} must be a positive integer, got "${value}"`);
+  return n;
+};
 
 async function migrate() {
+  const [command = 'up', arg] = process.argv.slice(2);
   try {
-    console.log('🚀 Starting database migrations...');
-    await runMigrations();
-    console.log('✅ Migrations completed successfully!');
+    switch (command) {
+      case 'up': {
+        console.log('🚀 Starting database migrations...');
+        const applied = await migrateUp(parseNumber(arg, 'version'));
+        console.log(applied.length ? `✅ Applied ${applied.length} migration(s)` : '✅ Database is up to date');
+        break;
+      }
+      case 'down': {
+        const reverted = await migrateDown(parseNumber(arg, 'steps') ?? 1);
+        console.log(reverted.length ? `✅ Reverted ${reverted.length} migration(s)` : '✅ Nothing to revert');
+        break;
+      }
+      case 'status': {
+        for (const m of await migrationStatus()) {
+          console.log(`${m.applied_at ? '✅' : '⏳'} ${String(m.version).padStart(4, '0')} ${m.name}${m.applied_at ? `  (${m.applied_at})` : ''}`);
+        }
+        break;
+      }
+      case 'create': {
+        if (!arg) throw new Error('Missing migration name');
+        console.log(`📝 Created ${createMigration(process.argv.slice(3).join(' '))}`);
+        break;
+      }
+      default:
+        console.log(USAGE);
+        process.exit(1);
+    }
     process.exit(0);
   } catch (error) {
     console.error('❌ Migration failed:', error);
@@ -18,4 +58,4 @@ async function migrate() {
   }
 }
 
-migrate();
\ No newline at end of file
+migrate();
@@ -0,0 +1,30 @@
+#!/usr/bin/env tsx
+
+import dotenv from 'dotenv';
+// Load environment variables
+dotenv.config();
+
+import http from 'http';
+import { createApiHandler } from '../src/server/api';
+import { createDatabaseStore } from '../src/lib/store';
+
+const port = Number(process.env.API_PORT || 3001);
+// Loopback only unless API_HOST says otherwise: anyone who can reach the API can read all data
+const host = process.env.API_HOST || '127.0.0.1';
+const token = process.env.API_TOKEN;
+
+if (!token) {
+  console.error('❌ API_TOKEN is not set. Set it in your .env file (and VITE_API_TOKEN to the same value for the App)');
+  process.exit(1);
+}
+
+const server = http.createServer(createApiHandler(createDatabaseStore(), { token }));
+
+server.listen(port, host, () => {
+  console.log(`🚀 API listening on http://${host}:${port}/api`);
+});
+
+// Finish open requests before exiting
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => server.close(() => process.exit(0)));
+}
@@ -1,52 +1,117 @@
-import { useState, useEffect } from 'react';
-import { businessOperations, subscriptionOperations, converters } from '../lib/database-operations';
-import { Business } from '../lib/migrations';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { coalesceEntry, companyDependents, diffChanges, inverseOf, restoreCompany as restoreCompanyIn, subscriptionLabel, type AuditDraft } from '../lib/audit';
+import type { ImportBatch } from '../lib/import';
+import type { InvoiceDraft } from '../lib/invoices';
+import type { CompanyPatch, CustomerInput, CustomerPatch, ExpenseInput, ExpensePatch, InvoicePatch, PaymentInput, PaymentPatch, ProductInput, ProductPatch, RevenueState, RevenueStore, SubscriptionInput, SubscriptionPatch } from '../lib/store';
+import { mergeRates } from '../lib/currency';
+import type { AuditEntry, Company, CompanyDependents, Customer, ExchangeRate, Expense, Invoice, Payment, Product, Subscription } from '../lib/types';
 
-export function useDatabase() {
-  const [companies, setCompanies] = useState<Business[]>([]);
-  const [subs, setSubs] = useState<any[]>([]);
+/** Marks the edits made by undo and redo in the audit log */
+type AuditOrigin = Pick<AuditEntry, 'source' | 'restoredFrom'>;
+
+const top = <T,>(stack: T[]): T | undefined => stack[stack.length - 1];
+
+// `user` is recorded with every change of a company or item
+export function useDatabase(store: RevenueStore, user = '') {
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [subs, setSubs] = useState<Subscription[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [audit, setAudit] = useState<AuditEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Load data from database
-  const loadData = async () => {
+  // Load data from the selected store
+  const loadData = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
-      
-      console.log('🔄 Loading data from database...');
-      
-      const [businessData, revenueData] = await Promise.all([
-        businessOperations.getAll(),
-        subscriptionOperations.getAll()
-      ]);
-      
-      console.log('✅ Data loaded:', { businesses: businessData.length, revenues: revenueData.length });
-      
-      setCompanies(businessData);
-      setSubs(revenueData.map(converters.revenueEntryToSubscription));
+
+      const data: RevenueState = await store.load();
+
+      setCompanies(data.companies);
+      setCustomers(data.customers);
+      setProducts(data.products);
+      setSubs(data.subs);
+      setPayments(data.payments);
+      setExpenses(data.expenses);
+      setRates(data.rates);
+      setInvoices(data.invoices);
+      setAudit(data.audit);
     } catch (err) {
       console.error('❌ Database error:', err);
       setError('Database fout: ' + (err as Error).message);
-      
+
       // Fallback to empty data instead of crashing
       setCompanies([]);
+      setCustomers([]);
+      setProducts([]);
       setSubs([]);
+      setPayments([]);
+      setExpenses([]);
+      setRates([]);
+      setInvoices([]);
+      setAudit([]);
     } finally {
       setLoading(false);
     }
-  };
+  }, [store]);
 
-  // Load data on mount
+  // Load data on mount (and when the store changes)
   useEffect(() => {
     loadData();
-  }, []);
+  }, [loadData]);
+
+  // Undo and redo stacks hold the entries of this session, newest last. A record re-created by undo gets a new id;
+  // `renamedIds` maps the deleted id onto it so older entries still find the record.
+  const undoStack = useRef<AuditEntry[]>([]);
+  const redoStack = useRef<AuditEntry[]>([]);
+  const renamedIds = useRef(new Map<string, string>());
+  const lastEntry = useRef<AuditEntry | null>(null);
+  const auditQueue = useRef<Promise<unknown>>(Promise.resolve());
+  const reverting = useRef(false);
+  // The stacks are refs (read inside async steps); their sizes are state so the undo/redo buttons re-render
+  const [stackSizes, setStackSizes] = useState({ undo: 0, redo: 0 });
+  const syncStackSizes = () => setStackSizes({ undo: undoStack.current.length, redo: redoStack.current.length });
+
+  // Entries are saved one after another, so a coalesced edit always extends the stored entry
+  const logChange = (input: Omit<AuditDraft, 'at' | 'user'>) => {
+    const draft: AuditDraft = { ...input, at: new Date().toISOString(), user };
+    const saved = auditQueue.current.then(async () => {
+      const last = lastEntry.current && lastEntry.current === top(undoStack.current) ? lastEntry.current : null;
+      const entry = await store.saveAuditEntry(coalesceEntry(last, draft));
+      lastEntry.current = entry;
+      setAudit(prev => [entry, ...prev.filter(e => e.id !== entry.id)]);
+      if (entry.source === 'undo') {
+        redoStack.current.push(entry);
+      } else {
+        if (last?.id === entry.id) undoStack.current[undoStack.current.length - 1] = entry;
+        else undoStack.current.push(entry);
+        if (!entry.source) redoStack.current = [];
+      }
+      syncStackSizes();
+    });
+    auditQueue.current = saved.catch(err => setError('Fout bij opslaan historie: ' + (err as Error).message));
+  };
+
+  const current = (): RevenueState => ({ companies, customers, products, subs, payments, expenses, rates, invoices, audit });
+
+  const resolveId = (id: string) => {
+    let current = id;
+    while (renamedIds.current.has(current)) current = renamedIds.current.get(current)!;
+    return current;
+  };
 
   // Company operations
-  const addCompany = async (name: string, description?: string) => {
+  const addCompany = async (name: string, origin: AuditOrigin = {}) => {
     try {
-      const newCompany = await businessOperations.create(name, description);
-      setCompanies(prev => [newCompany, ...prev]);
+      const newCompany = await store.addCompany(name);
+      setCompanies(prev => [...prev, newCompany]);
+      logChange({ entity: 'company', entityId: newCompany.id, action: 'create', label: newCompany.name, changes: [], snapshot: newCompany, ...origin });
       return newCompany;
     } catch (err) {
       setError('Fout bij toevoegen bedrijf: ' + (err as Error).message);
@@ -54,10 +119,13 @@ export function useDatabase() {
     }
   };
 
-  const updateCompany = async (id: number, updates: Partial<Pick<Business, 'name' | 'description'>>) => {
+  const updateCompany = async (id: string, patch: CompanyPatch, origin: AuditOrigin = {}) => {
+    const before = companies.find(c => c.id === id);
     try {
-      const updated = await businessOperations.update(id, updates);
+      const updated = await store.updateCompany(id, patch);
       setCompanies(prev => prev.map(c => c.id === id ? updated : c));
+      const changes = before ? diffChanges(before, patch) : [];
+      if (changes.length) logChange({ entity: 'company', entityId: id, action: 'update', label: updated.name, changes, ...origin });
       return updated;
     } catch (err) {
       setError('Fout bij updaten bedrijf: ' + (err as Error).message);
@@ -65,23 +133,127 @@ export function useDatabase() {
     }
   };
 
-  const deleteCompany = async (id: number) => {
+  // The products, expenses and drafts deleted with the company and its item and customer links are kept in the
+  // audit entry, so undo restores them as well
+  const deleteCompany = async (id: string, origin: AuditOrigin = {}) => {
+    const before = companies.find(c => c.id === id);
+    const dependents = companyDependents(current(), id);
     try {
-      await businessOperations.delete(id);
+      await store.deleteCompany(id);
+      if (before) logChange({ entity: 'company', entityId: id, action: 'delete', label: before.name, changes: [], snapshot: before, dependents, ...origin });
+      const removed = new Set(products.filter(p => p.companyId === id).map(p => p.id));
       setCompanies(prev => prev.filter(c => c.id !== id));
+      setCustomers(prev => prev.map(c => ({ ...c, companyIds: c.companyIds.filter(companyId => companyId !== id) })));
+      setProducts(prev => prev.filter(p => p.companyId !== id));
+      setSubs(prev => prev.map(s => ({
+        ...s,
+        companyId: s.companyId === id ? null : s.companyId,
+        productId: s.productId && removed.has(s.productId) ? null : s.productId
+      })));
+      setExpenses(prev => prev.filter(e => e.companyId !== id));
+      setInvoices(prev => prev.filter(inv => inv.companyId !== id));
     } catch (err) {
       setError('Fout bij verwijderen bedrijf: ' + (err as Error).message);
       throw err;
     }
   };
 
+  // Customer operations
+  const addCustomer = async (data: CustomerInput) => {
+    try {
+      const newCustomer = await store.addCustomer(data);
+      setCustomers(prev => [...prev, newCustomer]);
+      return newCustomer;
+    } catch (err) {
+      setError('Fout bij toevoegen klant: ' + (err as Error).message);
+      throw err;
+    }
+  };
+
+  // Optimistic like item updates; a rename is mirrored in the customer name of linked items
+  const updateCustomer = async (id: string, updates: CustomerPatch) => {
+    setCustomers(prev => prev.map(c => c.id === id ? { ...c, ...updates } : c));
+    if (updates.name !== undefined) {
+      setSubs(prev => prev.map(s => s.customerId === id ? { ...s, customer: updates.name! } : s));
+    }
+    try {
+      return await store.updateCustomer(id, updates);
+    } catch (err) {
+      setError('Fout bij updaten klant: ' + (err as Error).message);
+      await loadData();
+      throw err;
+    }
+  };
+
+  const deleteCustomer = async (id: string) => {
+    try {
+      await store.deleteCustomer(id);
+      setCustomers(prev => prev.filter(c => c.id !== id));
+      setSubs(prev => prev.map(s => s.customerId === id ? { ...s, customerId: undefined } : s));
+      setInvoices(prev => prev.map(inv => inv.customerId === id ? { ...inv, customerId: null } : inv));
+    } catch (err) {
+      setError('Fout bij verwijderen klant: ' + (err as Error).message);
+      throw err;
+    }
+  };
+
+  // Merge touches customers and items at once, so it reloads like an import
+  const mergeCustomers = async (targetId: string, duplicateIds: string[]) => {
+    try {
+      await store.mergeCustomers(targetId, duplicateIds);
+      await loadData();
+    } catch (err) {
+      setError('Fout bij samenvoegen klanten: ' + (err as Error).message);
+      throw err;
+    }
+  };
+
+  // Product catalog operations
+  const addProduct = async (data: ProductInput) => {
+    try {
+      const newProduct = await store.addProduct(data);
+      setProducts(prev => [...prev, newProduct]);
+      return newProduct;
+    } catch (err) {
+      setError('Fout bij toevoegen product: ' + (err as Error).message);
+      throw err;
+    }
+  };
+
+  // Optimistic like item updates; a rename is mirrored in the plan name of linked items
+  const updateProduct = async (id: string, updates: ProductPatch) => {
+    setProducts(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
+    if (updates.name !== undefined) {
+      setSubs(prev => prev.map(s => s.productId === id ? { ...s, planName: updates.name! } : s));
+    }
+    try {
+      return await store.updateProduct(id, updates);
+    } catch (err) {
+      setError('Fout bij updaten product: ' + (err as Error).message);
+      await loadData();
+      throw err;
+    }
+  };
+
+  const deleteProduct = async (id: string) => {
+    try {
+      await store.deleteProduct(id);
+      setProducts(prev => prev.filter(p => p.id !== id));
+      setSubs(prev => prev.map(s => s.productId === id ? { ...s, productId: null } : s));
+    } catch (err) {
+      setError('Fout bij verwijderen product: ' + (err as Error).message);
+      throw err;
+    }
+  };
+
   // Subscription operations
-  const addSubscription = async (subData: any) => {
+  const addSubscription = async (subData: SubscriptionInput, origin: AuditOrigin = {}) => {
     try {
-      const revenueData = converters.subscriptionToRevenueEntry(subData);
-      const newEntry = await subscriptionOperations.create(revenueData);
-      const newSub = converters.revenueEntryToSubscription(newEntry);
-      setSubs(prev => [newSub, ...prev]);
+      const newSub = await store.addSubscription(subData);
+      // A new customer was created for the item: reload to get it
+      if (newSub.customerId && !customers.some(c => c.id === newSub.customerId)) await loadData();
+      else setSubs(prev => [newSub, ...prev]);
+      logChange({ entity: 'subscription', entityId: newSub.id, action: 'create', label: subscriptionLabel(newSub), changes: [], snapshot: newSub, ...origin });
       return newSub;
     } catch (err) {
       setError('Fout bij toevoegen item: ' + (err as Error).message);
@@ -89,47 +261,318 @@ export function useDatabase() {
     }
   };
 
-  const updateSubscription = async (id: string, updates: any) => {
+  // Writes of one item go out one after another, so the last keystroke is also the last value stored
+  const subscriptionWrites = useRef(new Map<string, Promise<unknown>>());
+
+  // Applied optimistically so inline inputs stay responsive; a failed write reloads from the store
+  const updateSubscription = async (id: string, updates: SubscriptionPatch, origin: AuditOrigin = {}) => {
+    const before = subs.find(s => s.id === id);
+    setSubs(prev => prev.map(s => s.id === id ? { ...s, ...updates } : s));
+    const previous = subscriptionWrites.current.get(id) ?? Promise.resolve();
+    const write = previous.catch(() => {}).then(() => store.updateSubscription(id, updates));
+    subscriptionWrites.current.set(id, write);
     try {
-      const numId = parseInt(id);
-      const revenueUpdates = converters.subscriptionToRevenueEntry({...updates, id});
-      const updated = await subscriptionOperations.update(numId, revenueUpdates);
-      const updatedSub = converters.revenueEntryToSubscription(updated);
-      setSubs(prev => prev.map(s => s.id === id ? updatedSub : s));
-      return updatedSub;
+      const updated = await write;
+      const changes = before ? diffChanges(before, updates) : [];
+      if (changes.length) logChange({ entity: 'subscription', entityId: id, action: 'update', label: subscriptionLabel(updated), changes, ...origin });
+      return updated;
     } catch (err) {
       setError('Fout bij updaten item: ' + (err as Error).message);
+      await loadData();
       throw err;
+    } finally {
+      if (subscriptionWrites.current.get(id) === write) subscriptionWrites.current.delete(id);
     }
   };
 
-  const deleteSubscription = async (id: string) => {
+  // The item's payments are kept in the audit entry, so undo restores them as well
+  const deleteSubscription = async (id: string, origin: AuditOrigin = {}) => {
+    const before = subs.find(s => s.id === id);
     try {
-      const numId = parseInt(id);
-      await subscriptionOperations.delete(numId);
+      await store.deleteSubscription(id);
+      if (before) {
+        const itemPayments = payments.filter(p => p.subscriptionId === id);
+        logChange({ entity: 'subscription', entityId: id, action: 'delete', label: subscriptionLabel(before), changes: [], snapshot: before, payments: itemPayments, ...origin });
+      }
       setSubs(prev => prev.filter(s => s.id !== id));
+      setPayments(prev => prev.filter(p => p.subscriptionId !== id));
+      setInvoices(prev => prev.map(inv => ({
+        ...inv,
+        lines: inv.lines.map(l => l.subscriptionId === id ? { ...l, subscriptionId: null } : l)
+      })));
     } catch (err) {
       setError('Fout bij verwijderen item: ' + (err as Error).message);
       throw err;
     }
   };
 
+  // Payment operations
+  const addPayment = async (data: PaymentInput) => {
+    try {
+      const newPayment = await store.addPayment(data);
+      setPayments(prev => [newPayment, ...prev]);
+      return newPayment;
+    } catch (err) {
+      setError('Fout bij toevoegen betaling: ' + (err as Error).message);
+      throw err;
+    }
+  };
+
+  const updatePayment = async (id: string, updates: PaymentPatch) => {
+    setPayments(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
+    try {
+      return await store.updatePayment(id, updates);
+    } catch (err) {
+      setError('Fout bij updaten betaling: ' + (err as Error).message);
+      await loadData();
+      throw err;
+    }
+  };
+
+  const deletePayment = async (id: string) => {
+    try {
+      await store.deletePayment(id);
+      setPayments(prev => prev.filter(p => p.id !== id));
+    } catch (err) {
+      setError('Fout bij verwijderen betaling: ' + (err as Error).message);
+      throw err;
+    }
+  };
+
+  // Expense operations
+  const addExpense = async (data: ExpenseInput) => {
+    try {
+      const newExpense = await store.addExpense(data);
+      setExpenses(prev => [newExpense, ...prev]);
+      return newExpense;
+    } catch (err) {
+      setError('Fout bij toevoegen uitgave: ' + (err as Error).message);
+      throw err;
+    }
+  };
+
+  const updateExpense = async (id: string, updates: ExpensePatch) => {
+    setExpenses(prev => prev.map(e => e.id === id ? { ...e, ...updates } : e));
+    try {
+      return await store.updateExpense(id, updates);
+    } catch (err) {
+      setError('Fout bij updaten uitgave: ' + (err as Error).message);
+      await loadData();
+      throw err;
+    }
+  };
+
+  const deleteExpense = async (id: string) => {
+    try {
+      await store.deleteExpense(id);
+      setExpenses(prev => prev.filter(e => e.id !== id));
+    } catch (err) {
+      setError('Fout bij verwijderen uitgave: ' + (err as Error).message);
+      throw err;
+    }
+  };
+
+  // Exchange rates
+  const saveRates = async (updates: ExchangeRate[]) => {
+    try {
+      await store.saveRates(updates);
+      setRates(prev => mergeRates(prev, updates));
+    } catch (err) {
+      setError('Fout bij opslaan wisselkoersen: ' + (err as Error).message);
+      throw err;
+    }
+  };
+
+  const deleteRate = async (month: string, currency: string) => {
+    try {
+      await store.deleteRate(month, currency);
+      setRates(prev => prev.filter(r => !(r.month === month && r.currency === currency)));
+    } catch (err) {
+      setError('Fout bij verwijderen wisselkoers: ' + (err as Error).message);
+      throw err;
+    }
+  };
+
+  // Invoices: generated drafts are stored in one batch and replace their previous version
+  const saveInvoices = async (drafts: InvoiceDraft[]) => {
+    try {
+      const saved = await store.saveInvoices(drafts);
+      const byId = new Map(saved.map(inv => [inv.id, inv]));
+      setInvoices(prev => [...prev.map(inv => byId.get(inv.id) ?? inv), ...saved.filter(inv => !prev.some(p => p.id === inv.id))]);
+      return saved;
+    } catch (err) {
+      setError('Fout bij opslaan facturen: ' + (err as Error).message);
+      throw err;
+    }
+  };
+
+  const updateInvoice = async (id: string, updates: InvoicePatch) => {
+    setInvoices(prev => prev.map(inv => inv.id === id ? { ...inv, ...updates } : inv));
+    try {
+      return await store.updateInvoice(id, updates);
+    } catch (err) {
+      setError('Fout bij updaten factuur: ' + (err as Error).message);
+      await loadData();
+      throw err;
+    }
+  };
+
+  const deleteInvoice = async (id: string) => {
+    try {
+      await store.deleteInvoice(id);
+      setInvoices(prev => prev.filter(inv => inv.id !== id));
+    } catch (err) {
+      setError('Fout bij verwijderen factuur: ' + (err as Error).message);
+      throw err;
+    }
+  };
+
+  // CSV import: stored in one batch, then reloaded so generated ids and companies are in sync
+  const importBatch = async (batch: ImportBatch) => {
+    try {
+      await store.importBatch(batch);
+      await loadData();
+    } catch (err) {
+      setError('Fout bij importeren: ' + (err as Error).message);
+      throw err;
+    }
+  };
+
+  // Re-create a deleted company with its settings and dependents as one audit entry; reloaded when dependents came back
+  const restoreCompany = async (snapshot: Company, dependents: CompanyDependents | undefined, origin: AuditOrigin) => {
+    const company = await restoreCompanyIn(store, snapshot, dependents, current());
+    if (dependents) await loadData();
+    else setCompanies(prev => [...prev, company]);
+    logChange({ entity: 'company', entityId: company.id, action: 'create', label: company.name, changes: [], snapshot: company, ...origin });
+    return company;
+  };
+
+  // Re-create a deleted item with its payments; links to companies, products and customers deleted since are dropped
+  const restoreSubscription = async (snapshot: Subscription, itemPayments: Payment[], origin: AuditOrigin) => {
+    const { id: _id, ...data } = snapshot;
+    const sub = await store.addSubscription({
+      ...data,
+      companyId: companies.some(c => c.id === data.companyId) ? data.companyId : null,
+      productId: products.some(p => p.id === data.productId) ? data.productId : null,
+      customerId: customers.some(c => c.id === data.customerId) ? data.customerId : undefined
+    });
+    const restored: Payment[] = [];
+    for (const { id: _paymentId, ...payment } of itemPayments) restored.push(await store.addPayment({ ...payment, subscriptionId: sub.id }));
+    if (sub.customerId && !customers.some(c => c.id === sub.customerId)) await loadData();
+    else {
+      setSubs(prev => [sub, ...prev]);
+      setPayments(prev => [...restored, ...prev]);
+    }
+    logChange({ entity: 'subscription', entityId: sub.id, action: 'create', label: subscriptionLabel(sub), changes: [], snapshot: sub, payments: restored, ...origin });
+    return sub;
+  };
+
+  // Apply the inverse of an entry; the edit itself is logged, marked as undo or redo
+  const revert = async (entry: AuditEntry, source: 'undo' | 'redo') => {
+    const inverse = inverseOf(entry);
+    const id = resolveId(inverse.entityId);
+    if (inverse.action === 'update') {
+      if (inverse.entity === 'company') await updateCompany(id, inverse.patch as CompanyPatch, { source });
+      else await updateSubscription(id, inverse.patch as SubscriptionPatch, { source });
+    } else if (inverse.action === 'delete') {
+      if (inverse.entity === 'company') await deleteCompany(id, { source });
+      else await deleteSubscription(id, { source });
+    } else {
+      const restored =
+        inverse.entity === 'company'
+          ? await restoreCompany(inverse.record as Company, inverse.dependents, { source, restoredFrom: id })
+          : await restoreSubscription(inverse.record as Subscription, inverse.payments, { source, restoredFrom: id });
+      renamedIds.current.set(id, restored.id);
+    }
+  };
+
+  // Undo and redo wait for pending audit entries and run one at a time
+  const step = async (from: { current: AuditEntry[] }, source: 'undo' | 'redo') => {
+    if (reverting.current) return;
+    reverting.current = true;
+    try {
+      await auditQueue.current;
+      const entry = from.current.pop();
+      syncStackSizes();
+      if (!entry) return;
+      await revert(entry, source);
+      await auditQueue.current;
+    } catch (err) {
+      setError(`Fout bij ${source === 'undo' ? 'ongedaan maken' : 'opnieuw uitvoeren'}: ` + (err as Error).message);
+      throw err;
+    } finally {
+      reverting.current = false;
+    }
+  };
+
+  const undo = () => step(undoStack, 'undo');
+  const redo = () => step(redoStack, 'redo');
+
+  // Backup restore: replaces everything in the store, then reloads; the ids on the undo stacks are gone with it
+  const restore = async (data: RevenueState) => {
+    try {
+      await store.replaceAll(data);
+      undoStack.current = [];
+      redoStack.current = [];
+      renamedIds.current.clear();
+      lastEntry.current = null;
+      syncStackSizes();
+      await loadData();
+    } catch (err) {
+      setError('Fout bij herstellen backup: ' + (err as Error).message);
+      throw err;
+    }
+  };
+
   return {
     // Data
-    companies: companies.map(c => ({ id: c.id.toString(), name: c.name })),
+    companies,
+    customers,
+    products,
     subs,
+    payments,
+    expenses,
+    rates,
+    invoices,
+    audit,
     loading,
     error,
-    
+
     // Operations
     addCompany,
     updateCompany,
     deleteCompany,
+    addCustomer,
+    updateCustomer,
+    deleteCustomer,
+    mergeCustomers,
+    addProduct,
+    updateProduct,
+    deleteProduct,
     addSubscription,
     updateSubscription,
     deleteSubscription,
-    
+    addPayment,
+    updatePayment,
+    deletePayment,
+    addExpense,
+    updateExpense,
+    deleteExpense,
+    saveRates,
+    deleteRate,
+    saveInvoices,
+    updateInvoice,
+    deleteInvoice,
+    importBatch,
+    restore,
+
+    // History
+    undo,
+    redo,
+    canUndo: stackSizes.undo > 0,
+    canRedo: stackSizes.redo > 0,
+
     // Refresh
     refresh: loadData
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,138 @@
+import type { RevenueState, RevenueStore } from './store';
+import type { AuditChange, AuditEntity, AuditEntry, Company, CompanyDependents, Payment, Subscription } from './types';
+
+// ------------------------------
+// Audit log: field changes of companies and items, coalesced while typing,
+// and the inverse edits used by undo and redo
+// ------------------------------
+
+/** An entry that is not stored yet has no id */
+export type AuditDraft = Omit<AuditEntry, 'id'> & { id?: string };
+
+/** Entries kept by the browser stores (newest first); older ones are dropped so the saved state stays within the quota */
+export const AUDIT_LIMIT = 500;
+
+/** Updates of the same fields within this time extend the previous entry (one entry per typed value) */
+export const COALESCE_MS = 5000;
+
+export const subscriptionLabel = (sub: Pick<Subscription, 'customer' | 'planName'>) => `${sub.customer} – ${sub.planName}`;
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/** Fields of `patch` that differ from `before`, with their old and new value */
+export function diffChanges(before: object, patch: object): AuditChange[] {
+  const current = before as Record<string, unknown>;
+  return Object.entries(patch)
+    .filter(([field, after]) => !sameValue(current[field], after))
+    .map(([field, after]) => ({ field, before: current[field], after }));
+}
+
+const fieldsOf = (entry: Pick<AuditEntry, 'changes'>) => entry.changes.map(c => c.field).sort().join('|');
+
+/**
+ * `next` merged into `last` when it updates the same fields of the same record by the same user
+ * within COALESCE_MS: the first before-value is kept, the after-value is the latest. Otherwise `next`.
+ */
+export function coalesceEntry(last: AuditEntry | null, next: AuditDraft): AuditDraft {
+  if (!last || last.action !== 'update' || next.action !== 'update' || last.source || next.source) return next;
+  if (last.user !== next.user || last.entity !== next.entity || last.entityId !== next.entityId) return next;
+  if (Date.parse(next.at) - Date.parse(last.at) > COALESCE_MS || fieldsOf(last) !== fieldsOf(next)) return next;
+  return {
+    ...last,
+    at: next.at,
+    label: next.label,
+    changes: last.changes.map(c => ({ ...c, after: next.changes.find(n => n.field === c.field)?.after }))
+  };
+}
+
+/** The edit that reverts an entry */
+export type AuditInverse =
+  | { action: 'update'; entity: AuditEntity; entityId: string; patch: Record<string, unknown> }
+  | { action: 'delete'; entity: AuditEntity; entityId: string }
+  | {
+      action: 'create';
+      entity: AuditEntity;
+      entityId: string;
+      record: Company | Subscription;
+      payments: Payment[];
+      dependents?: CompanyDependents;
+    };
+
+/** Updates are reverted field by field, a created record is deleted and a deleted one re-created from its snapshot */
+export function inverseOf(entry: AuditEntry): AuditInverse {
+  const { entity, entityId } = entry;
+  if (entry.action === 'update') {
+    return { action: 'update', entity, entityId, patch: Object.fromEntries(entry.changes.map(c => [c.field, c.before])) };
+  }
+  if (entry.action === 'create') return { action: 'delete', entity, entityId };
+  if (!entry.snapshot) throw new Error(`Audit entry ${entry.id} has no snapshot to restore`);
+  return { action: 'create', entity, entityId, record: entry.snapshot, payments: entry.payments ?? [], dependents: entry.dependents };
+}
+
+/** Records deleted and links cleared along with a company, kept in its delete entry so undo can put them back */
+export function companyDependents(state: RevenueState, companyId: string): CompanyDependents {
+  const products = state.products.filter(p => p.companyId === companyId);
+  const productIds = new Set(products.map(p => p.id));
+  return {
+    products,
+    expenses: state.expenses.filter(e => e.companyId === companyId),
+    invoices: state.invoices.filter(inv => inv.companyId === companyId && inv.status === 'draft'),
+    items: state.subs
+      .filter(s => s.companyId === companyId || (s.productId && productIds.has(s.productId)))
+      .map(s => ({ id: s.id, companyId: s.companyId, productId: s.productId })),
+    customerIds: state.customers.filter(c => c.companyIds.includes(companyId)).map(c => c.id)
+  };
+}
+
+/**
+ * Re-create a deleted company in `store` with its settings and dependents: products, expenses and drafts are
+ * added again, items and customers relinked. `state` is the current data; records deleted since are skipped,
+ * and items that got another company or product in the meantime keep it.
+ */
+export async function restoreCompany(store: RevenueStore, snapshot: Company, dependents: CompanyDependents | undefined, state: RevenueState) {
+  const { id: oldId, name, ...settings } = snapshot;
+  let company = await store.addCompany(name);
+  if (Object.keys(settings).length) company = await store.updateCompany(company.id, settings);
+  if (!dependents) return company;
+
+  const productIds = new Map<string, string>();
+  for (const { id, ...product } of dependents.products) productIds.set(id, (await store.addProduct({ ...product, companyId: company.id })).id);
+  for (const { id: _id, ...expense } of dependents.expenses) await store.addExpense({ ...expense, companyId: company.id });
+  const subIds = new Set(state.subs.map(s => s.id));
+  const customerIds = new Set(state.customers.map(c => c.id));
+  if (dependents.invoices.length) {
+    await store.saveInvoices(dependents.invoices.map(({ id: _id, ...inv }) => ({
+      ...inv,
+      companyId: company.id,
+      customerId: inv.customerId && customerIds.has(inv.customerId) ? inv.customerId : null,
+      lines: inv.lines.map(l => ({ ...l, subscriptionId: l.subscriptionId && subIds.has(l.subscriptionId) ? l.subscriptionId : null }))
+    })));
+  }
+  for (const item of dependents.items) {
+    const current = state.subs.find(s => s.id === item.id);
+    if (!current) continue;
+    const patch: Partial<Subscription> = {};
+    if (item.companyId === oldId && current.companyId === null) patch.companyId = company.id;
+    if (item.productId && productIds.has(item.productId) && current.productId === null) patch.productId = productIds.get(item.productId)!;
+    if (Object.keys(patch).length) await store.updateSubscription(item.id, patch);
+  }
+  for (const customer of state.customers) {
+    if (dependents.customerIds.includes(customer.id)) await store.updateCustomer(customer.id, { companyIds: [...customer.companyIds, company.id] });
+  }
+  return company;
+}
+
+/** Entries of one record, newest first, including those of the deleted records it was re-created from */
+export function historyOf(audit: AuditEntry[], entity: AuditEntity, entityId: string): AuditEntry[] {
+  const ids = new Set([entityId]);
+  for (let grew = true; grew; ) {
+    grew = false;
+    for (const e of audit) {
+      if (e.entity === entity && ids.has(e.entityId) && e.restoredFrom && !ids.has(e.restoredFrom)) {
+        ids.add(e.restoredFrom);
+        grew = true;
+      }
+    }
+  }
+  return audit.filter(e => e.entity === entity && ids.has(e.entityId)).sort((a, b) => b.at.localeCompare(a.at));
+}
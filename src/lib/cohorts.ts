@@ -0,0 +1,55 @@
+import type { Fx } from './currency';
+import { accountKey } from './metrics';
+import { isActiveInMonth, monthsBetweenInclusive, mrrInMonth } from './revenue';
+import type { Subscription } from './types';
+
+// ------------------------------
+// Cohort retention: items grouped by start month, retained logos and MRR in every month after it
+// ------------------------------
+
+export type CohortCell = {
+  month: string; // YYYY-MM
+  logos: number; // accounts (company + customer) with an active item of the cohort
+  mrr: number; // MRR of the cohort's items, in the reporting currency
+};
+
+export type Cohort = {
+  cohort: string; // YYYY-MM start month
+  items: number; // items started in that month
+  cells: CohortCell[]; // index = months since the start month (0 = start month) up to the last month
+};
+
+/**
+ * Retention triangle for the items that start within `months`: one cohort per start month, each
+ * with the active logos and MRR from its start month up to the last month of the range.
+ */
+export function calcCohorts(subs: Subscription[], months: string[], fx?: Fx): Cohort[] {
+  if (months.length === 0) return [];
+  const last = months[months.length - 1];
+  const byCohort = new Map<string, Subscription[]>();
+  for (const sub of subs) {
+    const cohort = sub.startDate.slice(0, 7);
+    if (cohort < months[0] || cohort > last) continue;
+    byCohort.set(cohort, [...(byCohort.get(cohort) || []), sub]);
+  }
+  return [...byCohort.keys()].sort().map(cohort => {
+    const members = byCohort.get(cohort)!;
+    const cells = monthsBetweenInclusive(cohort, last).map(mk => {
+      const [y, m] = mk.split('-').map(Number);
+      const active = members.filter(sub => isActiveInMonth(sub, y, m));
+      return {
+        month: mk,
+        logos: new Set(active.map(accountKey)).size,
+        mrr: active.reduce((a, sub) => a + mrrInMonth(sub, mk, fx), 0)
+      };
+    });
+    return { cohort, items: members.length, cells };
+  });
+}
+
+/** Share of the start month still retained (null when the cohort had nothing to retain) */
+export function retentionOf(cohort: Cohort, index: number, metric: 'logos' | 'mrr') {
+  const base = cohort.cells[0][metric];
+  const cell = cohort.cells[index];
+  return cell && base > 0 ? cell[metric] / base : null;
+}
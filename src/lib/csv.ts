@@ -0,0 +1,69 @@
+// ------------------------------
+// Minimal RFC 4180 CSV parsing (quoted fields, escaped quotes, CRLF)
+// ------------------------------
+
+/** Pick the delimiter of the header line: Dutch Excel exports use ";" */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const counts = [';', ',', '\t'].map(d => ({ d, n: firstLine.split(d).length - 1 }));
+  counts.sort((a, b) => b.n - a.n);
+  return counts[0].n > 0 ? counts[0].d : ',';
+}
+
+/** Parse CSV text into rows of cells; blank lines are skipped */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && cell === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+export type CsvCell = string | number | null | undefined;
+
+const quoteCell = (value: CsvCell, delimiter: string): string => {
+  if (value == null) return '';
+  const text = String(value);
+  return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Serialize rows to CSV; ";" by default so Dutch Excel opens it in columns */
+export function toCsv(rows: CsvCell[][], delimiter = ';'): string {
+  return rows.map(r => r.map(c => quoteCell(c, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,77 @@
+import { parseAmount } from './import';
+import type { ExchangeRate } from './types';
+
+// ------------------------------
+// Currencies: exchange-rate table per month and conversion to a reporting currency
+// ------------------------------
+
+/** Amounts without a currency (expenses, older items) are in the base currency */
+export const BASE_CURRENCY = 'EUR';
+
+/** Offered in the currency pickers; any ISO 4217 code in the rate table works too */
+export const COMMON_CURRENCIES = ['EUR', 'USD', 'GBP', 'CHF'];
+
+/** Conversion target for series and KPIs: the reporting currency and the rate table */
+export type Fx = { to: string; rates: ExchangeRate[] };
+
+export const isCurrencyCode = (code: unknown): code is string => typeof code === 'string' && /^[A-Z]{3}$/.test(code);
+
+/**
+ * Value of 1 `currency` in the base currency for a YYYY-MM month: the rate of that month,
+ * else the latest earlier month, else the earliest later month. null when the table has none.
+ */
+export function rateToBase(rates: ExchangeRate[], currency: string, mk: string): number | null {
+  if (currency === BASE_CURRENCY) return 1;
+  let before: ExchangeRate | null = null;
+  let after: ExchangeRate | null = null;
+  for (const r of rates) {
+    if (r.currency !== currency) continue;
+    if (r.month <= mk && (!before || r.month > before.month)) before = r;
+    if (r.month > mk && (!after || r.month < after.month)) after = r;
+  }
+  return (before ?? after)?.rate ?? null;
+}
+
+/** Factor that converts an amount in `from` to the reporting currency in month `mk` (1 when a rate is missing) */
+export function fxFactor(from: string | undefined, mk: string, fx?: Fx): number {
+  const source = from || BASE_CURRENCY;
+  if (!fx || source === fx.to) return 1;
+  const fromRate = rateToBase(fx.rates, source, mk);
+  const toRate = rateToBase(fx.rates, fx.to, mk);
+  return fromRate == null || toRate == null ? 1 : fromRate / toRate;
+}
+
+/** Currencies used by `currencies` that have no rate at all, so their amounts are counted 1:1 */
+export function missingRates(currencies: (string | undefined)[], fx: Fx): string[] {
+  const used = new Set([...currencies.map(c => c || BASE_CURRENCY), fx.to]);
+  return [...used].filter(c => c !== BASE_CURRENCY && !fx.rates.some(r => r.currency === c)).sort();
+}
+
+/** Add or replace rates (one per month and currency) */
+export function mergeRates(rates: ExchangeRate[], updates: ExchangeRate[]): ExchangeRate[] {
+  const key = (r: ExchangeRate) => `${r.month}|${r.currency}`;
+  const byKey = new Map(rates.map(r => [key(r), r]));
+  for (const r of updates) byKey.set(key(r), r);
+  return [...byKey.values()].sort((a, b) => a.month.localeCompare(b.month) || a.currency.localeCompare(b.currency));
+}
+
+/**
+ * Parse an imported rate file: a header line, then month (YYYY-MM), currency and rate
+ * (value of 1 unit in EUR) per row. Rows with errors are reported, not imported.
+ */
+export function parseRateRows(rows: string[][]): { rates: ExchangeRate[]; errors: string[] } {
+  const rates: ExchangeRate[] = [];
+  const errors: string[] = [];
+  rows.slice(1).forEach((cells, i) => {
+    const [monthRaw = '', currencyRaw = '', rateRaw = ''] = cells.map(c => c.trim());
+    const iso = /^\d{2}-\d{4}$/.test(monthRaw) ? `${monthRaw.slice(3)}-${monthRaw.slice(0, 2)}` : monthRaw; // MM-YYYY -> YYYY-MM
+    const month = /^\d{4}-(0[1-9]|1[0-2])$/.test(iso) ? iso : null;
+    const currency = currencyRaw.toUpperCase();
+    const rate = parseAmount(rateRaw);
+    if (!month) errors.push(`Regel ${i + 2}: ongeldige maand "${monthRaw}"`);
+    else if (!isCurrencyCode(currency)) errors.push(`Regel ${i + 2}: ongeldige valuta "${currencyRaw}"`);
+    else if (rate == null || rate <= 0) errors.push(`Regel ${i + 2}: ongeldige koers "${rateRaw}"`);
+    else rates.push({ month, currency, rate });
+  });
+  return { rates, errors };
+}
@@ -0,0 +1,163 @@
+import type { Fx } from './currency';
+import { calcSeries, monthKey, monthsBetweenInclusive, seriesTotals } from './revenue';
+import type { Company, Customer, Subscription } from './types';
+
+// ------------------------------
+// Customers: linking items by name, duplicate detection, lifetime value and rankings
+// ------------------------------
+
+/** Items are linked to a customer with the same name, ignoring case and surrounding/double spaces */
+export const customerKey = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const LEGAL_FORMS = new Set(['bv', 'nv', 'vof', 'cv', 'ltd', 'inc', 'gmbh', 'llc']);
+
+/** Looser key for duplicate suggestions: no accents, punctuation or legal form ("Café de Markt B.V." -> "cafe de markt") */
+export function similarKey(name: string) {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\b([a-z])\.(?=[a-z]\.)/g, '$1')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !LEGAL_FORMS.has(word))
+    .join(' ');
+}
+
+function editDistance(a: string, b: string) {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** Same loose key, or at most one typo (two for longer names) apart */
+function looksAlike(a: string, b: string) {
+  if (a === b) return true;
+  const max = Math.min(a.length, b.length) >= 10 ? 2 : Math.min(a.length, b.length) >= 4 ? 1 : 0;
+  return max > 0 && Math.abs(a.length - b.length) <= max && editDistance(a, b) <= max;
+}
+
+/** Groups of customers that are probably the same (two or more per group), for merging */
+export function findDuplicates(customers: Customer[]): Customer[][] {
+  const keys = customers.map(c => similarKey(c.name));
+  const groupOf = customers.map((_, i) => i);
+  const root = (i: number): number => (groupOf[i] === i ? i : (groupOf[i] = root(groupOf[i])));
+  for (let i = 0; i < customers.length; i++) {
+    for (let j = i + 1; j < customers.length; j++) {
+      if (keys[i] && keys[j] && looksAlike(keys[i], keys[j])) groupOf[root(j)] = root(i);
+    }
+  }
+  const groups = new Map<number, Customer[]>();
+  customers.forEach((c, i) => groups.set(root(i), [...(groups.get(root(i)) || []), c]));
+  return [...groups.values()].filter(g => g.length > 1);
+}
+
+/**
+ * Link items without a customer record to a customer with the same name, creating the missing
+ * customers (linked to the item's company). Used when upgrading stored data and on import.
+ */
+export function linkCustomers(customers: Customer[], subs: Subscription[], newId: () => string) {
+  const byKey = new Map(customers.map(c => [customerKey(c.name), c]));
+  const created: Customer[] = [];
+  const linked = subs.map(sub => {
+    if (sub.customerId) return sub;
+    const key = customerKey(sub.customer);
+    let customer = byKey.get(key);
+    if (!customer) {
+      customer = { id: newId(), name: sub.customer.trim(), companyIds: sub.companyId ? [sub.companyId] : [] };
+      byKey.set(key, customer);
+      created.push(customer);
+    }
+    return { ...sub, customerId: customer.id, customer: customer.name };
+  });
+  return { customers: [...customers, ...created], subs: linked };
+}
+
+/** Companies of a customer: the linked ones plus those of its items */
+export function customerCompanyIds(customer: Customer, subs: Subscription[]) {
+  const ids = new Set(customer.companyIds);
+  for (const s of subs) if (s.customerId === customer.id && s.companyId) ids.add(s.companyId);
+  return [...ids];
+}
+
+export type CustomerSummary = {
+  firstMonth: string | null; // first month with an item
+  ltv: number; // cash received from the first month up to and including `today`'s month
+  timeline: { month: string; amount: number }[]; // cash per month over the same period
+};
+
+/** Lifetime value and revenue timeline of one customer's items */
+export function customerSummary(subs: Subscription[], today: Date = new Date(), fx?: Fx): CustomerSummary {
+  const current = monthKey(today);
+  const firstMonth = subs.reduce<string | null>((min, s) => {
+    const mk = monthKey(s.startDate);
+    return !min || mk < min ? mk : min;
+  }, null);
+  if (!firstMonth || firstMonth > current) return { firstMonth, ltv: 0, timeline: [] };
+  const months = monthsBetweenInclusive(firstMonth, current);
+  const totals = seriesTotals(subs, 'cash', months, fx);
+  return {
+    firstMonth,
+    ltv: Math.round(months.reduce((a, mk) => a + totals[mk], 0) * 100) / 100,
+    timeline: calcSeries(subs, 'cash', months, fx)
+  };
+}
+
+export type CustomerRank = {
+  customerId: string | null; // null: items without customer record
+  name: string;
+  revenue: number; // cash in the selected months
+  share: number | null; // of the total cash of all customers
+};
+
+export type Concentration = {
+  top1: number | null; // share of the largest customer
+  top5: number | null; // share of the five largest customers
+  hhi: number | null; // Herfindahl-Hirschman index (sum of squared shares, 0–1)
+};
+
+/** Customers by cash revenue in `months`, largest first (customers without revenue are left out) */
+export function rankCustomers(customers: Customer[], subs: Subscription[], months: string[], fx?: Fx): CustomerRank[] {
+  const revenue = new Map<string | null, number>();
+  for (const sub of subs) {
+    const amount = calcSeries([sub], 'cash', months, fx).reduce((a, b) => a + b.amount, 0);
+    const id = sub.customerId ?? null;
+    revenue.set(id, (revenue.get(id) || 0) + amount);
+  }
+  const total = [...revenue.values()].reduce((a, b) => a + b, 0);
+  return [...revenue.entries()]
+    .filter(([, amount]) => amount > 0)
+    .map(([customerId, amount]) => ({
+      customerId,
+      name: customers.find(c => c.id === customerId)?.name ?? 'Zonder klant',
+      revenue: amount,
+      share: total > 0 ? amount / total : null
+    }))
+    .sort((a, b) => b.revenue - a.revenue);
+}
+
+export function concentrationOf(ranking: CustomerRank[]): Concentration {
+  if (ranking.length === 0) return { top1: null, top5: null, hhi: null };
+  const shares = ranking.map(r => r.share ?? 0);
+  return {
+    top1: shares[0],
+    top5: shares.slice(0, 5).reduce((a, b) => a + b, 0),
+    hhi: shares.reduce((a, s) => a + s * s, 0)
+  };
+}
+
+/** Ranking and concentration per company (null = items without company), companies without revenue left out */
+export function rankCustomersByCompany(companies: Company[], customers: Customer[], subs: Subscription[], months: string[], fx?: Fx) {
+  return [...companies.map(c => c.id as string | null), null]
+    .map(companyId => {
+      const ranking = rankCustomers(customers, subs.filter(s => s.companyId === companyId), months, fx);
+      return { companyId, ranking, concentration: concentrationOf(ranking) };
+    })
+    .filter(row => row.ranking.length > 0);
+}
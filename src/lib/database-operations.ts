@@ -1,10 +1,30 @@
-import { sql } from './db';
-import { Business, RevenueEntry } from './migrations';
+import { sql, type DatabaseRow, type Query } from './db';
+import type {
+  AuditLogRow,
+  Business,
+  CustomerRow,
+  ExchangeRateRow,
+  ExpenseEntry,
+  InvoiceLineRow,
+  InvoiceRow,
+  PaymentRow,
+  ProductRow,
+  SubscriptionDiscountRow,
+  SubscriptionPriceChangeRow,
+  SubscriptionRow,
+  SubscriptionVariableAmountRow
+} from './migrations';
+import type { AuditDraft } from './audit';
+import { customerKey } from './customers';
+import type { ImportBatch } from './import';
+import { assertNoSentInvoices, assertSavable, type InvoiceDraft } from './invoices';
+import type { InvoicePatch, RevenueState } from './store';
+import type { AuditEntity, AuditEntry, Company, CompanyDependents, Customer, Discount, ExchangeRate, Expense, Invoice, InvoiceLine, Payment, PriceChange, Product, Subscription, VariableMap } from './types';
 
 // Business operations
 export const businessOperations = {
   async getAll(): Promise<Business[]> {
-    return await sql`SELECT * FROM businesses ORDER BY created_at DESC`;
+    return (await sql`SELECT * FROM businesses ORDER BY created_at DESC`) as Business[];
   },
 
   async create(name: string, description?: string): Promise<Business> {
@@ -13,114 +33,885 @@ export const businessOperations = {
       VALUES (${name}, ${description || null})
       RETURNING *
     `;
-    return business;
+    return business as Business;
   },
 
-  async update(id: number, updates: Partial<Pick<Business, 'name' | 'description'>>): Promise<Business> {
+  // payments_from can be cleared: it is only left alone when the key is missing from `updates`
+  async update(id: number, updates: Partial<Pick<Business, 'name' | 'description' | 'vat_code' | 'payments_from' | 'proration'>>): Promise<Business> {
     const [business] = await sql`
       UPDATE businesses 
       SET name = COALESCE(${updates.name}, name),
           description = COALESCE(${updates.description}, description),
+          vat_code = COALESCE(${updates.vat_code}, vat_code),
+          proration = COALESCE(${updates.proration}, proration),
+          payments_from = CASE WHEN ${'payments_from' in updates} THEN ${updates.payments_from ?? null} ELSE payments_from END,
           updated_at = CURRENT_TIMESTAMP
       WHERE id = ${id}
       RETURNING *
     `;
-    return business;
+    if (!business) throw new Error(`Business ${id} not found`);
+    return business as Business;
   },
 
+  // Refused while the business has sent invoices; its drafts are deleted with it
   async delete(id: number): Promise<void> {
-    await sql`DELETE FROM businesses WHERE id = ${id}`;
+    await sql.transaction([
+      Object.assign(sql`SELECT business_id::text AS "companyId", status FROM invoices WHERE business_id = ${id} FOR UPDATE`, {
+        check: (rows: DatabaseRow[]) => assertNoSentInvoices(rows as Pick<Invoice, 'companyId' | 'status'>[], id.toString())
+      }),
+      sql`DELETE FROM invoices WHERE business_id = ${id} AND status = 'draft'`,
+      sql`DELETE FROM businesses WHERE id = ${id}`
+    ]);
   }
 };
 
-// Subscription/Revenue operations
+// Helpers to map database rows onto the app Subscription type
+const toDateString = (value: string | Date): string => {
+  if (typeof value === 'string') return value.slice(0, 10);
+  return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+};
+
+const toVariableMaps = (rows: SubscriptionVariableAmountRow[]): Map<number, VariableMap> => {
+  const out = new Map<number, VariableMap>();
+  for (const row of rows) {
+    const map = out.get(row.subscription_id) || {};
+    map[row.month] = Number(row.amount);
+    out.set(row.subscription_id, map);
+  }
+  return out;
+};
+
+const toPriceChanges = (rows: SubscriptionPriceChangeRow[]): Map<number, PriceChange[]> => {
+  const out = new Map<number, PriceChange[]>();
+  for (const row of rows) {
+    const list = out.get(row.subscription_id) || [];
+    list.push({ effectiveDate: toDateString(row.effective_date), price: Number(row.price) });
+    out.set(row.subscription_id, list);
+  }
+  for (const list of out.values()) list.sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+  return out;
+};
+
+const toDiscounts = (rows: SubscriptionDiscountRow[]): Map<number, Discount[]> => {
+  const out = new Map<number, Discount[]>();
+  for (const row of [...rows].sort((a, b) => a.position - b.position || a.id - b.id)) {
+    const list = out.get(row.subscription_id) || [];
+    list.push({
+      kind: row.kind,
+      value: Number(row.value),
+      startDate: row.start_date ? toDateString(row.start_date) : undefined,
+      endDate: row.end_date ? toDateString(row.end_date) : undefined,
+      cycles: row.cycles ?? undefined,
+      label: row.label ?? undefined
+    });
+    out.set(row.subscription_id, list);
+  }
+  return out;
+};
+
+const rowToSubscription = (
+  row: SubscriptionRow,
+  variableAmounts?: VariableMap,
+  priceChanges?: PriceChange[],
+  discounts?: Discount[]
+): Subscription => ({
+  id: row.id.toString(),
+  companyId: row.business_id != null ? row.business_id.toString() : null,
+  productId: row.product_id != null ? row.product_id.toString() : null,
+  customerId: row.customer_id != null ? row.customer_id.toString() : undefined,
+  customer: row.customer,
+  planName: row.plan_name,
+  price: Number(row.price),
+  currency: row.currency,
+  vatCode: row.vat_code ?? undefined,
+  variableMrr: row.variable_mrr_method ? { method: row.variable_mrr_method, months: row.variable_mrr_months ?? 1 } : undefined,
+  billingType: row.billing_type,
+  cadence: row.cadence,
+  intervalMonths: row.interval_months ?? undefined,
+  anchorDate: row.anchor_date ? toDateString(row.anchor_date) : undefined,
+  startDate: toDateString(row.start_date),
+  cancelDate: row.cancel_date ? toDateString(row.cancel_date) : null,
+  variableAmounts: row.billing_type === 'variable' ? variableAmounts || {} : undefined,
+  priceChanges: priceChanges || [],
+  discounts: discounts || [],
+  notes: row.notes || ''
+});
+
+const toDbId = (id: string | null): number | null => (id ? parseInt(id, 10) : null);
+
+// Creates the customer of a subscription unless a customer with that name exists (same key as customerKey).
+// A customer created here is linked to the subscription's business (by id, or else by name as on import), as
+// linkCustomers does in the browser stores; an existing customer keeps its links.
+const insertMissingCustomer = (name: string, businessId: number | null, businessName: string | null = null) => sql`
+  WITH created AS (
+    INSERT INTO customers (name)
+    SELECT ${name.trim()}
+    WHERE NOT EXISTS (SELECT 1 FROM customers WHERE lower(regexp_replace(trim(name), '[[:space:]]+', ' ', 'g')) = ${customerKey(name)})
+    RETURNING id
+  )
+  INSERT INTO customer_businesses (customer_id, business_id)
+  SELECT created.id, b.id
+  FROM created
+  JOIN LATERAL (
+    SELECT id FROM businesses
+    WHERE id = ${businessId}::int OR (${businessId}::int IS NULL AND lower(trim(name)) = lower(trim(${businessName}::text)))
+    ORDER BY id
+    LIMIT 1
+  ) b ON true
+`;
+
+// Queries that write the per-month amounts, price history and discounts present in `data` (replacing the stored ones
+// when `replace` is set), to run in the transaction of the subscription's own INSERT/UPDATE; a null id is the
+// subscription inserted just before (currval)
+type SubscriptionDetails = Partial<Pick<Subscription, 'variableAmounts' | 'priceChanges' | 'discounts'>>;
+
+const detailQueries = (subscriptionId: number | null, data: SubscriptionDetails, replace = false) => [
+  ...(data.variableAmounts
+    ? [
+        ...(replace ? [sql`DELETE FROM subscription_variable_amounts WHERE subscription_id = ${subscriptionId}`] : []),
+        ...Object.entries(data.variableAmounts).map(([month, amount]) => sql`
+          INSERT INTO subscription_variable_amounts (subscription_id, month, amount)
+          VALUES (COALESCE(${subscriptionId}, currval(pg_get_serial_sequence('subscriptions', 'id'))), ${month}, ${amount})
+        `)
+      ]
+    : []),
+  ...(data.priceChanges
+    ? [
+        ...(replace ? [sql`DELETE FROM subscription_price_changes WHERE subscription_id = ${subscriptionId}`] : []),
+        ...data.priceChanges.map(change => sql`
+          INSERT INTO subscription_price_changes (subscription_id, effective_date, price)
+          VALUES (COALESCE(${subscriptionId}, currval(pg_get_serial_sequence('subscriptions', 'id'))), ${change.effectiveDate}, ${change.price})
+        `)
+      ]
+    : []),
+  ...(data.discounts
+    ? [
+        ...(replace ? [sql`DELETE FROM subscription_discounts WHERE subscription_id = ${subscriptionId}`] : []),
+        ...data.discounts.map((d, i) => sql`
+          INSERT INTO subscription_discounts (subscription_id, position, kind, value, start_date, end_date, cycles, label)
+          VALUES (
+            COALESCE(${subscriptionId}, currval(pg_get_serial_sequence('subscriptions', 'id'))), ${i},
+            ${d.kind}, ${d.value}, ${d.startDate || null}, ${d.endDate || null}, ${d.cycles ?? null}, ${d.label || null}
+          )
+        `)
+      ]
+    : [])
+];
+
+// Subscription operations
 export const subscriptionOperations = {
-  async getAll(): Promise<RevenueEntry[]> {
-    return await sql`SELECT * FROM revenue_entries ORDER BY created_at DESC`;
-  },
-
-  async create(data: {
-    business_id?: number | null;
-    amount: number;
-    description?: string;
-    category?: string;
-    date: string;
-  }): Promise<RevenueEntry> {
-    const [entry] = await sql`
-      INSERT INTO revenue_entries (business_id, amount, description, category, date)
-      VALUES (${data.business_id || null}, ${data.amount}, ${data.description || null}, ${data.category || null}, ${data.date})
+  async getAll(): Promise<Subscription[]> {
+    const [rows, amounts, prices, discountRows] = await Promise.all([
+      sql`SELECT * FROM subscriptions ORDER BY created_at DESC`,
+      sql`SELECT * FROM subscription_variable_amounts`,
+      sql`SELECT * FROM subscription_price_changes`,
+      sql`SELECT * FROM subscription_discounts`
+    ]);
+    const variableMaps = toVariableMaps(amounts as SubscriptionVariableAmountRow[]);
+    const priceChanges = toPriceChanges(prices as SubscriptionPriceChangeRow[]);
+    const discounts = toDiscounts(discountRows as SubscriptionDiscountRow[]);
+    return (rows as SubscriptionRow[]).map(row => rowToSubscription(row, variableMaps.get(row.id), priceChanges.get(row.id), discounts.get(row.id)));
+  },
+
+  async getById(id: string): Promise<Subscription | null> {
+    const numId = parseInt(id, 10);
+    const [rows, amounts, prices, discountRows] = await Promise.all([
+      sql`SELECT * FROM subscriptions WHERE id = ${numId}`,
+      sql`SELECT * FROM subscription_variable_amounts WHERE subscription_id = ${numId}`,
+      sql`SELECT * FROM subscription_price_changes WHERE subscription_id = ${numId}`,
+      sql`SELECT * FROM subscription_discounts WHERE subscription_id = ${numId}`
+    ]);
+    if (rows.length === 0) return null;
+    const variableMaps = toVariableMaps(amounts as SubscriptionVariableAmountRow[]);
+    const priceChanges = toPriceChanges(prices as SubscriptionPriceChangeRow[]);
+    const discounts = toDiscounts(discountRows as SubscriptionDiscountRow[]);
+    return rowToSubscription(rows[0] as SubscriptionRow, variableMaps.get(numId), priceChanges.get(numId), discounts.get(numId));
+  },
+
+  // Without a customerId the subscription is linked to the customer with the same name (created when missing)
+  async create(data: Omit<Subscription, 'id'>): Promise<Subscription> {
+    const insert = sql`
+      INSERT INTO subscriptions (business_id, product_id, customer_id, customer, plan_name, price, currency, vat_code, variable_mrr_method, variable_mrr_months, billing_type, cadence, interval_months, anchor_date, start_date, cancel_date, notes)
+      VALUES (
+        ${toDbId(data.companyId)}, ${toDbId(data.productId)},
+        COALESCE(${toDbId(data.customerId ?? null)}, (SELECT id FROM customers WHERE lower(regexp_replace(trim(name), '[[:space:]]+', ' ', 'g')) = ${customerKey(data.customer)} ORDER BY id LIMIT 1)),
+        ${data.customer}, ${data.planName}, ${data.price}, ${data.currency || 'EUR'}, ${data.vatCode ?? null},
+        ${data.variableMrr?.method ?? null}, ${data.variableMrr?.months ?? null},
+        ${data.billingType}, ${data.cadence}, ${data.intervalMonths ?? null}, ${data.anchorDate || null}, ${data.startDate}, ${data.cancelDate}, ${data.notes || null}
+      )
       RETURNING *
     `;
-    return entry;
+    const missingCustomer = data.customerId ? [] : [insertMissingCustomer(data.customer, toDbId(data.companyId))];
+    const results = await sql.transaction([...missingCustomer, insert, ...detailQueries(null, data)]);
+    const created = (results[data.customerId ? 0 : 1] as SubscriptionRow[])[0];
+    return rowToSubscription(created, data.variableAmounts, data.priceChanges, data.discounts);
   },
 
-  async update(id: number, updates: Partial<Omit<RevenueEntry, 'id' | 'created_at' | 'updated_at'>>): Promise<RevenueEntry> {
-    const [entry] = await sql`
-      UPDATE revenue_entries 
-      SET business_id = COALESCE(${updates.business_id}, business_id),
-          amount = COALESCE(${updates.amount}, amount),
-          description = COALESCE(${updates.description}, description),
-          category = COALESCE(${updates.category}, category),
-          date = COALESCE(${updates.date}, date),
+  // Only the columns of the keys in `updates` are written (no read-modify-write), so concurrent edits of other fields
+  // are kept; the row and its details are read back in the same transaction
+  async update(id: string, updates: Partial<Omit<Subscription, 'id'>>): Promise<Subscription> {
+    const numId = parseInt(id, 10);
+    const has = (key: keyof Subscription) => key in updates;
+    const [rows, ...rest] = await sql.transaction([
+      sql`
+        UPDATE subscriptions
+        SET business_id = CASE WHEN ${has('companyId')} THEN ${toDbId(updates.companyId ?? null)} ELSE business_id END,
+            product_id = CASE WHEN ${has('productId')} THEN ${toDbId(updates.productId ?? null)} ELSE product_id END,
+            customer_id = CASE WHEN ${has('customerId')} THEN ${toDbId(updates.customerId ?? null)} ELSE customer_id END,
+            customer = COALESCE(${updates.customer ?? null}, customer),
+            plan_name = COALESCE(${updates.planName ?? null}, plan_name),
+            price = COALESCE(${updates.price ?? null}, price),
+            currency = COALESCE(${updates.currency || null}, currency),
+            vat_code = CASE WHEN ${has('vatCode')} THEN ${updates.vatCode ?? null} ELSE vat_code END,
+            variable_mrr_method = CASE WHEN ${has('variableMrr')} THEN ${updates.variableMrr?.method ?? null} ELSE variable_mrr_method END,
+            variable_mrr_months = CASE WHEN ${has('variableMrr')} THEN ${updates.variableMrr?.months ?? null} ELSE variable_mrr_months END,
+            billing_type = COALESCE(${updates.billingType ?? null}, billing_type),
+            cadence = COALESCE(${updates.cadence ?? null}, cadence),
+            interval_months = CASE WHEN ${has('intervalMonths')} THEN ${updates.intervalMonths ?? null} ELSE interval_months END,
+            anchor_date = CASE WHEN ${has('anchorDate')} THEN ${updates.anchorDate || null} ELSE anchor_date END,
+            start_date = COALESCE(${updates.startDate ?? null}, start_date),
+            cancel_date = CASE WHEN ${has('cancelDate')} THEN ${updates.cancelDate ?? null} ELSE cancel_date END,
+            notes = CASE WHEN ${has('notes')} THEN ${updates.notes || null} ELSE notes END,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ${numId}
+        RETURNING *
+      `,
+      ...detailQueries(numId, updates, true),
+      sql`SELECT * FROM subscription_variable_amounts WHERE subscription_id = ${numId}`,
+      sql`SELECT * FROM subscription_price_changes WHERE subscription_id = ${numId}`,
+      sql`SELECT * FROM subscription_discounts WHERE subscription_id = ${numId}`
+    ]);
+    const row = (rows as SubscriptionRow[])[0];
+    if (!row) throw new Error(`Subscription ${id} not found`);
+    const [amounts, prices, discountRows] = rest.slice(-3);
+    return rowToSubscription(
+      row,
+      toVariableMaps(amounts as SubscriptionVariableAmountRow[]).get(numId),
+      toPriceChanges(prices as SubscriptionPriceChangeRow[]).get(numId),
+      toDiscounts(discountRows as SubscriptionDiscountRow[]).get(numId)
+    );
+  },
+
+  async setVariableAmount(id: string, month: string, amount: number | null): Promise<void> {
+    const numId = parseInt(id, 10);
+    if (amount == null) {
+      await sql`DELETE FROM subscription_variable_amounts WHERE subscription_id = ${numId} AND month = ${month}`;
+      return;
+    }
+    await sql`
+      INSERT INTO subscription_variable_amounts (subscription_id, month, amount)
+      VALUES (${numId}, ${month}, ${amount})
+      ON CONFLICT (subscription_id, month) DO UPDATE SET amount = EXCLUDED.amount
+    `;
+  },
+
+  async delete(id: string): Promise<void> {
+    await sql`DELETE FROM subscriptions WHERE id = ${parseInt(id, 10)}`;
+  },
+
+  // One transaction: missing businesses first, then the subscriptions linked by business and customer name
+  // (new customers are linked to the business of their first subscription)
+  async importBatch(batch: ImportBatch): Promise<void> {
+    await sql.transaction([
+      ...batch.companyNames.map(name => sql`INSERT INTO businesses (name) VALUES (${name})`),
+      ...batch.subs.flatMap(sub => [
+        insertMissingCustomer(sub.customer, null, sub.companyName),
+        sql`
+          INSERT INTO subscriptions (business_id, product_id, customer_id, customer, plan_name, price, currency, vat_code, billing_type, cadence, interval_months, anchor_date, start_date, cancel_date, notes)
+          VALUES (
+            (SELECT id FROM businesses WHERE lower(trim(name)) = lower(trim(${sub.companyName})) ORDER BY id LIMIT 1),
+            ${toDbId(sub.productId)},
+            (SELECT id FROM customers WHERE lower(regexp_replace(trim(name), '[[:space:]]+', ' ', 'g')) = ${customerKey(sub.customer)} ORDER BY id LIMIT 1),
+            ${sub.customer}, ${sub.planName}, ${sub.price}, ${sub.currency || 'EUR'}, ${sub.vatCode ?? null},
+            ${sub.billingType}, ${sub.cadence}, ${sub.intervalMonths ?? null}, ${sub.anchorDate || null}, ${sub.startDate}, ${sub.cancelDate}, ${sub.notes || null}
+          )
+        `
+      ])
+    ]);
+  },
+
+  async getByBusinessId(businessId: number): Promise<Subscription[]> {
+    const [rows, amounts, prices, discountRows] = await Promise.all([
+      sql`SELECT * FROM subscriptions WHERE business_id = ${businessId} ORDER BY start_date DESC`,
+      sql`
+        SELECT a.* FROM subscription_variable_amounts a
+        JOIN subscriptions s ON s.id = a.subscription_id
+        WHERE s.business_id = ${businessId}
+      `,
+      sql`
+        SELECT p.* FROM subscription_price_changes p
+        JOIN subscriptions s ON s.id = p.subscription_id
+        WHERE s.business_id = ${businessId}
+      `,
+      sql`
+        SELECT d.* FROM subscription_discounts d
+        JOIN subscriptions s ON s.id = d.subscription_id
+        WHERE s.business_id = ${businessId}
+      `
+    ]);
+    const variableMaps = toVariableMaps(amounts as SubscriptionVariableAmountRow[]);
+    const priceChanges = toPriceChanges(prices as SubscriptionPriceChangeRow[]);
+    const discounts = toDiscounts(discountRows as SubscriptionDiscountRow[]);
+    return (rows as SubscriptionRow[]).map(row => rowToSubscription(row, variableMaps.get(row.id), priceChanges.get(row.id), discounts.get(row.id)));
+  }
+};
+
+const rowToExpense = (row: ExpenseEntry): Expense => ({
+  id: row.id.toString(),
+  companyId: row.business_id != null ? row.business_id.toString() : null,
+  amount: Number(row.amount),
+  description: row.description || '',
+  category: row.category || '',
+  date: toDateString(row.date)
+});
+
+// Expense operations
+export const expenseOperations = {
+  async getAll(): Promise<Expense[]> {
+    const rows = await sql`SELECT * FROM expense_entries ORDER BY date DESC`;
+    return (rows as ExpenseEntry[]).map(rowToExpense);
+  },
+
+  async create(data: Omit<Expense, 'id'>): Promise<Expense> {
+    const [row] = await sql`
+      INSERT INTO expense_entries (business_id, amount, description, category, date)
+      VALUES (${toDbId(data.companyId)}, ${data.amount}, ${data.description || null}, ${data.category || null}, ${data.date})
+      RETURNING *
+    `;
+    return rowToExpense(row as ExpenseEntry);
+  },
+
+  async update(id: string, updates: Partial<Omit<Expense, 'id'>>): Promise<Expense> {
+    const [current] = await sql`SELECT * FROM expense_entries WHERE id = ${parseInt(id, 10)}`;
+    if (!current) throw new Error(`Expense ${id} not found`);
+    const next: Expense = { ...rowToExpense(current as ExpenseEntry), ...updates };
+    const [row] = await sql`
+      UPDATE expense_entries
+      SET business_id = ${toDbId(next.companyId)},
+          amount = ${next.amount},
+          description = ${next.description || null},
+          category = ${next.category || null},
+          date = ${next.date},
           updated_at = CURRENT_TIMESTAMP
-      WHERE id = ${id}
+      WHERE id = ${parseInt(id, 10)}
       RETURNING *
     `;
-    return entry;
+    return rowToExpense(row as ExpenseEntry);
   },
 
-  async delete(id: number): Promise<void> {
-    await sql`DELETE FROM revenue_entries WHERE id = ${id}`;
+  async delete(id: string): Promise<void> {
+    await sql`DELETE FROM expense_entries WHERE id = ${parseInt(id, 10)}`;
+  }
+};
+
+const rowToCustomer = (row: CustomerRow): Customer => ({
+  id: row.id.toString(),
+  name: row.name,
+  email: row.email ?? undefined,
+  phone: row.phone ?? undefined,
+  notes: row.notes ?? undefined,
+  companyIds: (row.business_ids ?? []).map(id => id.toString())
+});
+
+// A null id is the customer inserted just before in the same transaction (currval)
+const customerLinks = (customerId: number | null, companyIds: string[]) =>
+  companyIds.map(companyId => sql`
+    INSERT INTO customer_businesses (customer_id, business_id)
+    VALUES (COALESCE(${customerId}, currval(pg_get_serial_sequence('customers', 'id'))), ${toDbId(companyId)})
+    ON CONFLICT DO NOTHING
+  `);
+
+// Customer operations
+export const customerOperations = {
+  async getAll(): Promise<Customer[]> {
+    const rows = await sql`
+      SELECT c.*, array_remove(array_agg(cb.business_id), NULL) AS business_ids
+      FROM customers c
+      LEFT JOIN customer_businesses cb ON cb.customer_id = c.id
+      GROUP BY c.id
+      ORDER BY c.name
+    `;
+    return (rows as CustomerRow[]).map(rowToCustomer);
+  },
+
+  async getById(id: string): Promise<Customer | null> {
+    const rows = await sql`
+      SELECT c.*, array_remove(array_agg(cb.business_id), NULL) AS business_ids
+      FROM customers c
+      LEFT JOIN customer_businesses cb ON cb.customer_id = c.id
+      WHERE c.id = ${parseInt(id, 10)}
+      GROUP BY c.id
+    `;
+    return rows.length ? rowToCustomer(rows[0] as CustomerRow) : null;
+  },
+
+  async create(data: Omit<Customer, 'id'>): Promise<Customer> {
+    const [[row]] = await sql.transaction([
+      sql`
+        INSERT INTO customers (name, email, phone, notes)
+        VALUES (${data.name}, ${data.email || null}, ${data.phone || null}, ${data.notes || null})
+        RETURNING *
+      `,
+      ...customerLinks(null, data.companyIds)
+    ]);
+    const created = row as CustomerRow;
+    return { ...rowToCustomer(created), companyIds: data.companyIds };
+  },
+
+  // A rename is applied to the customer name of every linked subscription in the same transaction
+  async update(id: string, updates: Partial<Omit<Customer, 'id'>>): Promise<Customer> {
+    const numId = parseInt(id, 10);
+    const current = await this.getById(id);
+    if (!current) throw new Error(`Customer ${id} not found`);
+    const next: Customer = { ...current, ...updates };
+    await sql.transaction([
+      sql`
+        UPDATE customers
+        SET name = ${next.name},
+            email = ${next.email || null},
+            phone = ${next.phone || null},
+            notes = ${next.notes || null},
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ${numId}
+      `,
+      sql`UPDATE subscriptions SET customer = ${next.name}, updated_at = CURRENT_TIMESTAMP WHERE customer_id = ${numId} AND customer <> ${next.name}`,
+      sql`DELETE FROM customer_businesses WHERE customer_id = ${numId}`,
+      ...customerLinks(numId, next.companyIds)
+    ]);
+    return next;
+  },
+
+  // Subscriptions keep their customer name; customer_id is cleared by the foreign key
+  async delete(id: string): Promise<void> {
+    await sql`DELETE FROM customers WHERE id = ${parseInt(id, 10)}`;
   },
 
-  async getByBusinessId(businessId: number): Promise<RevenueEntry[]> {
-    return await sql`SELECT * FROM revenue_entries WHERE business_id = ${businessId} ORDER BY date DESC`;
+  // Moves subscriptions and business links of the duplicates to the target, fills its missing contact details
+  async merge(targetId: string, duplicateIds: string[]): Promise<void> {
+    const target = parseInt(targetId, 10);
+    const duplicates = duplicateIds.map(id => parseInt(id, 10)).filter(id => id !== target);
+    if (duplicates.length === 0) return;
+    await sql.transaction([
+      sql`
+        UPDATE customers
+        SET email = COALESCE(email, (SELECT email FROM customers WHERE id = ANY(${duplicates}) AND email IS NOT NULL ORDER BY id LIMIT 1)),
+            phone = COALESCE(phone, (SELECT phone FROM customers WHERE id = ANY(${duplicates}) AND phone IS NOT NULL ORDER BY id LIMIT 1)),
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ${target}
+      `,
+      sql`
+        INSERT INTO customer_businesses (customer_id, business_id)
+        SELECT ${target}, business_id FROM customer_businesses WHERE customer_id = ANY(${duplicates})
+        ON CONFLICT DO NOTHING
+      `,
+      sql`
+        UPDATE subscriptions
+        SET customer_id = ${target}, customer = (SELECT name FROM customers WHERE id = ${target}), updated_at = CURRENT_TIMESTAMP
+        WHERE customer_id = ANY(${duplicates})
+      `,
+      sql`DELETE FROM customers WHERE id = ANY(${duplicates})`
+    ]);
+  }
+};
+
+const rowToProduct = (row: ProductRow): Product => ({
+  id: row.id.toString(),
+  companyId: row.business_id != null ? row.business_id.toString() : null,
+  name: row.name,
+  price: Number(row.price),
+  currency: row.currency,
+  billingType: row.billing_type,
+  cadence: row.cadence,
+  intervalMonths: row.interval_months ?? undefined
+});
+
+// Product catalog operations
+export const productOperations = {
+  async getAll(): Promise<Product[]> {
+    const rows = await sql`SELECT * FROM products ORDER BY name`;
+    return (rows as ProductRow[]).map(rowToProduct);
   },
 
-  async getByDateRange(startDate: string, endDate: string): Promise<RevenueEntry[]> {
-    return await sql`
-      SELECT * FROM revenue_entries 
-      WHERE date >= ${startDate} AND date <= ${endDate}
-      ORDER BY date ASC
+  async create(data: Omit<Product, 'id'>): Promise<Product> {
+    const [row] = await sql`
+      INSERT INTO products (business_id, name, price, currency, billing_type, cadence, interval_months)
+      VALUES (${toDbId(data.companyId)}, ${data.name}, ${data.price}, ${data.currency || 'EUR'}, ${data.billingType}, ${data.cadence}, ${data.intervalMonths ?? null})
+      RETURNING *
     `;
+    return rowToProduct(row as ProductRow);
+  },
+
+  // A rename is applied to the plan name of every linked subscription in the same transaction
+  async update(id: string, updates: Partial<Omit<Product, 'id'>>): Promise<Product> {
+    const numId = parseInt(id, 10);
+    const [current] = await sql`SELECT * FROM products WHERE id = ${numId}`;
+    if (!current) throw new Error(`Product ${id} not found`);
+    const next: Product = { ...rowToProduct(current as ProductRow), ...updates };
+    const [rows] = await sql.transaction([
+      sql`
+        UPDATE products
+        SET business_id = ${toDbId(next.companyId)},
+            name = ${next.name},
+            price = ${next.price},
+            currency = ${next.currency || 'EUR'},
+            billing_type = ${next.billingType},
+            cadence = ${next.cadence},
+            interval_months = ${next.intervalMonths ?? null},
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ${numId}
+        RETURNING *
+      `,
+      sql`UPDATE subscriptions SET plan_name = ${next.name}, updated_at = CURRENT_TIMESTAMP WHERE product_id = ${numId} AND plan_name <> ${next.name}`
+    ]);
+    return rowToProduct((rows as ProductRow[])[0]);
+  },
+
+  // Linked subscriptions keep their plan name; product_id is cleared by the foreign key
+  async delete(id: string): Promise<void> {
+    await sql`DELETE FROM products WHERE id = ${parseInt(id, 10)}`;
   }
 };
 
-// Helper functions to convert between app types and database types
-export const converters = {
-  // Convert app Subscription to database RevenueEntry
-  subscriptionToRevenueEntry(sub: any): {
-    business_id?: number | null;
-    amount: number;
-    description: string;
-    category: string;
-    date: string;
-  } {
-    return {
-      business_id: sub.companyId ? parseInt(sub.companyId) : null,
-      amount: sub.price,
-      description: `${sub.customer} - ${sub.planName} ${sub.notes ? '(' + sub.notes + ')' : ''}`.trim(),
-      category: sub.billingType,
-      date: sub.startDate
-    };
+// Exchange rates: value of 1 unit of a currency in EUR per month
+const rowToRate = (row: ExchangeRateRow): ExchangeRate => ({ month: row.month, currency: row.currency, rate: Number(row.rate) });
+
+export const rateOperations = {
+  async getAll(): Promise<ExchangeRate[]> {
+    const rows = await sql`SELECT * FROM exchange_rates ORDER BY month, currency`;
+    return (rows as ExchangeRateRow[]).map(rowToRate);
+  },
+
+  async upsert(rates: ExchangeRate[]): Promise<void> {
+    await sql.transaction(rates.map(r => sql`
+      INSERT INTO exchange_rates (month, currency, rate)
+      VALUES (${r.month}, ${r.currency}, ${r.rate})
+      ON CONFLICT (month, currency) DO UPDATE SET rate = EXCLUDED.rate
+    `));
+  },
+
+  async delete(month: string, currency: string): Promise<void> {
+    await sql`DELETE FROM exchange_rates WHERE month = ${month} AND currency = ${currency}`;
+  }
+};
+
+const rowToPayment = (row: PaymentRow): Payment => ({
+  id: row.id.toString(),
+  subscriptionId: row.subscription_id.toString(),
+  month: row.month,
+  amount: Number(row.amount),
+  date: toDateString(row.date)
+});
+
+// Payment operations
+export const paymentOperations = {
+  async getAll(): Promise<Payment[]> {
+    const rows = await sql`SELECT * FROM payments ORDER BY date DESC`;
+    return (rows as PaymentRow[]).map(rowToPayment);
+  },
+
+  async create(data: Omit<Payment, 'id'>): Promise<Payment> {
+    const [row] = await sql`
+      INSERT INTO payments (subscription_id, month, amount, date)
+      VALUES (${parseInt(data.subscriptionId, 10)}, ${data.month}, ${data.amount}, ${data.date})
+      RETURNING *
+    `;
+    return rowToPayment(row as PaymentRow);
+  },
+
+  async update(id: string, updates: Partial<Omit<Payment, 'id'>>): Promise<Payment> {
+    const [current] = await sql`SELECT * FROM payments WHERE id = ${parseInt(id, 10)}`;
+    if (!current) throw new Error(`Payment ${id} not found`);
+    const next: Payment = { ...rowToPayment(current as PaymentRow), ...updates };
+    const [row] = await sql`
+      UPDATE payments
+      SET subscription_id = ${parseInt(next.subscriptionId, 10)},
+          month = ${next.month},
+          amount = ${next.amount},
+          date = ${next.date},
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ${parseInt(id, 10)}
+      RETURNING *
+    `;
+    return rowToPayment(row as PaymentRow);
+  },
+
+  async delete(id: string): Promise<void> {
+    await sql`DELETE FROM payments WHERE id = ${parseInt(id, 10)}`;
+  }
+};
+
+const rowToInvoiceLine = (row: InvoiceLineRow): InvoiceLine => ({
+  subscriptionId: row.subscription_id != null ? row.subscription_id.toString() : null,
+  description: row.description,
+  quantity: Number(row.quantity),
+  unitPrice: Number(row.unit_price),
+  vatCode: row.vat_code
+});
+
+const rowToInvoice = (row: InvoiceRow, lines: InvoiceLine[]): Invoice => ({
+  id: row.id.toString(),
+  companyId: row.business_id != null ? row.business_id.toString() : null,
+  customerId: row.customer_id != null ? row.customer_id.toString() : null,
+  customer: row.customer,
+  number: row.number,
+  period: row.period,
+  issueDate: toDateString(row.issue_date),
+  dueDate: toDateString(row.due_date),
+  currency: row.currency,
+  status: row.status,
+  lines
+});
+
+// Lines of the invoice with `invoiceId`, or of the invoice inserted just before (currval) when it is null
+const insertInvoiceLines = (invoiceId: number | null, lines: InvoiceLine[]) =>
+  lines.map((line, i) => sql`
+    INSERT INTO invoice_lines (invoice_id, position, subscription_id, description, quantity, unit_price, vat_code)
+    VALUES (
+      COALESCE(${invoiceId}, currval(pg_get_serial_sequence('invoices', 'id'))), ${i},
+      ${toDbId(line.subscriptionId)}, ${line.description}, ${line.quantity}, ${line.unitPrice}, ${line.vatCode}
+    )
+  `);
+
+// Invoice operations
+export const invoiceOperations = {
+  async getAll(): Promise<Invoice[]> {
+    const [rows, lineRows] = await Promise.all([
+      sql`SELECT * FROM invoices ORDER BY period DESC, number DESC`,
+      sql`SELECT * FROM invoice_lines ORDER BY invoice_id, position`
+    ]);
+    const lines = new Map<number, InvoiceLine[]>();
+    for (const row of lineRows as InvoiceLineRow[]) lines.set(row.invoice_id, [...(lines.get(row.invoice_id) || []), rowToInvoiceLine(row)]);
+    return (rows as InvoiceRow[]).map(row => rowToInvoice(row, lines.get(row.id) || []));
+  },
+
+  // One transaction: new drafts are inserted, existing ones get their header updated and their lines replaced.
+  // The existing ones are locked first and must still be drafts; the unique index on (business, number)
+  // rejects the whole batch when a number is already taken.
+  async save(drafts: InvoiceDraft[]): Promise<Invoice[]> {
+    const existingIds = drafts.flatMap(draft => (draft.id ? [parseInt(draft.id, 10)] : []));
+    const guard: Query[] = existingIds.length
+      ? [Object.assign(sql`SELECT id::text AS id, status FROM invoices WHERE id = ANY(${existingIds}::int[]) FOR UPDATE`, {
+          check: (rows: DatabaseRow[]) => assertSavable(rows as Pick<Invoice, 'id' | 'status'>[], drafts)
+        })]
+      : [];
+    const headerIndex: number[] = []; // position of each invoice's INSERT/UPDATE in the transaction results
+    let count = guard.length;
+    const queries = drafts.flatMap(draft => {
+      const id = draft.id ? parseInt(draft.id, 10) : null;
+      const header = id
+        ? sql`
+            UPDATE invoices
+            SET business_id = ${toDbId(draft.companyId)},
+                customer_id = ${toDbId(draft.customerId)},
+                customer = ${draft.customer},
+                number = ${draft.number},
+                period = ${draft.period},
+                issue_date = ${draft.issueDate},
+                due_date = ${draft.dueDate},
+                currency = ${draft.currency},
+                status = ${draft.status},
+                updated_at = CURRENT_TIMESTAMP
+            WHERE id = ${id}
+            RETURNING *
+          `
+        : sql`
+            INSERT INTO invoices (business_id, customer_id, customer, number, period, issue_date, due_date, currency, status)
+            VALUES (
+              ${toDbId(draft.companyId)}, ${toDbId(draft.customerId)}, ${draft.customer}, ${draft.number}, ${draft.period},
+              ${draft.issueDate}, ${draft.dueDate}, ${draft.currency}, ${draft.status}
+            )
+            RETURNING *
+          `;
+      const group = [...(id ? [sql`DELETE FROM invoice_lines WHERE invoice_id = ${id}`] : []), header, ...insertInvoiceLines(id, draft.lines)];
+      headerIndex.push(count + (id ? 1 : 0));
+      count += group.length;
+      return group;
+    });
+    const results = await sql.transaction([...guard, ...queries]);
+    return drafts.map((draft, i) => rowToInvoice((results[headerIndex[i]] as InvoiceRow[])[0], draft.lines));
+  },
+
+  async update(id: string, updates: InvoicePatch): Promise<Invoice> {
+    const numId = parseInt(id, 10);
+    const [rows, lineRows] = await sql.transaction([
+      sql`
+        UPDATE invoices
+        SET status = COALESCE(${updates.status ?? null}, status),
+            issue_date = COALESCE(${updates.issueDate ?? null}, issue_date),
+            due_date = COALESCE(${updates.dueDate ?? null}, due_date),
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ${numId}
+        RETURNING *
+      `,
+      sql`SELECT * FROM invoice_lines WHERE invoice_id = ${numId} ORDER BY position`
+    ]);
+    const row = (rows as InvoiceRow[])[0];
+    if (!row) throw new Error(`Invoice ${id} not found`);
+    return rowToInvoice(row, (lineRows as InvoiceLineRow[]).map(rowToInvoiceLine));
+  },
+
+  async delete(id: string): Promise<void> {
+    await sql`DELETE FROM invoices WHERE id = ${parseInt(id, 10)}`;
+  }
+};
+
+const rowToAuditEntry = (row: AuditLogRow): AuditEntry => ({
+  id: row.id.toString(),
+  at: new Date(row.at).toISOString(),
+  user: row.user_name,
+  entity: row.entity,
+  entityId: row.entity_id,
+  action: row.action,
+  label: row.label,
+  changes: row.changes ?? [],
+  snapshot: (row.snapshot as Company | Subscription | null) ?? undefined,
+  payments: (row.payments as Payment[] | null) ?? undefined,
+  dependents: (row.dependents as CompanyDependents | null) ?? undefined,
+  restoredFrom: row.restored_from ?? undefined,
+  source: row.source ?? undefined
+});
+
+const toJson = (value: unknown) => (value === undefined ? null : JSON.stringify(value));
+
+// Audit log operations; entity ids are the app ids at the time of the change
+export const auditOperations = {
+  async getAll(): Promise<AuditEntry[]> {
+    const rows = await sql`SELECT * FROM audit_log ORDER BY at DESC, id DESC`;
+    return (rows as AuditLogRow[]).map(rowToAuditEntry);
   },
 
-  // Convert database RevenueEntry to app Subscription format
-  revenueEntryToSubscription(entry: RevenueEntry): any {
-    const [customer, planName] = entry.description?.split(' - ') || ['', ''];
-    return {
-      id: entry.id.toString(),
-      companyId: entry.business_id?.toString() || null,
-      productId: null,
-      customer: customer || 'Onbekend',
-      planName: planName || 'Onbekend',
-      price: entry.amount,
-      billingType: entry.category || 'onetime',
-      cadence: 'monthly',
-      startDate: entry.date,
-      cancelDate: null,
-      notes: '',
-      variableAmounts: {}
+  // An entry with an id is a coalesced edit: only its time, label and changes move on
+  async save(entry: AuditDraft): Promise<AuditEntry> {
+    const [row] = entry.id
+      ? await sql`
+          UPDATE audit_log
+          SET at = ${entry.at}, label = ${entry.label}, changes = ${toJson(entry.changes)}::jsonb
+          WHERE id = ${parseInt(entry.id, 10)}
+          RETURNING *
+        `
+      : await sql`
+          INSERT INTO audit_log (at, user_name, entity, entity_id, action, label, changes, snapshot, payments, dependents, restored_from, source)
+          VALUES (
+            ${entry.at}, ${entry.user}, ${entry.entity}, ${entry.entityId}, ${entry.action}, ${entry.label},
+            ${toJson(entry.changes)}::jsonb, ${toJson(entry.snapshot)}::jsonb, ${toJson(entry.payments)}::jsonb, ${toJson(entry.dependents)}::jsonb,
+            ${entry.restoredFrom ?? null}, ${entry.source ?? null}
+          )
+          RETURNING *
+        `;
+    if (!row) throw new Error(`Audit entry ${entry.id} not found`);
+    return rowToAuditEntry(row as AuditLogRow);
+  }
+};
+
+// New ids for `count` rows of a table, drawn from its sequence ahead of the restore transaction (sequences are not
+// transactional, so a failed restore only leaves a gap)
+const reserveIds = async (table: string, count: number): Promise<number[]> => {
+  if (count === 0) return [];
+  const rows = await sql`SELECT nextval(pg_get_serial_sequence(${table}, 'id')) AS id FROM generate_series(1, ${count})`;
+  return (rows as { id: string | number }[]).map(row => Number(row.id));
+};
+
+// App id -> database id of the restored rows
+const idMap = (items: { id: string }[], ids: number[]) => new Map(items.map((item, i) => [item.id, ids[i]]));
+const mapped = (ids: Map<string, number>, id: string | null | undefined) => (id != null ? ids.get(id) ?? null : null);
+// Audit entity ids of records that are not in a restored backup
+const DELETED_ID_PREFIX = 'deleted:';
+
+// Backup restore: replace all businesses, customers, products, subscriptions, payments, expenses, rates and invoices in one
+// transaction. App ids are not database ids, so the new ids are reserved first and every reference is mapped from the
+// backup's id onto the new one; references to records missing from the backup become null. Audit entries follow their
+// company or subscription to its new id; entries of deleted records keep their old id, marked so it cannot match a new row.
+export const backupOperations = {
+  async replaceAll(state: RevenueState): Promise<void> {
+    const [businessIds, customerIds, productIds, subscriptionIds, invoiceIds] = await Promise.all([
+      reserveIds('businesses', state.companies.length),
+      reserveIds('customers', state.customers.length),
+      reserveIds('products', state.products.length),
+      reserveIds('subscriptions', state.subs.length),
+      reserveIds('invoices', state.invoices.length)
+    ]);
+    const businesses = idMap(state.companies, businessIds);
+    const customers = idMap(state.customers, customerIds);
+    const products = idMap(state.products, productIds);
+    const subscriptions = idMap(state.subs, subscriptionIds);
+    const auditId = (entity: AuditEntity, id: string) => {
+      const newId = (entity === 'company' ? businesses : subscriptions).get(id);
+      return newId != null ? newId.toString() : id.startsWith(DELETED_ID_PREFIX) ? id : DELETED_ID_PREFIX + id;
     };
+
+    await sql.transaction([
+      sql`DELETE FROM audit_log`,
+      sql`DELETE FROM invoices`,
+      sql`DELETE FROM subscription_discounts`,
+      sql`DELETE FROM subscription_price_changes`,
+      sql`DELETE FROM subscription_variable_amounts`,
+      sql`DELETE FROM subscriptions`,
+      sql`DELETE FROM products`,
+      sql`DELETE FROM customers`,
+      sql`DELETE FROM expense_entries`,
+      sql`DELETE FROM businesses`,
+      sql`DELETE FROM exchange_rates`,
+      ...state.rates.map(r => sql`INSERT INTO exchange_rates (month, currency, rate) VALUES (${r.month}, ${r.currency}, ${r.rate})`),
+      ...state.companies.map(c => sql`
+        INSERT INTO businesses (id, name, vat_code, payments_from, proration)
+        VALUES (${businesses.get(c.id)}, ${c.name}, ${c.vatCode ?? 'standard'}, ${c.paymentsFrom ?? null}, ${c.proration ?? 'none'})
+      `),
+      ...state.customers.flatMap(c => [
+        sql`
+          INSERT INTO customers (id, name, email, phone, notes)
+          VALUES (${customers.get(c.id)}, ${c.name}, ${c.email || null}, ${c.phone || null}, ${c.notes || null})
+        `,
+        ...c.companyIds.filter(companyId => businesses.has(companyId)).map(companyId => sql`
+          INSERT INTO customer_businesses (customer_id, business_id)
+          VALUES (${customers.get(c.id)}, ${businesses.get(companyId)})
+          ON CONFLICT DO NOTHING
+        `)
+      ]),
+      ...state.products.map(p => sql`
+        INSERT INTO products (id, business_id, name, price, currency, billing_type, cadence, interval_months)
+        VALUES (
+          ${products.get(p.id)}, ${mapped(businesses, p.companyId)},
+          ${p.name}, ${p.price}, ${p.currency || 'EUR'}, ${p.billingType}, ${p.cadence}, ${p.intervalMonths ?? null}
+        )
+      `),
+      ...state.subs.flatMap(sub => [
+        sql`
+          INSERT INTO subscriptions (id, business_id, product_id, customer_id, customer, plan_name, price, currency, vat_code, variable_mrr_method, variable_mrr_months, billing_type, cadence, interval_months, anchor_date, start_date, cancel_date, notes)
+          VALUES (
+            ${subscriptions.get(sub.id)}, ${mapped(businesses, sub.companyId)}, ${mapped(products, sub.productId)}, ${mapped(customers, sub.customerId)},
+            ${sub.customer}, ${sub.planName}, ${sub.price}, ${sub.currency || 'EUR'}, ${sub.vatCode ?? null},
+            ${sub.variableMrr?.method ?? null}, ${sub.variableMrr?.months ?? null},
+            ${sub.billingType}, ${sub.cadence}, ${sub.intervalMonths ?? null}, ${sub.anchorDate || null}, ${sub.startDate}, ${sub.cancelDate}, ${sub.notes || null}
+          )
+        `,
+        ...detailQueries(subscriptions.get(sub.id)!, { variableAmounts: sub.variableAmounts, priceChanges: sub.priceChanges, discounts: sub.discounts })
+      ]),
+      ...state.payments.filter(p => subscriptions.has(p.subscriptionId)).map(p => sql`
+        INSERT INTO payments (subscription_id, month, amount, date)
+        VALUES (${subscriptions.get(p.subscriptionId)}, ${p.month}, ${p.amount}, ${p.date})
+      `),
+      ...state.expenses.map(e => sql`
+        INSERT INTO expense_entries (business_id, amount, description, category, date)
+        VALUES (${mapped(businesses, e.companyId)}, ${e.amount}, ${e.description || null}, ${e.category || null}, ${e.date})
+      `),
+      ...state.invoices.flatMap((inv, i) => [
+        sql`
+          INSERT INTO invoices (id, business_id, customer_id, customer, number, period, issue_date, due_date, currency, status)
+          VALUES (
+            ${invoiceIds[i]}, ${mapped(businesses, inv.companyId)}, ${mapped(customers, inv.customerId)},
+            ${inv.customer}, ${inv.number}, ${inv.period}, ${inv.issueDate}, ${inv.dueDate}, ${inv.currency}, ${inv.status}
+          )
+        `,
+        ...insertInvoiceLines(invoiceIds[i], inv.lines.map(line => ({ ...line, subscriptionId: mapped(subscriptions, line.subscriptionId)?.toString() ?? null })))
+      ]),
+      ...state.audit.map(e => sql`
+        INSERT INTO audit_log (at, user_name, entity, entity_id, action, label, changes, snapshot, payments, dependents, restored_from, source)
+        VALUES (
+          ${e.at}, ${e.user}, ${e.entity}, ${auditId(e.entity, e.entityId)}, ${e.action}, ${e.label},
+          ${toJson(e.changes)}::jsonb, ${toJson(e.snapshot)}::jsonb, ${toJson(e.payments)}::jsonb, ${toJson(e.dependents)}::jsonb,
+          ${e.restoredFrom != null ? auditId(e.entity, e.restoredFrom) : null}, ${e.source ?? null}
+        )
+      `)
+    ]);
   }
-};
\ No newline at end of file
+};
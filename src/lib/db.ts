@@ -1,4 +1,4 @@
-import { neon } from '@neondatabase/serverless';
+import pg from 'pg';
 
 // Load dotenv if we're in Node.js environment
 if (typeof process !== 'undefined' && process.env) {
@@ -9,24 +9,72 @@ if (typeof process !== 'undefined' && process.env) {
   }
 }
 
-// Get database URL from environment variables
-const getDatabaseUrl = (): string => {
-  // Try both Node.js and Vite environment variables
-  const url = process.env.DATABASE_URL || (import.meta as any).env?.VITE_DATABASE_URL;
-  
+// Get database URL from the environment. Server side only (API server, migrations): a VITE_ variable
+// would be bundled into the client JS, so the browser goes through the HTTP API instead.
+export const getDatabaseUrl = (): string => {
+  const url = typeof process !== 'undefined' ? process.env?.DATABASE_URL : undefined;
+
   if (!url) {
-    console.log('Environment variables:', { 
-      DATABASE_URL: process.env.DATABASE_URL, 
-      VITE_DATABASE_URL: (import.meta as any).env?.VITE_DATABASE_URL 
-    });
-    throw new Error('DATABASE_URL environment variable is not set. Make sure to set DATABASE_URL or VITE_DATABASE_URL in your .env file');
+    throw new Error('DATABASE_URL environment variable is not set. Make sure to set DATABASE_URL in your .env file');
   }
-  
+
   return url;
 };
 
-// Create database connection
-export const sql = neon(getDatabaseUrl());
+// DATE columns stay yyyy-mm-dd strings; a JS Date would move them to the server's time zone
+pg.types.setTypeParser(pg.types.builtins.DATE, (value: string) => value);
+
+// Connection pool, created on first use so importing this module does not need DATABASE_URL yet
+let pool: pg.Pool | null = null;
+const getPool = (): pg.Pool => (pool ??= new pg.Pool({ connectionString: getDatabaseUrl() }));
+
+/** Closes the pool (scripts and tests; the next query opens a new one) */
+export const closeDatabase = async (): Promise<void> => {
+  const current = pool;
+  pool = null;
+  await current?.end();
+};
+
+/** A parameterized statement; awaiting it runs it on the pool, sql.transaction runs several on one connection */
+export interface Query extends PromiseLike<DatabaseRow[]> {
+  text: string;
+  values: unknown[];
+  /** Called by sql.transaction with the rows of this statement; throwing rolls the transaction back */
+  check?: (rows: DatabaseRow[]) => void;
+}
+
+const toQuery = (text: string, values: unknown[]): Query => ({
+  text,
+  values,
+  then: (onfulfilled, onrejected) => getPool().query(text, values).then(result => result.rows).then(onfulfilled, onrejected)
+});
+
+// Tagged template: interpolated values become $1, $2, … parameters, never SQL text
+const template = (strings: TemplateStringsArray, ...values: unknown[]): Query =>
+  toQuery(strings.reduce((text, part, i) => `${text}$${i}${part}`), values);
+
+export const sql = Object.assign(template, {
+  // Runs the statements in order in one transaction and returns the rows of each; any failure rolls back all of them
+  async transaction(queries: Query[]): Promise<DatabaseRow[][]> {
+    const client = await getPool().connect();
+    try {
+      await client.query('BEGIN');
+      const results: DatabaseRow[][] = [];
+      for (const query of queries) {
+        const { rows } = await client.query(query.text, query.values);
+        query.check?.(rows);
+        results.push(rows);
+      }
+      await client.query('COMMIT');
+      return results;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+});
 
 // Helper function to test database connection
 export const testConnection = async (): Promise<boolean> => {
@@ -41,4 +89,4 @@ export const testConnection = async (): Promise<boolean> => {
 
 // Export types for TypeScript support
 export type DatabaseResult = any[];
-export type DatabaseRow = Record<string, any>;
\ No newline at end of file
+export type DatabaseRow = Record<string, any>;
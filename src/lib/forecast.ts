@@ -0,0 +1,85 @@
+import { fxFactor, type Fx } from './currency';
+import { calcSeries, monthKey, monthsBetweenInclusive, shiftMonth, variableMRR } from './revenue';
+import type { Subscription } from './types';
+
+// ------------------------------
+// Forecast: project cash and MRR for the coming months
+// ------------------------------
+
+export type VariableMethod = 'average' | 'trend';
+
+export type ForecastOptions = {
+  horizon: number; // months after the current month (3–24)
+  variableMethod: VariableMethod;
+  lookback: number; // trailing months used for variable items
+  churnRate: number; // assumed monthly churn, fraction (0.02 = 2%)
+  growthRate: number; // assumed monthly growth, fraction
+};
+
+export const DEFAULT_FORECAST: ForecastOptions = {
+  horizon: 6,
+  variableMethod: 'average',
+  lookback: 6,
+  churnRate: 0,
+  growthRate: 0
+};
+
+/** Months after `currentMonth` covered by the forecast */
+export function forecastMonths(currentMonth: string, horizon: number): string[] {
+  return monthsBetweenInclusive(shiftMonth(currentMonth, 1), shiftMonth(currentMonth, horizon));
+}
+
+/**
+ * Projected monthly amount of a variable item: the trailing average of the last `lookback`
+ * months (missing months count as 0), or a least-squares trend over the same window.
+ * `step` is the number of months after the current month.
+ */
+export function projectVariable(sub: Subscription, currentMonth: string, step: number, options: ForecastOptions): number {
+  const window = monthsBetweenInclusive(shiftMonth(currentMonth, -(options.lookback - 1)), currentMonth);
+  const values = window.map(mk => sub.variableAmounts?.[mk] ?? 0);
+  if (values.every(v => v === 0)) return 0;
+  const n = values.length;
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+  if (options.variableMethod === 'average' || n < 2) return mean;
+  const xMean = (n - 1) / 2;
+  let num = 0;
+  let den = 0;
+  values.forEach((v, x) => {
+    num += (x - xMean) * (v - mean);
+    den += (x - xMean) ** 2;
+  });
+  const slope = den ? num / den : 0;
+  return Math.max(0, mean + slope * (n - 1 - xMean + step));
+}
+
+/**
+ * Forecast per month after `currentMonth`. Recurring and one-time items follow their
+ * schedule (cancelDate, yearly anniversary months); variable items are projected from
+ * their history until their cancelDate (in MRR mode: their normalized MRR of `currentMonth`,
+ * see variableMRR). Churn and growth compound per month on top of that.
+ * With `fx`, amounts are converted at the latest known rate.
+ */
+export function calcForecast(
+  subs: Subscription[],
+  mode: 'cash' | 'mrr',
+  currentMonth: string = monthKey(new Date()),
+  options: ForecastOptions = DEFAULT_FORECAST,
+  fx?: Fx
+): { month: string; amount: number }[] {
+  const months = forecastMonths(currentMonth, options.horizon);
+  if (months.length === 0) return [];
+  const scheduled = calcSeries(subs.filter(s => s.billingType !== 'variable'), mode, months, fx);
+  const variable = subs.filter(s => s.billingType === 'variable');
+  const factor = (1 + options.growthRate) * (1 - options.churnRate);
+
+  return months.map((mk, i) => {
+    const step = i + 1;
+    const projected = variable
+      .filter(s => !s.cancelDate || monthKey(s.cancelDate) >= mk)
+      .reduce((a, s) => {
+        const amount = mode === 'cash' ? projectVariable(s, currentMonth, step, options) : variableMRR(s, currentMonth);
+        return a + amount * fxFactor(s.currency, mk, fx);
+      }, 0);
+    return { month: mk, amount: Math.round((scheduled[i].amount + projected) * factor ** step) };
+  });
+}
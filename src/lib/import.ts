@@ -0,0 +1,203 @@
+import type { BillingType, Cadence, Company, Subscription } from './types';
+
+// ------------------------------
+// CSV import of subscriptions: column mapping, validation and preview
+// ------------------------------
+
+export type ImportField =
+  | 'customer'
+  | 'planName'
+  | 'price'
+  | 'currency'
+  | 'billingType'
+  | 'cadence'
+  | 'startDate'
+  | 'cancelDate'
+  | 'company'
+  | 'notes';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'customer', label: 'Klant', required: true },
+  { field: 'planName', label: 'Plan', required: true },
+  { field: 'price', label: 'Prijs', required: true },
+  { field: 'currency', label: 'Valuta', required: false },
+  { field: 'billingType', label: 'Type', required: false },
+  { field: 'cadence', label: 'Frequentie', required: false },
+  { field: 'startDate', label: 'Startdatum', required: true },
+  { field: 'cancelDate', label: 'Einddatum', required: false },
+  { field: 'company', label: 'Bedrijf (naam)', required: false },
+  { field: 'notes', label: 'Notities', required: false }
+];
+
+/** Column index per field; null = not mapped */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+/** A subscription to import; the company is referenced by name until the batch is stored */
+export type ImportedSubscription = Omit<Subscription, 'id' | 'companyId'> & { companyName: string | null };
+
+export type ImportBatch = { companyNames: string[]; subs: ImportedSubscription[] };
+
+export type PreviewRow = {
+  line: number; // 1-based line in the file (header = line 1)
+  cells: string[];
+  sub: ImportedSubscription | null;
+  errors: string[];
+};
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  customer: ['customer', 'klant', 'klantnaam', 'client'],
+  planName: ['planname', 'plan', 'omschrijving', 'product', 'description'],
+  price: ['price', 'prijs', 'bedrag', 'amount'],
+  currency: ['currency', 'valuta', 'munteenheid'],
+  billingType: ['billingtype', 'type', 'soort'],
+  cadence: ['cadence', 'frequentie', 'interval', 'betalingsfrequentie'],
+  startDate: ['startdate', 'start', 'startdatum', 'datum', 'date'],
+  cancelDate: ['canceldate', 'einddatum', 'eind', 'end', 'enddate', 'opzegdatum'],
+  company: ['company', 'bedrijf', 'business'],
+  notes: ['notes', 'notities', 'opmerking', 'opmerkingen']
+};
+
+const normalizeHeader = (h: string) => h.toLowerCase().replace(/[^a-z]/g, '');
+
+/** Map columns by header name (Dutch and English names are recognised) */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  for (const { field } of IMPORT_FIELDS) {
+    const idx = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+    mapping[field] = idx === -1 ? null : idx;
+  }
+  return mapping;
+}
+
+/** Accepts 1234.56, 1234,56, 1.234,56 and 1,234.56 (optionally with a €, $ or £ sign) */
+export function parseAmount(raw: string): number | null {
+  let v = raw.replace(/[€$£\s]/g, '');
+  if (!v) return null;
+  const lastComma = v.lastIndexOf(',');
+  const lastDot = v.lastIndexOf('.');
+  if (lastComma > lastDot) v = v.replace(/\./g, '').replace(',', '.');
+  else v = v.replace(/,/g, '');
+  if (!/^-?\d+(\.\d+)?$/.test(v)) return null;
+  return Number(v);
+}
+
+/** Accepts yyyy-mm-dd, dd-mm-yyyy and dd/mm/yyyy; returns yyyy-mm-dd or null when invalid */
+export function parseDate(raw: string): string | null {
+  const v = raw.trim();
+  let m = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(v);
+  let y: number, mo: number, d: number;
+  if (m) {
+    [y, mo, d] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  } else {
+    m = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/.exec(v);
+    if (!m) return null;
+    [d, mo, y] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  }
+  const dt = new Date(y, mo - 1, d);
+  if (dt.getFullYear() !== y || dt.getMonth() !== mo - 1 || dt.getDate() !== d) return null;
+  return `${y}-${String(mo).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+
+const BILLING_TYPES: Record<string, BillingType> = {
+  recurring: 'recurring', abonnement: 'recurring', subscription: 'recurring',
+  onetime: 'onetime', eenmalig: 'onetime',
+  variable: 'variable', variabel: 'variable'
+};
+
+const CADENCES: Record<string, Cadence> = {
+  weekly: 'weekly', wekelijks: 'weekly', week: 'weekly',
+  monthly: 'monthly', maandelijks: 'monthly', maand: 'monthly', month: 'monthly',
+  quarterly: 'quarterly', perkwartaal: 'quarterly', kwartaal: 'quarterly', quarter: 'quarterly',
+  halfyearly: 'halfyearly', halfjaarlijks: 'halfyearly', halfjaar: 'halfyearly', perhalfjaar: 'halfyearly', semiannual: 'halfyearly',
+  yearly: 'yearly', jaarlijks: 'yearly', jaar: 'yearly', year: 'yearly', annual: 'yearly'
+};
+
+/** Validate every data row against the mapping; rows with errors are not imported */
+export function buildPreview(rows: string[][], mapping: ColumnMapping): PreviewRow[] {
+  return rows.slice(1).map((cells, i) => {
+    const get = (field: ImportField) => {
+      const idx = mapping[field];
+      return idx == null ? '' : (cells[idx] ?? '').trim();
+    };
+    const errors: string[] = [];
+
+    for (const { field, label, required } of IMPORT_FIELDS) {
+      if (required && !get(field)) errors.push(`${label} ontbreekt`);
+    }
+
+    const price = get('price') ? parseAmount(get('price')) : null;
+    if (get('price') && (price == null || price < 0)) errors.push(`Ongeldige prijs "${get('price')}"`);
+
+    const currency = get('currency').toUpperCase() || 'EUR';
+    if (!/^[A-Z]{3}$/.test(currency)) errors.push(`Onbekende valuta "${get('currency')}"`);
+
+    const typeRaw = get('billingType').toLowerCase().replace(/[^a-z]/g, '');
+    const billingType = typeRaw ? BILLING_TYPES[typeRaw] : 'recurring';
+    if (!billingType) errors.push(`Onbekend type "${get('billingType')}"`);
+
+    // "elke 2 maanden" / "every 4 months" -> every-N-months cadence
+    const everyN = /(\d+)\s*(maanden|maand|mnd|months?)/.exec(get('cadence').toLowerCase());
+    const intervalMonths = everyN ? Number(everyN[1]) : undefined;
+    const cadenceRaw = get('cadence').toLowerCase().replace(/[^a-z]/g, '');
+    const cadence: Cadence | undefined = intervalMonths
+      ? ({ 1: 'monthly', 3: 'quarterly', 6: 'halfyearly', 12: 'yearly' } as Record<number, Cadence>)[intervalMonths] ?? 'custom'
+      : cadenceRaw ? CADENCES[cadenceRaw] : 'monthly';
+    if (!cadence) errors.push(`Onbekende frequentie "${get('cadence')}"`);
+
+    const startDate = get('startDate') ? parseDate(get('startDate')) : null;
+    if (get('startDate') && !startDate) errors.push(`Ongeldige startdatum "${get('startDate')}"`);
+
+    const cancelDate = get('cancelDate') ? parseDate(get('cancelDate')) : null;
+    if (get('cancelDate') && !cancelDate) errors.push(`Ongeldige einddatum "${get('cancelDate')}"`);
+    if (startDate && cancelDate && cancelDate < startDate) errors.push('Einddatum ligt voor de startdatum');
+
+    const sub: ImportedSubscription | null =
+      errors.length > 0 || price == null || !startDate
+        ? null
+        : {
+            companyName: get('company') || null,
+            productId: null,
+            customer: get('customer'),
+            planName: get('planName'),
+            price,
+            currency,
+            billingType,
+            cadence,
+            intervalMonths: cadence === 'custom' ? intervalMonths : undefined,
+            startDate,
+            cancelDate: billingType === 'recurring' ? cancelDate : null,
+            variableAmounts: billingType === 'variable' ? {} : undefined,
+            notes: get('notes')
+          };
+    return { line: i + 2, cells, sub, errors };
+  });
+}
+
+/** Company names used in the import that do not exist yet (case-insensitive, first spelling wins) */
+export function missingCompanies(preview: PreviewRow[], companies: Company[]): string[] {
+  const known = new Set(companies.map(c => c.name.trim().toLowerCase()));
+  const out = new Map<string, string>();
+  for (const row of preview) {
+    const name = row.sub?.companyName;
+    if (!name) continue;
+    const key = name.toLowerCase();
+    if (!known.has(key) && !out.has(key)) out.set(key, name);
+  }
+  return [...out.values()];
+}
+
+/** Valid rows only, with the companies that have to be created first */
+export function toImportBatch(preview: PreviewRow[], companies: Company[]): ImportBatch {
+  return {
+    companyNames: missingCompanies(preview, companies),
+    subs: preview.flatMap(r => (r.sub ? [r.sub] : []))
+  };
+}
+
+/** Resolve company names against the (now complete) company list */
+export function resolveCompanyId(companies: Company[], name: string | null): string | null {
+  if (!name) return null;
+  const key = name.trim().toLowerCase();
+  return companies.find(c => c.name.trim().toLowerCase() === key)?.id ?? null;
+}
@@ -0,0 +1,263 @@
+import { BASE_CURRENCY } from './currency';
+import { customerKey } from './customers';
+import { activeDiscounts, billMonthsCash, effectivePrice, intervalMonthsOf, priceInMonth, shiftMonth } from './revenue';
+import { VAT_CODES, VAT_LABEL, VAT_PERCENT, vatCodeOf } from './vat';
+import type { Company, Customer, Invoice, InvoiceLine, Subscription, VatCode } from './types';
+
+// ------------------------------
+// Invoices: drafts per customer and billing month from the billing schedule,
+// sequential numbering per company and a printable HTML rendering
+// ------------------------------
+
+/** An invoice that is not stored yet has no id */
+export type InvoiceDraft = Omit<Invoice, 'id'> & { id?: string };
+
+export type InvoiceOptions = {
+  issueDate: string; // yyyy-mm-dd
+  paymentDays: number; // due date = issue date + payment days
+};
+
+const MONTHS_NL = ['jan', 'feb', 'mrt', 'apr', 'mei', 'jun', 'jul', 'aug', 'sep', 'okt', 'nov', 'dec'];
+
+const cents = (n: number) => Math.round(n * 100) / 100;
+
+/** "2025-03" -> "mrt 2025" */
+export const periodLabel = (mk: string) => `${MONTHS_NL[Number(mk.slice(5, 7)) - 1]} ${mk.slice(0, 4)}`;
+
+function addDays(iso: string, days: number) {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+export const invoiceNumber = (year: number, seq: number) => `${year}-${String(seq).padStart(4, '0')}`;
+
+/** Next number of a company in a year: one past the highest number used so far */
+export function nextInvoiceNumber(invoices: Pick<Invoice, 'companyId' | 'number'>[], companyId: string | null, year: number) {
+  let last = 0;
+  for (const inv of invoices) {
+    const match = /^(\d{4})-(\d+)$/.exec(inv.number);
+    if (inv.companyId === companyId && match && Number(match[1]) === year) last = Math.max(last, Number(match[2]));
+  }
+  return invoiceNumber(year, last + 1);
+}
+
+/**
+ * Throws unless every draft with an id replaces a stored draft: unknown ids are not found,
+ * and a sent invoice is an accounting record that is not overwritten (status 409 for the API)
+ */
+export function assertSavable(stored: Pick<Invoice, 'id' | 'status'>[], drafts: InvoiceDraft[]) {
+  for (const draft of drafts) {
+    if (!draft.id) continue;
+    const current = stored.find(inv => inv.id === draft.id);
+    if (!current) throw new Error(`Invoice ${draft.id} not found`);
+    if (current.status !== 'draft') throw Object.assign(new Error(`Invoice ${draft.id} is already sent`), { status: 409 });
+  }
+}
+
+/** Throws while the company has sent invoices: those are kept, so the company cannot be deleted (status 409 for the API) */
+export function assertNoSentInvoices(invoices: Pick<Invoice, 'companyId' | 'status'>[], companyId: string) {
+  if (invoices.some(inv => inv.companyId === companyId && inv.status !== 'draft')) {
+    throw Object.assign(new Error(`Company ${companyId} has sent invoices`), { status: 409 });
+  }
+}
+
+export const lineAmount = (line: InvoiceLine) => cents(line.quantity * line.unitPrice);
+
+export type InvoiceTotals = {
+  net: number;
+  vat: { code: VatCode; base: number; vat: number }[]; // one row per tariff on the invoice
+  vatTotal: number;
+  gross: number;
+};
+
+/** Subtotal, VAT per tariff (over the summed line amounts) and the total to pay */
+export function invoiceTotals(invoice: Pick<Invoice, 'lines'>): InvoiceTotals {
+  const base = new Map<VatCode, number>();
+  for (const line of invoice.lines) base.set(line.vatCode, (base.get(line.vatCode) || 0) + lineAmount(line));
+  const vat = VAT_CODES.filter(code => base.has(code)).map(code => {
+    const amount = cents(base.get(code)!);
+    return { code, base: amount, vat: cents(amount * VAT_PERCENT[code]) };
+  });
+  const net = cents(vat.reduce((a, r) => a + r.base, 0));
+  const vatTotal = cents(vat.reduce((a, r) => a + r.vat, 0));
+  return { net, vat, vatTotal, gross: cents(net + vatTotal) };
+}
+
+/**
+ * Invoice lines of an item for the charges in `period` (empty when it does not bill in that month):
+ * the charge at its list price and, with an active promotion, a separate discount line
+ */
+function linesFor(sub: Subscription, period: string, companies: Company[]): InvoiceLine[] {
+  const charges = billMonthsCash(sub, period, period).get(period);
+  if (!charges) return [];
+  const vatCode = vatCodeOf(sub, companies);
+  if (sub.billingType === 'variable') {
+    const amount = sub.variableAmounts?.[period] ?? 0;
+    return [{ subscriptionId: sub.id, description: `${sub.planName} – ${periodLabel(period)}`, quantity: 1, unitPrice: amount, vatCode }];
+  }
+  const interval = intervalMonthsOf(sub);
+  const covered =
+    sub.billingType === 'onetime'
+      ? null
+      : interval == null
+        ? `per week, ${periodLabel(period)}`
+        : interval === 1
+          ? periodLabel(period)
+          : `${periodLabel(period)} t/m ${periodLabel(shiftMonth(period, interval - 1))}`;
+  // A prorated charge is one line for the charged part of the period
+  const line = (description: string, unitPrice: number): InvoiceLine =>
+    Number.isInteger(charges)
+      ? { subscriptionId: sub.id, description, quantity: charges, unitPrice, vatCode }
+      : { subscriptionId: sub.id, description: `${description} (pro rata)`, quantity: 1, unitPrice: cents(unitPrice * charges), vatCode };
+  const listPrice = priceInMonth(sub, period);
+  const discount = listPrice - effectivePrice(sub, period);
+  const lines = [line(covered ? `${sub.planName} – ${covered}` : sub.planName, listPrice)];
+  if (discount > 0) {
+    const labels = activeDiscounts(sub, period).map(d => d.label || (d.kind === 'percent' ? `${d.value}%` : ''));
+    lines.push(line(['Korting', ...labels.filter(Boolean)].join(' '), -discount));
+  }
+  return lines;
+}
+
+// Items of the same company, customer and currency share one invoice per billing month
+const groupKey = (companyId: string | null, customerId: string | null | undefined, customer: string, currency: string, period: string) =>
+  `${companyId ?? ''}|${customerId ?? `name:${customerKey(customer)}`}|${currency}|${period}`;
+
+export type GenerateResult = {
+  invoices: InvoiceDraft[]; // new drafts (without id) and regenerated existing drafts
+  skipped: number; // invoices already sent for this month, left unchanged
+};
+
+/**
+ * Draft invoices for everything billed in `period`. Existing drafts for the same company, customer
+ * and currency keep their id and number and get fresh lines; sent invoices are never touched,
+ * so generating a month twice does not use new numbers.
+ */
+export function generateInvoices(
+  data: { companies: Company[]; customers: Customer[]; subs: Subscription[]; invoices: Invoice[] },
+  period: string,
+  options: InvoiceOptions
+): GenerateResult {
+  const groups = new Map<string, { sub: Subscription; lines: InvoiceLine[] }>();
+  for (const sub of data.subs) {
+    const lines = linesFor(sub, period, data.companies);
+    if (lines.every(line => line.unitPrice === 0)) continue;
+    const key = groupKey(sub.companyId, sub.customerId, sub.customer, sub.currency || BASE_CURRENCY, period);
+    const group = groups.get(key);
+    if (group) group.lines.push(...lines);
+    else groups.set(key, { sub, lines });
+  }
+
+  const existing = new Map(data.invoices.map(inv => [groupKey(inv.companyId, inv.customerId, inv.customer, inv.currency, inv.period), inv]));
+  const numbered: Pick<Invoice, 'companyId' | 'number'>[] = [...data.invoices];
+  const year = Number(options.issueDate.slice(0, 4));
+  const out: InvoiceDraft[] = [];
+  let skipped = 0;
+  for (const [key, { sub, lines }] of groups) {
+    const customer = data.customers.find(c => c.id === sub.customerId);
+    const base = {
+      companyId: sub.companyId,
+      customerId: sub.customerId ?? null,
+      customer: customer?.name ?? sub.customer,
+      period,
+      issueDate: options.issueDate,
+      dueDate: addDays(options.issueDate, options.paymentDays),
+      currency: sub.currency || BASE_CURRENCY,
+      lines
+    };
+    const previous = existing.get(key);
+    if (previous?.status === 'sent') {
+      skipped++;
+      continue;
+    }
+    if (previous) {
+      out.push({ ...base, id: previous.id, number: previous.number, status: 'draft' });
+      continue;
+    }
+    const number = nextInvoiceNumber(numbered, sub.companyId, year);
+    numbered.push({ companyId: sub.companyId, number });
+    out.push({ ...base, number, status: 'draft' });
+  }
+  out.sort((a, b) => (a.companyId ?? '').localeCompare(b.companyId ?? '') || a.number.localeCompare(b.number));
+  return { invoices: out, skipped };
+}
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const fmtDate = (iso: string) => `${iso.slice(8, 10)}-${iso.slice(5, 7)}-${iso.slice(0, 4)}`;
+
+/** Stand-alone HTML page of an invoice; printing it from the browser also gives the PDF */
+export function renderInvoiceHtml(invoice: Invoice, company: Company | undefined, customer: Customer | undefined) {
+  const money = (n: number) =>
+    new Intl.NumberFormat('nl-NL', { style: 'currency', currency: invoice.currency, minimumFractionDigits: 2 }).format(n);
+  const totals = invoiceTotals(invoice);
+  const rows = invoice.lines
+    .map(
+      line => `<tr>
+        <td>${escapeHtml(line.description)}</td>
+        <td class="num">${line.quantity}</td>
+        <td class="num">${money(line.unitPrice)}</td>
+        <td class="num">${VAT_LABEL[line.vatCode]}</td>
+        <td class="num">${money(lineAmount(line))}</td>
+      </tr>`
+    )
+    .join('');
+  const vatRows = totals.vat
+    .map(r =>
+      r.code === 'reverse'
+        ? `<tr><td>BTW verlegd over ${money(r.base)}</td><td class="num">${money(0)}</td></tr>`
+        : `<tr><td>BTW ${VAT_LABEL[r.code]} over ${money(r.base)}</td><td class="num">${money(r.vat)}</td></tr>`
+    )
+    .join('');
+  const contact = [customer?.email, customer?.phone].filter(Boolean).map(v => `<div>${escapeHtml(v!)}</div>`).join('');
+  return `<!DOCTYPE html>
+<html lang="nl">
+<head>
+<meta charset="utf-8">
+<title>Factuur ${escapeHtml(invoice.number)}</title>
+<style>
+  @page { size: A4; margin: 20mm; }
+  body { font-family: system-ui, sans-serif; font-size: 13px; color: #18181b; margin: 0; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  .muted { color: #71717a; }
+  .head { display: flex; justify-content: space-between; margin-bottom: 32px; }
+  .draft { color: #b45309; font-weight: 600; letter-spacing: 0.1em; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; border-bottom: 1px solid #d4d4d8; padding: 6px 4px; }
+  td { padding: 6px 4px; border-bottom: 1px solid #f4f4f5; }
+  .num { text-align: right; white-space: nowrap; }
+  .totals { width: 50%; margin: 16px 0 0 auto; }
+  .totals tr:last-child td { font-weight: 600; border-top: 1px solid #d4d4d8; }
+</style>
+</head>
+<body>
+  <div class="head">
+    <div>
+      <h1>${escapeHtml(company?.name ?? 'Zonder bedrijf')}</h1>
+      ${invoice.status === 'draft' ? '<div class="draft">CONCEPT</div>' : ''}
+    </div>
+    <div class="num">
+      <h1>Factuur ${escapeHtml(invoice.number)}</h1>
+      <div class="muted">Factuurdatum ${fmtDate(invoice.issueDate)}</div>
+      <div class="muted">Vervaldatum ${fmtDate(invoice.dueDate)}</div>
+      <div class="muted">Periode ${periodLabel(invoice.period)}</div>
+    </div>
+  </div>
+  <div style="margin-bottom: 24px">
+    <div class="muted">Aan</div>
+    <div><strong>${escapeHtml(invoice.customer)}</strong></div>
+    ${contact}
+  </div>
+  <table>
+    <thead><tr><th>Omschrijving</th><th class="num">Aantal</th><th class="num">Prijs</th><th class="num">BTW</th><th class="num">Bedrag</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+  <table class="totals">
+    <tr><td>Subtotaal</td><td class="num">${money(totals.net)}</td></tr>
+    ${vatRows}
+    <tr><td>Totaal</td><td class="num">${money(totals.gross)}</td></tr>
+  </table>
+</body>
+</html>`;
+}
@@ -0,0 +1,152 @@
+import type { Fx } from './currency';
+import { customerKey } from './customers';
+import { monthKey, monthsBetweenInclusive, mrrInMonth, shiftMonth } from './revenue';
+import type { Subscription } from './types';
+
+// ------------------------------
+// SaaS metrics: MRR movements per month, churn, retention and ARPA
+// ------------------------------
+
+/**
+ * MRR movements are computed per account (logo): one company + customer (record, else name).
+ * A customer with two items that upgrades one of them is expansion, not new + churn.
+ */
+export const accountKey = (sub: Subscription) => `${sub.companyId ?? ''}|${sub.customerId ?? customerKey(sub.customer)}`;
+
+export type MrrMovements = {
+  month: string;
+  startMRR: number; // MRR at the end of the previous month
+  newMRR: number;
+  expansion: number;
+  contraction: number; // positive amount
+  churned: number; // positive amount
+  reactivated: number;
+  endMRR: number;
+  startAccounts: number; // accounts with MRR at the start of the month
+  newAccounts: number;
+  churnedAccounts: number;
+  reactivatedAccounts: number;
+  endAccounts: number;
+};
+
+export type MonthMetrics = MrrMovements & {
+  logoChurn: number | null; // churned accounts / start accounts
+  revenueChurn: number | null; // (churned + contraction) / start MRR
+  nrr: number | null; // (start + expansion - contraction - churn) / start
+  grr: number | null; // (start - contraction - churn) / start
+  arpa: number | null; // end MRR / end accounts
+};
+
+const ratio = (n: number, d: number) => (d > 0 ? n / d : null);
+
+/** MRR per account per month, starting at the first month any item starts so history is known */
+function accountMRR(subs: Subscription[], months: string[], fx?: Fx) {
+  const byAccount = new Map<string, Record<string, number>>();
+  for (const sub of subs) {
+    const row = byAccount.get(accountKey(sub)) || {};
+    for (const mk of months) {
+      const v = mrrInMonth(sub, mk, fx);
+      if (v) row[mk] = (row[mk] || 0) + v;
+    }
+    byAccount.set(accountKey(sub), row);
+  }
+  return byAccount;
+}
+
+/** Break MRR down into new, expansion, contraction, churned and reactivated for each month */
+export function calcMrrMovements(subs: Subscription[], months: string[], fx?: Fx): MrrMovements[] {
+  if (months.length === 0) return [];
+  const firstStart = subs.reduce((min, s) => (s.startDate && monthKey(s.startDate) < min ? monthKey(s.startDate) : min), months[0]);
+  const historyFrom = firstStart < months[0] ? firstStart : shiftMonth(months[0], -1);
+  const allMonths = monthsBetweenInclusive(historyFrom, months[months.length - 1]);
+  const mrr = accountMRR(subs, allMonths, fx);
+  const wanted = new Set(months);
+
+  const out: MrrMovements[] = [];
+  const everActive = new Set<string>();
+  for (let i = 0; i < allMonths.length; i++) {
+    const mk = allMonths[i];
+    const prevMk = i > 0 ? allMonths[i - 1] : null;
+    const row: MrrMovements = {
+      month: mk, startMRR: 0, newMRR: 0, expansion: 0, contraction: 0, churned: 0, reactivated: 0, endMRR: 0,
+      startAccounts: 0, newAccounts: 0, churnedAccounts: 0, reactivatedAccounts: 0, endAccounts: 0
+    };
+    for (const [key, values] of mrr) {
+      const prev = prevMk ? values[prevMk] || 0 : 0;
+      const cur = values[mk] || 0;
+      row.startMRR += prev;
+      row.endMRR += cur;
+      if (prev > 0) row.startAccounts++;
+      if (cur > 0) row.endAccounts++;
+      if (prev === 0 && cur > 0) {
+        if (everActive.has(key)) {
+          row.reactivated += cur;
+          row.reactivatedAccounts++;
+        } else {
+          row.newMRR += cur;
+          row.newAccounts++;
+        }
+      } else if (prev > 0 && cur === 0) {
+        row.churned += prev;
+        row.churnedAccounts++;
+      } else if (cur > prev) {
+        row.expansion += cur - prev;
+      } else if (cur < prev) {
+        row.contraction += prev - cur;
+      }
+      if (cur > 0) everActive.add(key);
+    }
+    if (wanted.has(mk)) out.push(row);
+  }
+  return out;
+}
+
+export function withRates(m: MrrMovements): MonthMetrics {
+  return {
+    ...m,
+    logoChurn: ratio(m.churnedAccounts, m.startAccounts),
+    revenueChurn: ratio(m.churned + m.contraction, m.startMRR),
+    nrr: ratio(m.startMRR + m.expansion - m.contraction - m.churned, m.startMRR),
+    grr: ratio(m.startMRR - m.contraction - m.churned, m.startMRR),
+    arpa: ratio(m.endMRR, m.endAccounts)
+  };
+}
+
+/** Monthly movements with churn/retention rates and ARPA */
+export function calcMetrics(subs: Subscription[], months: string[], fx?: Fx): MonthMetrics[] {
+  return calcMrrMovements(subs, months, fx).map(withRates);
+}
+
+/**
+ * Totals over a whole range: start MRR of the first month, end MRR of the last month and
+ * the sum of the movements in between. Rates are relative to the start of the range.
+ */
+export function summarizeMovements(rows: MrrMovements[]): MonthMetrics | null {
+  if (rows.length === 0) return null;
+  const first = rows[0];
+  const last = rows[rows.length - 1];
+  const sum = (f: (r: MrrMovements) => number) => rows.reduce((a, r) => a + f(r), 0);
+  return withRates({
+    month: `${first.month}/${last.month}`,
+    startMRR: first.startMRR,
+    newMRR: sum(r => r.newMRR),
+    expansion: sum(r => r.expansion),
+    contraction: sum(r => r.contraction),
+    churned: sum(r => r.churned),
+    reactivated: sum(r => r.reactivated),
+    endMRR: last.endMRR,
+    startAccounts: first.startAccounts,
+    newAccounts: sum(r => r.newAccounts),
+    churnedAccounts: sum(r => r.churnedAccounts),
+    reactivatedAccounts: sum(r => r.reactivatedAccounts),
+    endAccounts: last.endAccounts
+  });
+}
+
+/** Metrics per company (null = items without company) */
+export function calcMetricsByCompany(subs: Subscription[], companyIds: (string | null)[], months: string[], fx?: Fx) {
+  return companyIds.map(companyId => ({
+    companyId,
+    months: calcMetrics(subs.filter(s => s.companyId === companyId), months, fx)
+  }));
+}
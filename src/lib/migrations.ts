@@ -1,55 +1,156 @@
-import { sql } from './db';
+import fs from 'fs';
+import path from 'path';
+import pg from 'pg';
+import { getDatabaseUrl } from './db';
 
-// Function to run database migrations
-export const runMigrations = async (): Promise<void> => {
+// ------------------------------
+// Versioned migrations: migrations/NNNN_name.sql files with "-- migrate:up" and
+// "-- migrate:down" sections, tracked in the schema_migrations table
+// ------------------------------
+
+export const MIGRATIONS_DIR = path.resolve(process.cwd(), 'migrations');
+
+const UP_MARKER = '-- migrate:up';
+const DOWN_MARKER = '-- migrate:down';
+
+export interface Migration {
+  version: number;
+  name: string;
+  file: string;
+  up: string;
+  down: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied_at: string | null;
+}
+
+// Parse a migration file into its up and down SQL
+const parseMigration = (file: string, contents: string): Migration => {
+  const match = /^(\d+)_(.+)\.sql$/.exec(path.basename(file));
+  if (!match) throw new Error(`Invalid migration file name: ${file} (expected NNNN_name.sql)`);
+  const upAt = contents.indexOf(UP_MARKER);
+  const downAt = contents.indexOf(DOWN_MARKER);
+  if (upAt === -1) throw new Error(`Migration ${file} has no "${UP_MARKER}" section`);
+  const up = contents.slice(upAt + UP_MARKER.length, downAt > upAt ? downAt : undefined).trim();
+  const down = downAt > upAt ? contents.slice(downAt + DOWN_MARKER.length).trim() : '';
+  return { version: Number(match[1]), name: match[2], file, up, down };
+};
+
+// Read all migration files, ordered by version
+export const loadMigrations = (dir: string = MIGRATIONS_DIR): Migration[] => {
+  const files = fs.readdirSync(dir).filter(f => f.endsWith('.sql')).sort();
+  const migrations = files.map(f => parseMigration(f, fs.readFileSync(path.join(dir, f), 'utf8')));
+  const seen = new Set<number>();
+  for (const m of migrations) {
+    if (seen.has(m.version)) throw new Error(`Duplicate migration version ${m.version}`);
+    seen.add(m.version);
+  }
+  return migrations.sort((a, b) => a.version - b.version);
+};
+
+const connect = async (): Promise<pg.Client> => {
+  const client = new pg.Client({ connectionString: getDatabaseUrl() });
+  await client.connect();
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  return client;
+};
+
+const appliedVersions = async (client: pg.Client): Promise<Map<number, string>> => {
+  const { rows } = await client.query('SELECT version, applied_at FROM schema_migrations ORDER BY version');
+  return new Map(rows.map(r => [Number(r.version), new Date(r.applied_at).toISOString()]));
+};
+
+// Run one step inside a transaction so a failing migration leaves no partial changes
+const inTransaction = async (client: pg.Client, run: () => Promise<void>): Promise<void> => {
+  await client.query('BEGIN');
   try {
-    console.log('Running database migrations...');
+    await run();
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+};
 
-    // Create businesses table
-    await sql`
-      CREATE TABLE IF NOT EXISTS businesses (
-        id SERIAL PRIMARY KEY,
-        name VARCHAR(255) NOT NULL,
-        description TEXT,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-
-    // Create revenue_entries table
-    await sql`
-      CREATE TABLE IF NOT EXISTS revenue_entries (
-        id SERIAL PRIMARY KEY,
-        business_id INTEGER REFERENCES businesses(id) ON DELETE CASCADE,
-        amount DECIMAL(10, 2) NOT NULL,
-        description TEXT,
-        category VARCHAR(100),
-        date DATE NOT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-
-    // Create expense_entries table
-    await sql`
-      CREATE TABLE IF NOT EXISTS expense_entries (
-        id SERIAL PRIMARY KEY,
-        business_id INTEGER REFERENCES businesses(id) ON DELETE CASCADE,
-        amount DECIMAL(10, 2) NOT NULL,
-        description TEXT,
-        category VARCHAR(100),
-        date DATE NOT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
-
-    // Create indexes
-    await sql`CREATE INDEX IF NOT EXISTS idx_revenue_entries_business_id ON revenue_entries(business_id)`;
-    await sql`CREATE INDEX IF NOT EXISTS idx_revenue_entries_date ON revenue_entries(date)`;
-    await sql`CREATE INDEX IF NOT EXISTS idx_expense_entries_business_id ON expense_entries(business_id)`;
-    await sql`CREATE INDEX IF NOT EXISTS idx_expense_entries_date ON expense_entries(date)`;
+// Apply all pending migrations (up to and including `target` when given)
+export const migrateUp = async (target?: number): Promise<Migration[]> => {
+  const client = await connect();
+  try {
+    const applied = await appliedVersions(client);
+    const pending = loadMigrations().filter(m => !applied.has(m.version) && (target == null || m.version <= target));
+    for (const m of pending) {
+      console.log(`⬆️  ${m.version} ${m.name}`);
+      await inTransaction(client, async () => {
+        await client.query(m.up);
+        await client.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [m.version, m.name]);
+      });
+    }
+    return pending;
+  } finally {
+    await client.end();
+  }
+};
 
+// Revert the last `steps` applied migrations, newest first
+export const migrateDown = async (steps = 1): Promise<Migration[]> => {
+  const client = await connect();
+  try {
+    const applied = await appliedVersions(client);
+    const byVersion = new Map(loadMigrations().map(m => [m.version, m]));
+    const versions = [...applied.keys()].sort((a, b) => b - a).slice(0, steps);
+    const reverted: Migration[] = [];
+    for (const version of versions) {
+      const m = byVersion.get(version);
+      if (!m) throw new Error(`Migration file for applied version ${version} is missing`);
+      if (!m.down) throw new Error(`Migration ${m.file} has no "${DOWN_MARKER}" section`);
+      console.log(`⬇️  ${m.version} ${m.name}`);
+      await inTransaction(client, async () => {
+        await client.query(m.down);
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [m.version]);
+      });
+      reverted.push(m);
+    }
+    return reverted;
+  } finally {
+    await client.end();
+  }
+};
+
+// List every known migration with the time it was applied (null when pending)
+export const migrationStatus = async (): Promise<MigrationStatus[]> => {
+  const client = await connect();
+  try {
+    const applied = await appliedVersions(client);
+    return loadMigrations().map(m => ({ version: m.version, name: m.name, applied_at: applied.get(m.version) || null }));
+  } finally {
+    await client.end();
+  }
+};
+
+// Create an empty migration file with the next version number and return its path
+export const createMigration = (name: string, dir: string = MIGRATIONS_DIR): string => {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  if (!slug) throw new Error('Migration name is required');
+  const next = loadMigrations(dir).reduce((max, m) => Math.max(max, m.version), 0) + 1;
+  const file = path.join(dir, `${String(next).padStart(4, '0')}_${slug}.sql`);
+  fs.writeFileSync(file, `-- ${name.trim()}\n\n${UP_MARKER}\n\n${DOWN_MARKER}\n`);
+  return file;
+};
+
+// Function to run database migrations (all pending)
+export const runMigrations = async (): Promise<void> => {
+  try {
+    console.log('Running database migrations...');
+    await migrateUp();
     console.log('Database migrations completed successfully!');
   } catch (error) {
     console.error('Migration failed:', error);
@@ -62,6 +163,9 @@ export interface Business {
   id: number;
   name: string;
   description?: string;
+  vat_code?: 'standard' | 'reduced' | 'zero' | 'reverse' | null;
+  payments_from?: string | null;
+  proration?: 'none' | 'daily' | 'halfmonth';
   created_at: string;
   updated_at: string;
 }
@@ -79,11 +183,140 @@ export interface RevenueEntry {
 
 export interface ExpenseEntry {
   id: number;
-  business_id: number;
-  amount: number;
+  business_id: number | null;
+  amount: number | string;
   description?: string;
   category?: string;
-  date: string;
+  date: string | Date;
   created_at: string;
   updated_at: string;
-}
\ No newline at end of file
+}
+
+export interface SubscriptionRow {
+  id: number;
+  business_id: number | null;
+  product_id: number | null;
+  customer_id: number | null;
+  customer: string;
+  plan_name: string;
+  price: number | string;
+  billing_type: 'recurring' | 'onetime' | 'variable';
+  currency: string;
+  vat_code: 'standard' | 'reduced' | 'zero' | 'reverse' | null;
+  variable_mrr_method: 'off' | 'average' | 'median' | 'last' | null;
+  variable_mrr_months: number | null;
+  cadence: 'weekly' | 'monthly' | 'quarterly' | 'halfyearly' | 'yearly' | 'custom';
+  interval_months: number | null;
+  anchor_date: string | Date | null;
+  start_date: string | Date;
+  cancel_date: string | Date | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CustomerRow {
+  id: number;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  notes: string | null;
+  business_ids: number[] | null; // aggregated from customer_businesses
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProductRow {
+  id: number;
+  business_id: number | null;
+  name: string;
+  price: number | string;
+  currency: string;
+  billing_type: 'recurring' | 'onetime' | 'variable';
+  cadence: 'weekly' | 'monthly' | 'quarterly' | 'halfyearly' | 'yearly' | 'custom';
+  interval_months: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PaymentRow {
+  id: number;
+  subscription_id: number;
+  month: string;
+  amount: number | string;
+  date: string | Date;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InvoiceRow {
+  id: number;
+  business_id: number | null;
+  customer_id: number | null;
+  customer: string;
+  number: string;
+  period: string;
+  issue_date: string | Date;
+  due_date: string | Date;
+  currency: string;
+  status: 'draft' | 'sent';
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InvoiceLineRow {
+  id: number;
+  invoice_id: number;
+  position: number;
+  subscription_id: number | null;
+  description: string;
+  quantity: number | string;
+  unit_price: number | string;
+  vat_code: 'standard' | 'reduced' | 'zero' | 'reverse';
+}
+
+export interface ExchangeRateRow {
+  month: string;
+  currency: string;
+  rate: number | string;
+}
+
+export interface SubscriptionPriceChangeRow {
+  subscription_id: number;
+  effective_date: string | Date;
+  price: number | string;
+}
+
+export interface SubscriptionDiscountRow {
+  id: number;
+  subscription_id: number;
+  position: number;
+  kind: 'percent' | 'fixed';
+  value: number | string;
+  start_date: string | Date | null;
+  end_date: string | Date | null;
+  cycles: number | null;
+  label: string | null;
+}
+
+export interface SubscriptionVariableAmountRow {
+  subscription_id: number;
+  month: string;
+  amount: number | string;
+}
+
+export interface AuditLogRow {
+  id: number;
+  at: string | Date;
+  user_name: string;
+  entity: 'company' | 'subscription';
+  entity_id: string;
+  action: 'create' | 'update' | 'delete';
+  label: string;
+  changes: { field: string; before?: unknown; after?: unknown }[];
+  snapshot: Record<string, unknown> | null;
+  payments: Record<string, unknown>[] | null;
+  dependents: Record<string, unknown> | null;
+  restored_from: string | null;
+  source: 'undo' | 'redo' | null;
+}
@@ -0,0 +1,151 @@
+import { fxFactor, type Fx } from './currency';
+import { billMonthsCash, effectivePrice, monthKey } from './revenue';
+import { VAT_PERCENT, vatCodeOf } from './vat';
+import type { Company, Payment, Subscription } from './types';
+
+// ------------------------------
+// Payments: expected charges from the billing schedule, received money and overdue receivables
+// ------------------------------
+
+/** What one item bills in one month (all charges of that month together) */
+export type ExpectedCharge = {
+  subscriptionId: string;
+  month: string; // YYYY-MM
+  dueDate: string; // yyyy-mm-dd
+  amount: number; // excluding VAT, in `currency`
+  currency?: string;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Local yyyy-mm-dd of `d` (toISOString would give the UTC date, a day off around midnight) */
+export const isoDate = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+// Day number (UTC, DST-proof) of a yyyy-mm-dd string
+const dayNumber = (iso: string) => {
+  const [y, m, d] = iso.slice(0, 10).split('-').map(Number);
+  return Date.UTC(y, m - 1, d) / 86_400_000;
+};
+
+/**
+ * Due date of the charges of a month: the payment date of one-time items, the last day of the month
+ * for variable amounts and the anchor day (or the start date, when later) for recurring items.
+ */
+export function dueDateOf(sub: Subscription, mk: string) {
+  if (sub.billingType === 'onetime') return sub.startDate;
+  const [y, m] = mk.split('-').map(Number);
+  const last = new Date(y, m, 0).getDate();
+  if (sub.billingType === 'variable') return `${mk}-${pad(last)}`;
+  const anchorDay = sub.cadence === 'weekly' ? 1 : Number((sub.anchorDate || sub.startDate).slice(8, 10));
+  const due = `${mk}-${pad(Math.min(anchorDay, last))}`;
+  return sub.startDate > due && sub.startDate.slice(0, 7) === mk ? sub.startDate : due;
+}
+
+/** Charges of the items in the range, one per item and billing month */
+export function expectedCharges(subs: Subscription[], fromYYYYMM: string, toYYYYMM: string): ExpectedCharge[] {
+  const out: ExpectedCharge[] = [];
+  for (const sub of subs) {
+    for (const [mk, n] of billMonthsCash(sub, fromYYYYMM, toYYYYMM)) {
+      const amount = sub.billingType === 'variable' ? sub.variableAmounts?.[mk] ?? 0 : effectivePrice(sub, mk) * n;
+      if (amount !== 0) out.push({ subscriptionId: sub.id, month: mk, dueDate: dueDateOf(sub, mk), amount, currency: sub.currency });
+    }
+  }
+  return out;
+}
+
+const chargeKey = (subscriptionId: string, month: string) => `${subscriptionId}|${month}`;
+
+/** Received amount per item and billing month */
+function receivedPerCharge(payments: Payment[]) {
+  const out = new Map<string, number>();
+  for (const p of payments) out.set(chargeKey(p.subscriptionId, p.month), (out.get(chargeKey(p.subscriptionId, p.month)) || 0) + p.amount);
+  return out;
+}
+
+/** Payments are only tracked for companies with a start month; charges before it count as paid */
+export function isTracked(sub: Subscription, companies: Company[], mk: string) {
+  const from = companies.find(c => c.id === sub.companyId)?.paymentsFrom;
+  return !!from && mk >= from;
+}
+
+export type OpenCharge = ExpectedCharge & {
+  received: number;
+  open: number; // still to receive
+  daysOverdue: number; // days past the due date
+};
+
+/** Tracked charges past their due date that are not (fully) paid, longest overdue first */
+export function overdueCharges(subs: Subscription[], payments: Payment[], companies: Company[], today: Date = new Date()): OpenCharge[] {
+  const todayIso = isoDate(today);
+  const received = receivedPerCharge(payments);
+  const out: OpenCharge[] = [];
+  for (const sub of subs) {
+    const from = companies.find(c => c.id === sub.companyId)?.paymentsFrom;
+    if (!from || from > monthKey(today)) continue;
+    for (const charge of expectedCharges([sub], from, monthKey(today))) {
+      if (charge.dueDate >= todayIso) continue;
+      const got = received.get(chargeKey(charge.subscriptionId, charge.month)) || 0;
+      const open = charge.amount - got;
+      if (open > 0.005) out.push({ ...charge, received: got, open, daysOverdue: dayNumber(todayIso) - dayNumber(charge.dueDate) });
+    }
+  }
+  return out.sort((a, b) => b.daysOverdue - a.daysOverdue);
+}
+
+export type AgeingBucket = { label: string; amount: number; count: number };
+
+/** Overdue receivables in 0–30, 31–60 and 60+ days, converted with the rate of each billing month */
+export function ageingBuckets(open: OpenCharge[], fx?: Fx): AgeingBucket[] {
+  const buckets: AgeingBucket[] = [
+    { label: '0–30 dagen', amount: 0, count: 0 },
+    { label: '31–60 dagen', amount: 0, count: 0 },
+    { label: '60+ dagen', amount: 0, count: 0 }
+  ];
+  for (const charge of open) {
+    const bucket = buckets[charge.daysOverdue <= 30 ? 0 : charge.daysOverdue <= 60 ? 1 : 2];
+    bucket.amount += charge.open * fxFactor(charge.currency, charge.month, fx);
+    bucket.count++;
+  }
+  return buckets;
+}
+
+export type ReceivedRow = { month: string; expected: number; received: number; open: number };
+
+/** Expected vs. received per billing month for the tracked items (received = paid for that month's charges) */
+export function expectedVsReceived(subs: Subscription[], payments: Payment[], companies: Company[], months: string[], fx?: Fx): ReceivedRow[] {
+  const received = receivedPerCharge(payments);
+  const byId = new Map(subs.map(s => [s.id, s]));
+  const rows = new Map(months.map(mk => [mk, { month: mk, expected: 0, received: 0, open: 0 }]));
+  for (const charge of expectedCharges(subs, months[0], months[months.length - 1])) {
+    const sub = byId.get(charge.subscriptionId)!;
+    const row = rows.get(charge.month);
+    if (!row || !isTracked(sub, companies, charge.month)) continue;
+    const factor = fxFactor(charge.currency, charge.month, fx);
+    const got = received.get(chargeKey(charge.subscriptionId, charge.month)) || 0;
+    row.expected += charge.amount * factor;
+    row.received += got * factor;
+    row.open += Math.max(0, charge.amount - got) * factor;
+  }
+  return [...rows.values()];
+}
+
+/** Money received per month (by payment date), rounded like calcSeries; payments of other items are ignored */
+export function receivedSeries(subs: Subscription[], payments: Payment[], months: string[], fx?: Fx) {
+  const byId = new Map(subs.map(s => [s.id, s]));
+  const map: Record<string, number> = Object.fromEntries(months.map(k => [k, 0]));
+  for (const p of payments) {
+    const sub = byId.get(p.subscriptionId);
+    const mk = p.date.slice(0, 7);
+    if (sub && mk in map) map[mk] += p.amount * fxFactor(sub.currency, mk, fx);
+  }
+  return months.map(mk => ({ month: mk, amount: Math.round(map[mk]) }));
+}
+
+/** Payments including the VAT of their item, for the gross view */
+export function paymentsToGross(payments: Payment[], subs: Subscription[], companies: Company[]): Payment[] {
+  const byId = new Map(subs.map(s => [s.id, s]));
+  return payments.map(p => {
+    const sub = byId.get(p.subscriptionId);
+    return sub ? { ...p, amount: p.amount * (1 + VAT_PERCENT[vatCodeOf(sub, companies)]) } : p;
+  });
+}
@@ -0,0 +1,242 @@
+import type { RevenueState } from './store';
+import { isCurrencyCode } from './currency';
+import { linkCustomers } from './customers';
+import type { AuditAction, AuditEntity, BillingType, Cadence, DiscountKind, InvoiceStatus, ProrationPolicy, VariableMrrMethod, VatCode } from './types';
+
+// ------------------------------
+// Versioned state envelope: every stored or backed-up state carries its schema version,
+// older versions are brought up to date by a chain of upgrade functions
+// ------------------------------
+
+export const APP_ID = 'revenue-tracker';
+
+/**
+ * Schema versions of the local state:
+ * 1 – { companies, subs } as stored under "income-tracker-data-v6" (no envelope)
+ * 2 – expenses added
+ * 3 – weekly, quarterly, half-yearly and every-N-months cadences (intervalMonths, anchorDate)
+ * 4 – price history per item (priceChanges)
+ * 5 – currency per item and an exchange-rate table (rates)
+ * 6 – VAT tariff per company and item (vatCode)
+ * 7 – product catalog (products) linked through Subscription.productId
+ * 8 – customer records (customers) linked through Subscription.customerId
+ * 9 – invoices generated from the billing schedule (invoices)
+ * 10 – received payments per item and billing month (payments), tracked per company from paymentsFrom
+ * 11 – variable income normalized into MRR per item (variableMrr)
+ * 12 – proration policy per company (proration)
+ * 13 – discounts and promotions per item (discounts)
+ * 14 – change history of companies and items (audit)
+ */
+export const STATE_VERSION = 14;
+
+export type StateEnvelope = {
+  app: typeof APP_ID;
+  version: number;
+  savedAt: string; // ISO timestamp
+  data: RevenueState;
+};
+
+type Upgrade = (data: any) => any;
+
+/** UPGRADES[n] turns version n data into version n + 1 */
+const UPGRADES: Record<number, Upgrade> = {
+  1: (d) => ({ ...d, expenses: Array.isArray(d.expenses) ? d.expenses : [] }),
+  2: (d) => d, // only new cadences and optional fields; existing items stay valid
+  3: (d) => ({
+    ...d,
+    subs: Array.isArray(d.subs) ? d.subs.map((s: any) => ({ ...s, priceChanges: Array.isArray(s?.priceChanges) ? s.priceChanges : [] })) : d.subs
+  }),
+  4: (d) => ({ ...d, rates: Array.isArray(d.rates) ? d.rates : [] }),
+  5: (d) => d, // vatCode is optional: items without one use the company tariff
+  6: (d) => ({ ...d, products: Array.isArray(d.products) ? d.products : [] }),
+  7: (d) => {
+    // One customer per distinct name (case and spacing ignored), linked to the companies of its items
+    if (!Array.isArray(d.subs)) return d;
+    let n = 0;
+    return { ...d, ...linkCustomers(Array.isArray(d.customers) ? d.customers : [], d.subs, () => `customer-${++n}`) };
+  },
+  8: (d) => ({ ...d, invoices: Array.isArray(d.invoices) ? d.invoices : [] }),
+  9: (d) => ({ ...d, payments: Array.isArray(d.payments) ? d.payments : [] }), // no company tracks payments yet
+  10: (d) => d, // variableMrr is optional: items without one follow the global setting
+  11: (d) => d, // proration is optional: companies without one charge partial periods in full
+  12: (d) => d, // discounts are optional: items without them are charged their list price
+  13: (d) => ({ ...d, audit: Array.isArray(d.audit) ? d.audit : [] }) // history starts at the upgrade
+};
+
+export type MigrationResult =
+  | { ok: true; data: RevenueState; fromVersion: number }
+  | { ok: false; problems: string[] };
+
+export function toEnvelope(data: RevenueState, now: Date = new Date()): StateEnvelope {
+  return { app: APP_ID, version: STATE_VERSION, savedAt: now.toISOString(), data };
+}
+
+/** Read an envelope (or a bare legacy v1 state) and return its version and data without upgrading */
+function unwrap(raw: unknown): { version: number; data: any } | string {
+  if (!raw || typeof raw !== 'object') return 'Geen geldig JSON-object';
+  const obj = raw as Record<string, unknown>;
+  if ('data' in obj && 'version' in obj) {
+    if (obj.app !== undefined && obj.app !== APP_ID) return `Onbekende app "${String(obj.app)}"`;
+    const version = Number(obj.version);
+    if (!Number.isInteger(version) || version < 1) return `Ongeldige versie "${String(obj.version)}"`;
+    return { version, data: obj.data };
+  }
+  if (Array.isArray(obj.companies) && Array.isArray(obj.subs)) return { version: 1, data: obj };
+  return 'Bestand bevat geen bedrijven en items';
+}
+
+export const isMonth = (v: unknown) => typeof v === 'string' && /^\d{4}-(0[1-9]|1[0-2])$/.test(v);
+// A real calendar date: 2024-02-30 would roll over into March, so the parts must survive a Date.UTC round trip
+export const isDate = (v: unknown) => {
+  if (typeof v !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(v)) return false;
+  const [y, m, d] = v.split('-').map(Number);
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  return dt.getUTCFullYear() === y && dt.getUTCMonth() === m - 1 && dt.getUTCDate() === d;
+};
+export const BILLING_TYPES: BillingType[] = ['recurring', 'onetime', 'variable'];
+export const CADENCES: Cadence[] = ['weekly', 'monthly', 'quarterly', 'halfyearly', 'yearly', 'custom'];
+const VAT_CODES: VatCode[] = ['standard', 'reduced', 'zero', 'reverse'];
+export const INVOICE_STATUSES: InvoiceStatus[] = ['draft', 'sent'];
+export const VARIABLE_MRR_METHODS: VariableMrrMethod[] = ['off', 'average', 'median', 'last'];
+export const PRORATION_POLICIES: ProrationPolicy[] = ['none', 'daily', 'halfmonth'];
+const DISCOUNT_KINDS: DiscountKind[] = ['percent', 'fixed'];
+export const AUDIT_ENTITIES: AuditEntity[] = ['company', 'subscription'];
+export const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'delete'];
+
+export const isDiscount = (d: any) =>
+  DISCOUNT_KINDS.includes(d?.kind) &&
+  typeof d?.value === 'number' &&
+  d.value >= 0 &&
+  (d.kind !== 'percent' || d.value <= 100) &&
+  (d?.startDate == null || isDate(d.startDate)) &&
+  (d?.endDate == null || isDate(d.endDate)) &&
+  (d?.cycles == null || (Number.isInteger(d.cycles) && d.cycles > 0));
+
+/**
+ * Problems of one item's own fields (references to products and customers are checked by the caller).
+ * Shared by backups (validateState) and the HTTP API, so both accept the same items.
+ */
+export function subscriptionProblems(s: any): string[] {
+  const problems: string[] = [];
+  if (typeof s?.customer !== 'string' || typeof s?.planName !== 'string') problems.push('klant en plan zijn verplicht');
+  if (typeof s?.price !== 'number' || !Number.isFinite(s.price)) problems.push('ongeldige prijs');
+  if (!BILLING_TYPES.includes(s?.billingType)) problems.push(`onbekend type "${s?.billingType}"`);
+  if (!CADENCES.includes(s?.cadence)) problems.push(`onbekende frequentie "${s?.cadence}"`);
+  if (s?.cadence === 'custom' && !(Number.isInteger(s?.intervalMonths) && s.intervalMonths > 0)) problems.push('ongeldig aantal maanden per termijn');
+  if (s?.anchorDate != null && !isDate(s.anchorDate)) problems.push('ongeldige ankerdatum');
+  if (s?.currency != null && !isCurrencyCode(s.currency)) problems.push(`onbekende valuta "${s.currency}"`);
+  if (s?.vatCode != null && !VAT_CODES.includes(s.vatCode)) problems.push(`onbekend btw-tarief "${s.vatCode}"`);
+  if (s?.proration != null && !PRORATION_POLICIES.includes(s.proration)) problems.push(`onbekende pro-ratamethode "${s.proration}"`);
+  if (s?.priceChanges != null && (!Array.isArray(s.priceChanges) || s.priceChanges.some((c: any) => !isDate(c?.effectiveDate) || typeof c?.price !== 'number' || !Number.isFinite(c.price)))) {
+    problems.push('ongeldige prijshistorie');
+  }
+  if (s?.discounts != null && (!Array.isArray(s.discounts) || !s.discounts.every(isDiscount))) problems.push('ongeldige korting');
+  if (s?.variableAmounts != null && (typeof s.variableAmounts !== 'object' || Array.isArray(s.variableAmounts) ||
+      !Object.entries(s.variableAmounts).every(([k, n]) => isMonth(k) && typeof n === 'number' && Number.isFinite(n)))) {
+    problems.push('ongeldige bedragen per maand');
+  }
+  if (s?.variableMrr != null && !(VARIABLE_MRR_METHODS.includes(s.variableMrr?.method) && Number.isInteger(s.variableMrr?.months) && s.variableMrr.months > 0)) {
+    problems.push('ongeldige MRR-instelling voor variabel');
+  }
+  if (!isDate(s?.startDate)) problems.push('ongeldige startdatum');
+  if (s?.cancelDate != null && !isDate(s.cancelDate)) problems.push('ongeldige einddatum');
+  if (s?.notes != null && typeof s.notes !== 'string') problems.push('notities moeten tekst zijn');
+  return problems;
+}
+
+/** Structural check of a current-version state; returns the problems found (empty = valid) */
+export function validateState(data: any): string[] {
+  const problems: string[] = [];
+  if (!data || typeof data !== 'object') return ['Geen gegevens gevonden'];
+  for (const key of ['companies', 'customers', 'products', 'subs', 'expenses', 'rates', 'invoices', 'payments', 'audit']) {
+    if (!Array.isArray(data[key])) problems.push(`"${key}" ontbreekt of is geen lijst`);
+  }
+  if (problems.length) return problems;
+
+  data.companies.forEach((c: any, i: number) => {
+    if (typeof c?.id !== 'string' || typeof c?.name !== 'string') problems.push(`Bedrijf ${i + 1}: id en naam zijn verplicht`);
+    if (c?.vatCode != null && !VAT_CODES.includes(c.vatCode)) problems.push(`Bedrijf ${i + 1}: onbekend btw-tarief "${c.vatCode}"`);
+    if (c?.paymentsFrom != null && !isMonth(c.paymentsFrom)) problems.push(`Bedrijf ${i + 1}: ongeldige startmaand voor betalingen`);
+    if (c?.proration != null && !PRORATION_POLICIES.includes(c.proration)) problems.push(`Bedrijf ${i + 1}: onbekende pro-ratamethode "${c.proration}"`);
+  });
+  data.customers.forEach((c: any, i: number) => {
+    if (typeof c?.id !== 'string' || typeof c?.name !== 'string') problems.push(`Klant ${i + 1}: id en naam zijn verplicht`);
+    if (!Array.isArray(c?.companyIds) || c.companyIds.some((id: unknown) => typeof id !== 'string')) problems.push(`Klant ${i + 1}: ongeldige bedrijfskoppelingen`);
+  });
+  const customerIds = new Set(data.customers.map((c: any) => c?.id));
+  data.products.forEach((p: any, i: number) => {
+    const label = `Product ${i + 1}${typeof p?.name === 'string' ? ` (${p.name})` : ''}`;
+    if (typeof p?.id !== 'string' || typeof p?.name !== 'string') problems.push(`${label}: id en naam zijn verplicht`);
+    if (typeof p?.price !== 'number' || !Number.isFinite(p.price)) problems.push(`${label}: ongeldige prijs`);
+    if (!BILLING_TYPES.includes(p?.billingType)) problems.push(`${label}: onbekend type "${p?.billingType}"`);
+    if (!CADENCES.includes(p?.cadence)) problems.push(`${label}: onbekende frequentie "${p?.cadence}"`);
+    if (p?.currency != null && !isCurrencyCode(p.currency)) problems.push(`${label}: onbekende valuta "${p.currency}"`);
+  });
+  const productIds = new Set(data.products.map((p: any) => p?.id));
+  data.subs.forEach((s: any, i: number) => {
+    const label = `Item ${i + 1}${typeof s?.customer === 'string' ? ` (${s.customer})` : ''}`;
+    if (typeof s?.id !== 'string') problems.push(`${label}: id ontbreekt`);
+    if (s?.productId != null && !productIds.has(s.productId)) problems.push(`${label}: onbekend product`);
+    if (s?.customerId != null && !customerIds.has(s.customerId)) problems.push(`${label}: onbekende klant`);
+    problems.push(...subscriptionProblems(s).map(p => `${label}: ${p}`));
+  });
+  data.expenses.forEach((e: any, i: number) => {
+    if (typeof e?.id !== 'string' || typeof e?.amount !== 'number' || !isDate(e?.date)) problems.push(`Uitgave ${i + 1}: id, bedrag en datum zijn verplicht`);
+  });
+  data.rates.forEach((r: any, i: number) => {
+    const valid = isMonth(r?.month) && isCurrencyCode(r?.currency) && typeof r?.rate === 'number' && r.rate > 0;
+    if (!valid) problems.push(`Wisselkoers ${i + 1}: maand, valuta en koers zijn verplicht`);
+  });
+  const subIds = new Set(data.subs.map((s: any) => s?.id));
+  data.payments.forEach((p: any, i: number) => {
+    const valid = typeof p?.id === 'string' && isMonth(p?.month) && typeof p?.amount === 'number' && Number.isFinite(p.amount) && isDate(p?.date);
+    if (!valid) problems.push(`Betaling ${i + 1}: id, maand, bedrag en datum zijn verplicht`);
+    if (!subIds.has(p?.subscriptionId)) problems.push(`Betaling ${i + 1}: onbekend item`);
+  });
+  const numbers = new Set<string>();
+  data.invoices.forEach((inv: any, i: number) => {
+    const label = `Factuur ${typeof inv?.number === 'string' ? inv.number : i + 1}`;
+    if (typeof inv?.id !== 'string' || typeof inv?.number !== 'string' || typeof inv?.customer !== 'string') problems.push(`${label}: id, nummer en klant zijn verplicht`);
+    if (!isMonth(inv?.period)) problems.push(`${label}: ongeldige periode`);
+    if (!isDate(inv?.issueDate) || !isDate(inv?.dueDate)) problems.push(`${label}: ongeldige factuur- of vervaldatum`);
+    if (!isCurrencyCode(inv?.currency)) problems.push(`${label}: onbekende valuta "${inv?.currency}"`);
+    if (!INVOICE_STATUSES.includes(inv?.status)) problems.push(`${label}: onbekende status "${inv?.status}"`);
+    const lineOk = (l: any) =>
+      typeof l?.description === 'string' && Number.isFinite(l?.quantity) && Number.isFinite(l?.unitPrice) && VAT_CODES.includes(l?.vatCode);
+    if (!Array.isArray(inv?.lines) || !inv.lines.every(lineOk)) problems.push(`${label}: ongeldige factuurregels`);
+    const key = `${inv?.companyId ?? ''}|${inv?.number}`;
+    if (numbers.has(key)) problems.push(`${label}: nummer komt dubbel voor`);
+    numbers.add(key);
+  });
+  data.audit.forEach((e: any, i: number) => {
+    const valid =
+      typeof e?.id === 'string' &&
+      typeof e?.at === 'string' &&
+      !Number.isNaN(Date.parse(e.at)) &&
+      typeof e?.user === 'string' &&
+      typeof e?.entityId === 'string' &&
+      AUDIT_ENTITIES.includes(e?.entity) &&
+      AUDIT_ACTIONS.includes(e?.action);
+    if (!valid) problems.push(`Historie ${i + 1}: id, tijdstip, gebruiker en onderdeel zijn verplicht`);
+    if (!Array.isArray(e?.changes) || e.changes.some((c: any) => typeof c?.field !== 'string')) problems.push(`Historie ${i + 1}: ongeldige wijzigingen`);
+  });
+  return problems;
+}
+
+/** Upgrade any stored or backed-up state to STATE_VERSION and validate the result */
+export function migrateState(raw: unknown): MigrationResult {
+  const unwrapped = unwrap(raw);
+  if (typeof unwrapped === 'string') return { ok: false, problems: [unwrapped] };
+  const { version, data } = unwrapped;
+  if (version > STATE_VERSION) {
+    return { ok: false, problems: [`Backup heeft versie ${version}, deze app ondersteunt t/m versie ${STATE_VERSION}`] };
+  }
+  let current = data;
+  try {
+    for (let v = version; v < STATE_VERSION; v++) current = UPGRADES[v](current);
+  } catch (err) {
+    return { ok: false, problems: [`Upgrade vanaf versie ${version} mislukt: ${(err as Error).message}`] };
+  }
+  const problems = validateState(current);
+  return problems.length ? { ok: false, problems } : { ok: true, data: current as RevenueState, fromVersion: version };
+}
@@ -0,0 +1,332 @@
+import { fxFactor, type Fx } from "./currency";
+import type { Cadence, Company, Discount, Expense, Subscription, VariableMrr } from "./types";
+
+// ------------------------------
+// Revenue calculations: months, billing schedule, cash/MRR/profit series
+// ------------------------------
+
+/** YYYY-MM of a date; yyyy-mm-dd strings keep their calendar month (new Date() would read them as UTC) */
+export function monthKey(d: Date | string) {
+  if (typeof d === "string") return d.slice(0, 7);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`; // YYYY-MM
+}
+
+export function monthsBetweenInclusive(startYYYYMM: string, endYYYYMM: string) {
+  const [sy, sm] = startYYYYMM.split("-").map(Number);
+  const [ey, em] = endYYYYMM.split("-").map(Number);
+  const cur = new Date(sy, sm - 1, 1);
+  const last = new Date(ey, em - 1, 1);
+  const out: string[] = [];
+  while (cur <= last) {
+    out.push(`${cur.getFullYear()}-${String(cur.getMonth() + 1).padStart(2, "0")}`);
+    cur.setMonth(cur.getMonth() + 1);
+  }
+  return out;
+}
+
+/** Move a YYYY-MM key by `delta` months (negative = back in time) */
+export function shiftMonth(mk: string, delta: number) {
+  const [y, m] = mk.split("-").map(Number);
+  const d = new Date(y, m - 1 + delta, 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
+export function isActiveInMonth(sub: Subscription, year: number, month: number) {
+  if (sub.billingType === "onetime") {
+    const mk = `${year}-${String(month).padStart(2, "0")}`;
+    return mk === monthKey(sub.startDate);
+  }
+  if (sub.billingType === "variable") {
+    const mk = `${year}-${String(month).padStart(2, "0")}`;
+    return !!sub.variableAmounts && sub.variableAmounts[mk] != null;
+  }
+  const mk = `${year}-${String(month).padStart(2, "0")}`;
+  const activeStart = monthKey(sub.startDate) <= mk;
+  const activeEnd = !sub.cancelDate || monthKey(sub.cancelDate) >= mk;
+  return activeStart && activeEnd;
+}
+
+const CADENCE_MONTHS: Record<Exclude<Cadence, "weekly" | "custom">, number> = { monthly: 1, quarterly: 3, halfyearly: 6, yearly: 12 };
+
+/** Months between two charges of a recurring item; null for weekly billing */
+export function intervalMonthsOf(sub: Pick<Subscription, "cadence" | "intervalMonths">): number | null {
+  if (sub.cadence === "weekly") return null;
+  if (sub.cadence === "custom") return Math.max(1, Math.round(sub.intervalMonths ?? 1));
+  return CADENCE_MONTHS[sub.cadence];
+}
+
+// Day number (UTC, DST-proof) of a yyyy-mm-dd string
+const dayNumber = (iso: string) => {
+  const [y, m, d] = iso.slice(0, 10).split("-").map(Number);
+  return Date.UTC(y, m - 1, d) / 86_400_000;
+};
+
+/** Weekly charges in a month: every 7 days from the anchor date, between start and cancel date */
+function weeklyChargesInMonth(sub: Subscription, mk: string) {
+  const [y, m] = mk.split("-").map(Number);
+  const first = Date.UTC(y, m - 1, 1) / 86_400_000;
+  const last = Date.UTC(y, m, 0) / 86_400_000;
+  const from = Math.max(first, dayNumber(sub.startDate));
+  const to = Math.min(last, sub.cancelDate ? dayNumber(sub.cancelDate) : last);
+  if (from > to) return 0;
+  const anchor = dayNumber(sub.anchorDate || sub.startDate);
+  const firstCharge = from + ((((anchor - from) % 7) + 7) % 7);
+  return firstCharge > to ? 0 : Math.floor((to - firstCharge) / 7) + 1;
+}
+
+/** Items with the proration policy of their company; without one (or "none") items are charged in full */
+export function withProration(subs: Subscription[], companies: Company[]): Subscription[] {
+  const policies = new Map(companies.map((c) => [c.id, c.proration]));
+  return subs.map((sub) => {
+    const policy = sub.companyId ? policies.get(sub.companyId) : undefined;
+    return policy && policy !== "none" ? { ...sub, proration: policy } : sub;
+  });
+}
+
+const isProrated = (sub: Subscription) => sub.billingType === "recurring" && !!sub.proration && sub.proration !== "none";
+
+// Day number of `day` in a YYYY-MM month, clamped to the month's last day
+const dayInMonth = (mk: string, day: number) => {
+  const [y, m] = mk.split("-").map(Number);
+  return Date.UTC(y, m - 1, Math.min(day, new Date(y, m, 0).getDate())) / 86_400_000;
+};
+
+// Charged share (0–1) of the days from..to (`to` exclusive) between start and cancel date (inclusive)
+function proratedShare(sub: Subscription, from: number, to: number) {
+  const start = Math.max(from, dayNumber(sub.startDate));
+  const end = Math.min(to, sub.cancelDate ? dayNumber(sub.cancelDate) + 1 : to);
+  const share = Math.max(0, end - start) / (to - from);
+  return sub.proration === "halfmonth" ? (share >= 0.5 ? 1 : 0) : share;
+}
+
+/**
+ * Share (0–1) of a charge billed in `mk` that is charged under the item's proration policy: its
+ * billing period runs one interval from the anchor day, month by month, and only the part between
+ * start and cancel date counts, so a mid-period cancellation credits the rest. 1 without proration
+ * and for weekly items (those already bill per charge date).
+ */
+export function chargeShare(sub: Subscription, mk: string) {
+  const interval = intervalMonthsOf(sub);
+  if (!isProrated(sub) || interval == null) return 1;
+  const day = Number((sub.anchorDate || sub.startDate).slice(8, 10));
+  let total = 0;
+  for (let i = 0; i < interval; i++) total += proratedShare(sub, dayInMonth(shiftMonth(mk, i), day), dayInMonth(shiftMonth(mk, i + 1), day));
+  return total / interval;
+}
+
+/** Share (0–1) of a calendar month an item counts in MRR under its proration policy; 1 without proration */
+export function monthShare(sub: Subscription, mk: string) {
+  return isProrated(sub) ? proratedShare(sub, dayInMonth(mk, 1), dayInMonth(shiftMonth(mk, 1), 1)) : 1;
+}
+
+/**
+ * Cash charges per month in the range (month -> number of charges).
+ * Every-N-months cadences bill in the anchor month and each N months after it;
+ * weekly items can bill 4 or 5 times in a month. Prorated charges count as a fraction
+ * (see chargeShare); months whose charge is prorated away are left out.
+ */
+export function billMonthsCash(sub: Subscription, fromYYYYMM: string, toYYYYMM: string) {
+  const out = new Map<string, number>();
+  const months = monthsBetweenInclusive(fromYYYYMM, toYYYYMM);
+
+  if (sub.billingType === "onetime") {
+    const mk = monthKey(sub.startDate);
+    if (months.includes(mk)) out.set(mk, 1);
+    return out;
+  }
+
+  if (sub.billingType === "variable") {
+    for (const mk of months) {
+      if (sub.variableAmounts && sub.variableAmounts[mk] != null) out.set(mk, 1);
+    }
+    return out;
+  }
+
+  // Recurring: weekly -> each charge date; every N months -> active months in step with the anchor month
+  const interval = intervalMonthsOf(sub);
+  const [ay, am] = monthKey(sub.anchorDate || sub.startDate).split("-").map(Number);
+  for (const mk of months) {
+    const [y, m] = mk.split("-").map(Number);
+    if (!isActiveInMonth(sub, y, m)) continue;
+    if (interval == null) {
+      const n = weeklyChargesInMonth(sub, mk);
+      if (n > 0) out.set(mk, n);
+      continue;
+    }
+    const diff = (y - ay) * 12 + (m - am);
+    if (((diff % interval) + interval) % interval !== 0) continue;
+    const share = chargeShare(sub, mk);
+    if (share > 0) out.set(mk, share);
+  }
+  return out;
+}
+
+/** Price valid in a YYYY-MM month: the last change effective in or before that month, else the start price */
+export function priceInMonth(sub: Subscription, mk: string) {
+  let price = sub.price;
+  let since = "";
+  for (const change of sub.priceChanges ?? []) {
+    if (change.effectiveDate.slice(0, 7) <= mk && change.effectiveDate >= since) {
+      price = change.price;
+      since = change.effectiveDate;
+    }
+  }
+  return price;
+}
+
+/** Price charged now (current month) */
+export function currentPrice(sub: Subscription, today: Date = new Date()) {
+  return priceInMonth(sub, monthKey(today));
+}
+
+/**
+ * Last YYYY-MM month of a discount (null = open-ended). Billing cycles count the charges from the first
+ * billing month on or after the discount start and last until the end of the period they cover;
+ * weekly cycles count 7 days each.
+ */
+export function discountEndMonth(sub: Subscription, discount: Discount): string | null {
+  if (discount.endDate) return discount.endDate.slice(0, 7);
+  if (!discount.cycles) return null;
+  const start = discount.startDate || sub.startDate;
+  const interval = intervalMonthsOf(sub);
+  if (sub.billingType !== "recurring") return start.slice(0, 7);
+  if (interval == null) {
+    const [y, m, d] = start.split("-").map(Number);
+    return new Date(Date.UTC(y, m - 1, d + discount.cycles * 7 - 1)).toISOString().slice(0, 7);
+  }
+  const from = start.slice(0, 7);
+  const [fy, fm] = from.split("-").map(Number);
+  const [ay, am] = (sub.anchorDate || sub.startDate).slice(0, 7).split("-").map(Number);
+  const offset = (((ay - fy) * 12 + (am - fm)) % interval + interval) % interval;
+  return shiftMonth(from, offset + discount.cycles * interval - 1);
+}
+
+/** Discounts that apply to the charges of a YYYY-MM month */
+export function activeDiscounts(sub: Subscription, mk: string) {
+  return (sub.discounts ?? []).filter((d) => {
+    const end = discountEndMonth(sub, d);
+    return (d.startDate || sub.startDate).slice(0, 7) <= mk && (end == null || mk <= end);
+  });
+}
+
+/** Price after the discounts of the month: percentages first, then fixed amounts, never below 0 */
+export function effectivePrice(sub: Subscription, mk: string) {
+  const discounts = activeDiscounts(sub, mk);
+  let price = priceInMonth(sub, mk);
+  for (const d of discounts) if (d.kind === "percent") price *= 1 - d.value / 100;
+  for (const d of discounts) if (d.kind === "fixed") price -= d.value;
+  return Math.max(0, price);
+}
+
+/**
+ * Variable income normalized into MRR, following the item's `variableMrr` setting (0 when off):
+ * the average or median of the trailing window (months without an amount count as 0) or the last
+ * amount in it. The window starts no earlier than the start month; nothing after the cancel month.
+ */
+export function variableMRR(sub: Subscription, mk: string) {
+  const setting = sub.variableMrr;
+  if (!setting || setting.method === "off") return 0;
+  const start = monthKey(sub.startDate);
+  if (mk < start || (sub.cancelDate && mk > monthKey(sub.cancelDate))) return 0;
+  const from = shiftMonth(mk, -(Math.max(1, setting.months) - 1));
+  const window = monthsBetweenInclusive(from > start ? from : start, mk);
+  const filled = window.filter((k) => sub.variableAmounts?.[k] != null);
+  if (filled.length === 0) return 0;
+  if (setting.method === "last") return sub.variableAmounts![filled[filled.length - 1]];
+  const values = window.map((k) => sub.variableAmounts?.[k] ?? 0);
+  if (setting.method === "median") {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  }
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/** Items with the global variable-MRR setting applied where an item has no setting of its own */
+export function withVariableMrr(subs: Subscription[], setting: VariableMrr): Subscription[] {
+  return subs.map((sub) => (sub.billingType === "variable" && !sub.variableMrr ? { ...sub, variableMrr: setting } : sub));
+}
+
+export function monthlyMRR(sub: Subscription, mk: string = monthKey(new Date())) {
+  if (sub.billingType === "onetime") return 0; // excluded from MRR by default
+  if (sub.billingType === "variable") return variableMRR(sub, mk); // 0 unless normalized into MRR
+  const price = effectivePrice(sub, mk);
+  const interval = intervalMonthsOf(sub);
+  return interval == null ? (price * 52) / 12 : price / interval;
+}
+
+/** MRR contribution of one item in a YYYY-MM month (0 when not active), in the reporting currency when `fx` is given */
+export function mrrInMonth(sub: Subscription, mk: string, fx?: Fx) {
+  const [y, m] = mk.split("-").map(Number);
+  // Normalized variable income also counts in months without an amount of their own
+  const active = sub.billingType === "variable" || isActiveInMonth(sub, y, m);
+  return active ? monthlyMRR(sub, mk) * monthShare(sub, mk) * fxFactor(sub.currency, mk, fx) : 0;
+}
+
+/** Unrounded cash or MRR per month (YYYY-MM -> amount); amounts are converted to `fx.to` with the rate of each month */
+export function seriesTotals(
+  subs: Subscription[],
+  mode: "cash" | "mrr",
+  months: string[],
+  fx?: Fx
+): Record<string, number> {
+  const map: Record<string, number> = Object.fromEntries(months.map((k) => [k, 0]));
+  for (const sub of subs) {
+    if (mode === "cash") {
+      if (sub.billingType === "variable") {
+        for (const mk of months) {
+          const v = sub.variableAmounts?.[mk];
+          if (v != null) map[mk] += v * fxFactor(sub.currency, mk, fx);
+        }
+        continue;
+      }
+      const charges = billMonthsCash(sub, months[0], months[months.length - 1]);
+      for (const [mk, n] of charges) if (mk in map) map[mk] += effectivePrice(sub, mk) * n * fxFactor(sub.currency, mk, fx);
+    } else {
+      // Variable items only count when normalized into MRR (variableMrr)
+      for (const mk of months) map[mk] += mrrInMonth(sub, mk, fx);
+    }
+  }
+  return map;
+}
+
+export function calcSeries(
+  subs: Subscription[],
+  mode: "cash" | "mrr",
+  months: string[],
+  fx?: Fx
+) {
+  const map = seriesTotals(subs, mode, months, fx);
+  // Integer bars for visual cleanliness (keep existing behavior)
+  return months.map((mk) => ({ month: mk, amount: Math.round(map[mk]) }));
+}
+
+/** Proration per month: prorated minus full amounts (negative = credited), rounded; 0 without proration */
+export function prorationSeries(subs: Subscription[], mode: "cash" | "mrr", months: string[], fx?: Fx) {
+  const prorated = subs.filter(isProrated);
+  const actual = seriesTotals(prorated, mode, months, fx);
+  const full = seriesTotals(prorated.map((sub) => ({ ...sub, proration: "none" as const })), mode, months, fx);
+  return months.map((mk) => ({ month: mk, amount: Math.round(actual[mk] - full[mk]) }));
+}
+
+/** Expenses per month; they are entered in the base currency */
+export function calcExpenseSeries(expenses: Expense[], months: string[], fx?: Fx) {
+  const map: Record<string, number> = Object.fromEntries(months.map((k) => [k, 0]));
+  for (const e of expenses) {
+    const mk = monthKey(e.date);
+    if (mk in map) map[mk] += e.amount * fxFactor(undefined, mk, fx);
+  }
+  return months.map((mk) => ({ month: mk, amount: Math.round(map[mk]) }));
+}
+
+/** Profit per month = cash revenue minus expenses (can be negative) */
+export function calcProfitSeries(subs: Subscription[], expenses: Expense[], months: string[], fx?: Fx) {
+  const revenue = calcSeries(subs, "cash", months, fx);
+  const costs = calcExpenseSeries(expenses, months, fx);
+  return months.map((mk, i) => ({ month: mk, amount: revenue[i].amount - costs[i].amount }));
+}
+
+/** Margin as a fraction of revenue; null when there is no revenue to divide by */
+export function marginOf(revenue: number, profit: number) {
+  return revenue > 0 ? profit / revenue : null;
+}
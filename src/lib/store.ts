@@ -0,0 +1,680 @@
+import { AUDIT_LIMIT, type AuditDraft } from './audit';
+import { mergeRates } from './currency';
+import { linkCustomers } from './customers';
+import { resolveCompanyId, type ImportBatch } from './import';
+import { assertNoSentInvoices, assertSavable, type InvoiceDraft } from './invoices';
+import { migrateState, toEnvelope } from './persistence';
+import type { AuditEntry, Company, Customer, ExchangeRate, Expense, Invoice, Payment, Product, Subscription } from './types';
+
+// ------------------------------
+// Storage backends for the App: localStorage, Postgres (through the HTTP API) and in-memory
+// ------------------------------
+
+export type RevenueState = {
+  companies: Company[];
+  customers: Customer[];
+  products: Product[];
+  subs: Subscription[];
+  payments: Payment[];
+  expenses: Expense[];
+  rates: ExchangeRate[];
+  invoices: Invoice[];
+  audit: AuditEntry[]; // newest first
+};
+
+export type StoreKind = 'local' | 'postgres' | 'memory';
+
+export type CompanyPatch = Partial<Omit<Company, 'id'>>;
+export type CustomerInput = Omit<Customer, 'id'>;
+export type CustomerPatch = Partial<CustomerInput>;
+export type ProductInput = Omit<Product, 'id'>;
+export type ProductPatch = Partial<ProductInput>;
+export type SubscriptionInput = Omit<Subscription, 'id'>;
+export type SubscriptionPatch = Partial<SubscriptionInput>;
+export type PaymentInput = Omit<Payment, 'id'>;
+export type PaymentPatch = Partial<PaymentInput>;
+export type ExpenseInput = Omit<Expense, 'id'>;
+export type ExpensePatch = Partial<ExpenseInput>;
+export type InvoicePatch = Partial<Pick<Invoice, 'status' | 'issueDate' | 'dueDate'>>;
+
+export interface RevenueStore {
+  readonly kind: StoreKind;
+  load(): Promise<RevenueState>;
+  addCompany(name: string): Promise<Company>;
+  updateCompany(id: string, patch: CompanyPatch): Promise<Company>;
+  /** Refused while the company has sent invoices; its products, expenses and draft invoices are deleted with it */
+  deleteCompany(id: string): Promise<void>;
+  addCustomer(data: CustomerInput): Promise<Customer>;
+  /** Renaming a customer renames the customer of every linked item */
+  updateCustomer(id: string, patch: CustomerPatch): Promise<Customer>;
+  /** Linked items keep their customer name and are unlinked */
+  deleteCustomer(id: string): Promise<void>;
+  /** Move the items of `duplicateIds` to `targetId` and delete the duplicates */
+  mergeCustomers(targetId: string, duplicateIds: string[]): Promise<void>;
+  addProduct(data: ProductInput): Promise<Product>;
+  /** Renaming a product renames the plan of every linked item */
+  updateProduct(id: string, patch: ProductPatch): Promise<Product>;
+  /** Linked items keep their plan name and are unlinked */
+  deleteProduct(id: string): Promise<void>;
+  /** Without a customerId the item is linked to the customer with the same name (created when missing) */
+  addSubscription(data: SubscriptionInput): Promise<Subscription>;
+  updateSubscription(id: string, patch: SubscriptionPatch): Promise<Subscription>;
+  /** Also removes the item's payments */
+  deleteSubscription(id: string): Promise<void>;
+  addPayment(data: PaymentInput): Promise<Payment>;
+  updatePayment(id: string, patch: PaymentPatch): Promise<Payment>;
+  deletePayment(id: string): Promise<void>;
+  addExpense(data: ExpenseInput): Promise<Expense>;
+  updateExpense(id: string, patch: ExpensePatch): Promise<Expense>;
+  deleteExpense(id: string): Promise<void>;
+  /** Add or replace exchange rates (one per month and currency) */
+  saveRates(rates: ExchangeRate[]): Promise<void>;
+  deleteRate(month: string, currency: string): Promise<void>;
+  /** Store generated invoices: drafts without an id are added, the others replace the stored invoice */
+  saveInvoices(invoices: InvoiceDraft[]): Promise<Invoice[]>;
+  updateInvoice(id: string, patch: InvoicePatch): Promise<Invoice>;
+  deleteInvoice(id: string): Promise<void>;
+  /** Record a change: entries without an id are added, the others replace the stored entry (coalesced edits) */
+  saveAuditEntry(entry: AuditDraft): Promise<AuditEntry>;
+  /** Create the missing companies and all subscriptions of a CSV import at once */
+  importBatch(batch: ImportBatch): Promise<void>;
+  /** Replace everything with a restored backup */
+  replaceAll(state: RevenueState): Promise<void>;
+}
+
+const uid = () => Math.random().toString(36).slice(2) + Date.now().toString(36);
+
+// Stable key holding a versioned envelope; schema changes are handled by upgrades in persistence.ts
+export const STORAGE_KEY = 'income-tracker-data';
+// Pre-envelope key (state version 1), read once and upgraded
+const LEGACY_STORAGE_KEY = 'income-tracker-data-v6';
+// Unreadable data found at startup, suffixed with the time it was set aside
+const UNREADABLE_PREFIX = `${STORAGE_KEY}-unreadable-`;
+
+function loadState(): RevenueState | null {
+  let raw: string | null = null;
+  try {
+    raw = localStorage.getItem(STORAGE_KEY) ?? localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!raw) return null;
+    const result = migrateState(JSON.parse(raw));
+    if (result.ok) return result.data;
+    console.error('Stored state could not be read:', result.problems);
+  } catch (err) {
+    console.error('Stored state could not be read:', err);
+  }
+  // Keep unreadable data aside instead of overwriting it with the seed; the App offers it for export and restore
+  try {
+    if (raw) localStorage.setItem(`${UNREADABLE_PREFIX}${Date.now()}`, raw);
+  } catch {}
+  return null;
+}
+
+/** Stored data that could not be read at startup, kept under its own key (newest first) */
+export type UnreadableState = { key: string; savedAt: Date; raw: string };
+
+export function unreadableStates(): UnreadableState[] {
+  const out: UnreadableState[] = [];
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      const raw = key?.startsWith(UNREADABLE_PREFIX) ? localStorage.getItem(key) : null;
+      if (key && raw) out.push({ key, savedAt: new Date(Number(key.slice(UNREADABLE_PREFIX.length))), raw });
+    }
+  } catch {}
+  return out.sort((a, b) => b.savedAt.getTime() - a.savedAt.getTime());
+}
+
+export function discardUnreadableState(key: string) {
+  try {
+    localStorage.removeItem(key);
+  } catch {}
+}
+
+// A full quota (or blocked storage) is reported to the caller instead of losing the change silently
+function saveState(state: RevenueState) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(toEnvelope(state)));
+  } catch (err) {
+    throw new Error('opslaan in de browser is mislukt (' + (err as Error).message + ')');
+  }
+}
+
+// In-memory store; `onChange` lets other stores persist every mutation
+export function createMemoryStore(initial: RevenueState, onChange?: (state: RevenueState) => void): RevenueStore {
+  let state: RevenueState = {
+    companies: [...initial.companies],
+    customers: [...initial.customers],
+    products: [...initial.products],
+    subs: [...initial.subs],
+    payments: [...initial.payments],
+    expenses: [...initial.expenses],
+    rates: [...initial.rates],
+    invoices: [...initial.invoices],
+    audit: initial.audit.slice(0, AUDIT_LIMIT)
+  };
+
+  // Persisted first: when saving fails the change is not applied and the error reaches the caller
+  const commit = (next: RevenueState) => {
+    onChange?.(next);
+    state = next;
+  };
+
+  const findSub = (id: string) => {
+    const sub = state.subs.find(s => s.id === id);
+    if (!sub) throw new Error(`Subscription ${id} not found`);
+    return sub;
+  };
+
+  const findPayment = (id: string) => {
+    const payment = state.payments.find(p => p.id === id);
+    if (!payment) throw new Error(`Payment ${id} not found`);
+    return payment;
+  };
+
+  const findExpense = (id: string) => {
+    const expense = state.expenses.find(e => e.id === id);
+    if (!expense) throw new Error(`Expense ${id} not found`);
+    return expense;
+  };
+
+  return {
+    kind: 'memory',
+
+    async load() {
+      return state;
+    },
+
+    async addCompany(name) {
+      const company: Company = { id: uid(), name };
+      commit({ ...state, companies: [...state.companies, company] });
+      return company;
+    },
+
+    async updateCompany(id, patch) {
+      const current = state.companies.find(c => c.id === id);
+      if (!current) throw new Error(`Company ${id} not found`);
+      const company: Company = { ...current, ...patch };
+      commit({ ...state, companies: state.companies.map(c => (c.id === id ? company : c)) });
+      return company;
+    },
+
+    async deleteCompany(id) {
+      // Same semantics as the database: refused while it has sent invoices; subscriptions are unlinked,
+      // products, expenses and draft invoices are removed
+      assertNoSentInvoices(state.invoices, id);
+      const removed = new Set(state.products.filter(p => p.companyId === id).map(p => p.id));
+      commit({
+        ...state,
+        companies: state.companies.filter(c => c.id !== id),
+        customers: state.customers.map(c => ({ ...c, companyIds: c.companyIds.filter(companyId => companyId !== id) })),
+        products: state.products.filter(p => p.companyId !== id),
+        subs: state.subs.map(s => ({
+          ...s,
+          companyId: s.companyId === id ? null : s.companyId,
+          productId: s.productId && removed.has(s.productId) ? null : s.productId
+        })),
+        expenses: state.expenses.filter(e => e.companyId !== id),
+        invoices: state.invoices.filter(inv => inv.companyId !== id)
+      });
+    },
+
+    async addCustomer(data) {
+      const customer: Customer = { ...data, id: uid() };
+      commit({ ...state, customers: [...state.customers, customer] });
+      return customer;
+    },
+
+    async updateCustomer(id, patch) {
+      const current = state.customers.find(c => c.id === id);
+      if (!current) throw new Error(`Customer ${id} not found`);
+      const customer: Customer = { ...current, ...patch };
+      commit({
+        ...state,
+        customers: state.customers.map(c => (c.id === id ? customer : c)),
+        subs: state.subs.map(s => (s.customerId === id ? { ...s, customer: customer.name } : s))
+      });
+      return customer;
+    },
+
+    async deleteCustomer(id) {
+      commit({
+        ...state,
+        customers: state.customers.filter(c => c.id !== id),
+        subs: state.subs.map(s => (s.customerId === id ? { ...s, customerId: undefined } : s)),
+        invoices: state.invoices.map(inv => (inv.customerId === id ? { ...inv, customerId: null } : inv))
+      });
+    },
+
+    async mergeCustomers(targetId, duplicateIds) {
+      const target = state.customers.find(c => c.id === targetId);
+      if (!target) throw new Error(`Customer ${targetId} not found`);
+      const duplicates = state.customers.filter(c => c.id !== targetId && duplicateIds.includes(c.id));
+      const merged: Customer = {
+        ...target,
+        email: target.email || duplicates.find(c => c.email)?.email,
+        phone: target.phone || duplicates.find(c => c.phone)?.phone,
+        companyIds: [...new Set([...target.companyIds, ...duplicates.flatMap(c => c.companyIds)])]
+      };
+      const removed = new Set(duplicates.map(c => c.id));
+      commit({
+        ...state,
+        customers: state.customers.filter(c => !removed.has(c.id)).map(c => (c.id === targetId ? merged : c)),
+        subs: state.subs.map(s => (s.customerId && removed.has(s.customerId) ? { ...s, customerId: targetId, customer: merged.name } : s)),
+        invoices: state.invoices.map(inv => (inv.customerId && removed.has(inv.customerId) ? { ...inv, customerId: targetId } : inv))
+      });
+    },
+
+    async addProduct(data) {
+      const product: Product = { ...data, id: uid() };
+      commit({ ...state, products: [...state.products, product] });
+      return product;
+    },
+
+    async updateProduct(id, patch) {
+      const current = state.products.find(p => p.id === id);
+      if (!current) throw new Error(`Product ${id} not found`);
+      const product: Product = { ...current, ...patch };
+      commit({
+        ...state,
+        products: state.products.map(p => (p.id === id ? product : p)),
+        subs: state.subs.map(s => (s.productId === id ? { ...s, planName: product.name } : s))
+      });
+      return product;
+    },
+
+    async deleteProduct(id) {
+      commit({
+        ...state,
+        products: state.products.filter(p => p.id !== id),
+        subs: state.subs.map(s => (s.productId === id ? { ...s, productId: null } : s))
+      });
+    },
+
+    async addSubscription(data) {
+      const { customers, subs: [sub] } = linkCustomers(state.customers, [{ ...data, id: uid() }], uid);
+      commit({ ...state, customers, subs: [sub, ...state.subs] });
+      return sub;
+    },
+
+    async updateSubscription(id, patch) {
+      const sub: Subscription = { ...findSub(id), ...patch };
+      commit({ ...state, subs: state.subs.map(s => (s.id === id ? sub : s)) });
+      return sub;
+    },
+
+    async deleteSubscription(id) {
+      // Invoice lines keep their text and amounts but lose the link to the item
+      commit({
+        ...state,
+        subs: state.subs.filter(s => s.id !== id),
+        payments: state.payments.filter(p => p.subscriptionId !== id),
+        invoices: state.invoices.map(inv =>
+          inv.lines.some(l => l.subscriptionId === id)
+            ? { ...inv, lines: inv.lines.map(l => (l.subscriptionId === id ? { ...l, subscriptionId: null } : l)) }
+            : inv
+        )
+      });
+    },
+
+    async addPayment(data) {
+      const payment: Payment = { ...data, id: uid() };
+      commit({ ...state, payments: [payment, ...state.payments] });
+      return payment;
+    },
+
+    async updatePayment(id, patch) {
+      const payment: Payment = { ...findPayment(id), ...patch };
+      commit({ ...state, payments: state.payments.map(p => (p.id === id ? payment : p)) });
+      return payment;
+    },
+
+    async deletePayment(id) {
+      commit({ ...state, payments: state.payments.filter(p => p.id !== id) });
+    },
+
+    async addExpense(data) {
+      const expense: Expense = { ...data, id: uid() };
+      commit({ ...state, expenses: [expense, ...state.expenses] });
+      return expense;
+    },
+
+    async updateExpense(id, patch) {
+      const expense: Expense = { ...findExpense(id), ...patch };
+      commit({ ...state, expenses: state.expenses.map(e => (e.id === id ? expense : e)) });
+      return expense;
+    },
+
+    async deleteExpense(id) {
+      commit({ ...state, expenses: state.expenses.filter(e => e.id !== id) });
+    },
+
+    async saveRates(rates) {
+      commit({ ...state, rates: mergeRates(state.rates, rates) });
+    },
+
+    async deleteRate(month, currency) {
+      commit({ ...state, rates: state.rates.filter(r => !(r.month === month && r.currency === currency)) });
+    },
+
+    async saveInvoices(drafts) {
+      assertSavable(state.invoices, drafts);
+      const saved: Invoice[] = drafts.map(d => ({ ...d, id: d.id ?? uid() }));
+      const byId = new Map(saved.map(inv => [inv.id, inv]));
+      const kept = state.invoices.map(inv => byId.get(inv.id) ?? inv);
+      const added = saved.filter(inv => !state.invoices.some(existing => existing.id === inv.id));
+      commit({ ...state, invoices: [...kept, ...added] });
+      return saved;
+    },
+
+    async updateInvoice(id, patch) {
+      const current = state.invoices.find(inv => inv.id === id);
+      if (!current) throw new Error(`Invoice ${id} not found`);
+      const invoice: Invoice = { ...current, ...patch };
+      commit({ ...state, invoices: state.invoices.map(inv => (inv.id === id ? invoice : inv)) });
+      return invoice;
+    },
+
+    async deleteInvoice(id) {
+      commit({ ...state, invoices: state.invoices.filter(inv => inv.id !== id) });
+    },
+
+    async saveAuditEntry(draft) {
+      const entry: AuditEntry = { ...draft, id: draft.id ?? uid() };
+      const stored = state.audit.some(e => e.id === entry.id);
+      commit({ ...state, audit: stored ? state.audit.map(e => (e.id === entry.id ? entry : e)) : [entry, ...state.audit].slice(0, AUDIT_LIMIT) });
+      return entry;
+    },
+
+    async importBatch(batch) {
+      const companies = [...state.companies, ...batch.companyNames.map(name => ({ id: uid(), name }))];
+      const imported: Subscription[] = batch.subs.map(({ companyName, ...sub }) => ({
+        ...sub,
+        id: uid(),
+        companyId: resolveCompanyId(companies, companyName)
+      }));
+      const { customers, subs } = linkCustomers(state.customers, imported, uid);
+      commit({ ...state, companies, customers, subs: [...subs, ...state.subs] });
+    },
+
+    async replaceAll(next) {
+      commit({
+        companies: [...next.companies],
+        customers: [...next.customers],
+        products: [...next.products],
+        subs: [...next.subs],
+        payments: [...next.payments],
+        expenses: [...next.expenses],
+        rates: [...next.rates],
+        invoices: [...next.invoices],
+        audit: [...next.audit]
+      });
+    }
+  };
+}
+
+// Browser localStorage under STORAGE_KEY; falls back to `initial` when nothing is stored yet
+export function createLocalStorageStore(initial: RevenueState): RevenueStore {
+  return { ...createMemoryStore(loadState() || initial, saveState), kind: 'local' };
+}
+
+// Postgres through businessOperations/subscriptionOperations, for the API server (src/server). The operations
+// are imported lazily so the database connection is only created when this backend is selected.
+export function createDatabaseStore(): RevenueStore {
+  const ops = () => import('./database-operations');
+
+  const toCompany = (business: {
+    id: number;
+    name: string;
+    vat_code?: Company['vatCode'] | null;
+    payments_from?: string | null;
+    proration?: Company['proration'];
+  }): Company => ({
+    id: business.id.toString(),
+    name: business.name,
+    vatCode: business.vat_code ?? undefined,
+    paymentsFrom: business.payments_from ?? undefined,
+    proration: business.proration && business.proration !== 'none' ? business.proration : undefined
+  });
+
+  return {
+    kind: 'postgres',
+
+    async load() {
+      const { businessOperations, customerOperations, productOperations, subscriptionOperations, paymentOperations, expenseOperations, rateOperations, invoiceOperations, auditOperations } =
+        await ops();
+      const [businesses, customers, products, subs, payments, expenses, rates, invoices, audit] = await Promise.all([
+        businessOperations.getAll(),
+        customerOperations.getAll(),
+        productOperations.getAll(),
+        subscriptionOperations.getAll(),
+        paymentOperations.getAll(),
+        expenseOperations.getAll(),
+        rateOperations.getAll(),
+        invoiceOperations.getAll(),
+        auditOperations.getAll()
+      ]);
+      return { companies: businesses.map(toCompany), customers, products, subs, payments, expenses, rates, invoices, audit };
+    },
+
+    async addCompany(name) {
+      const { businessOperations } = await ops();
+      return toCompany(await businessOperations.create(name));
+    },
+
+    // A tariff or policy that is cleared (undo back to "not set") is stored as the default
+    async updateCompany(id, patch) {
+      const { businessOperations } = await ops();
+      return toCompany(
+        await businessOperations.update(parseInt(id, 10), {
+          name: patch.name,
+          vat_code: 'vatCode' in patch ? patch.vatCode ?? 'standard' : undefined,
+          proration: 'proration' in patch ? patch.proration ?? 'none' : undefined,
+          ...('paymentsFrom' in patch ? { payments_from: patch.paymentsFrom ?? null } : {})
+        })
+      );
+    },
+
+    async deleteCompany(id) {
+      const { businessOperations } = await ops();
+      await businessOperations.delete(parseInt(id, 10));
+    },
+
+    async addCustomer(data) {
+      const { customerOperations } = await ops();
+      return customerOperations.create(data);
+    },
+
+    async updateCustomer(id, patch) {
+      const { customerOperations } = await ops();
+      return customerOperations.update(id, patch);
+    },
+
+    async deleteCustomer(id) {
+      const { customerOperations } = await ops();
+      await customerOperations.delete(id);
+    },
+
+    async mergeCustomers(targetId, duplicateIds) {
+      const { customerOperations } = await ops();
+      await customerOperations.merge(targetId, duplicateIds);
+    },
+
+    async addProduct(data) {
+      const { productOperations } = await ops();
+      return productOperations.create(data);
+    },
+
+    async updateProduct(id, patch) {
+      const { productOperations } = await ops();
+      return productOperations.update(id, patch);
+    },
+
+    async deleteProduct(id) {
+      const { productOperations } = await ops();
+      await productOperations.delete(id);
+    },
+
+    async addSubscription(data) {
+      const { subscriptionOperations } = await ops();
+      return subscriptionOperations.create(data);
+    },
+
+    async updateSubscription(id, patch) {
+      const { subscriptionOperations } = await ops();
+      return subscriptionOperations.update(id, patch);
+    },
+
+    async deleteSubscription(id) {
+      const { subscriptionOperations } = await ops();
+      await subscriptionOperations.delete(id);
+    },
+
+    async addPayment(data) {
+      const { paymentOperations } = await ops();
+      return paymentOperations.create(data);
+    },
+
+    async updatePayment(id, patch) {
+      const { paymentOperations } = await ops();
+      return paymentOperations.update(id, patch);
+    },
+
+    async deletePayment(id) {
+      const { paymentOperations } = await ops();
+      await paymentOperations.delete(id);
+    },
+
+    async addExpense(data) {
+      const { expenseOperations } = await ops();
+      return expenseOperations.create(data);
+    },
+
+    async updateExpense(id, patch) {
+      const { expenseOperations } = await ops();
+      return expenseOperations.update(id, patch);
+    },
+
+    async deleteExpense(id) {
+      const { expenseOperations } = await ops();
+      await expenseOperations.delete(id);
+    },
+
+    async saveRates(rates) {
+      const { rateOperations } = await ops();
+      await rateOperations.upsert(rates);
+    },
+
+    async deleteRate(month, currency) {
+      const { rateOperations } = await ops();
+      await rateOperations.delete(month, currency);
+    },
+
+    async saveInvoices(invoices) {
+      const { invoiceOperations } = await ops();
+      return invoiceOperations.save(invoices);
+    },
+
+    async updateInvoice(id, patch) {
+      const { invoiceOperations } = await ops();
+      return invoiceOperations.update(id, patch);
+    },
+
+    async deleteInvoice(id) {
+      const { invoiceOperations } = await ops();
+      await invoiceOperations.delete(id);
+    },
+
+    async saveAuditEntry(entry) {
+      const { auditOperations } = await ops();
+      return auditOperations.save(entry);
+    },
+
+    async importBatch(batch) {
+      const { subscriptionOperations } = await ops();
+      await subscriptionOperations.importBatch(batch);
+    },
+
+    async replaceAll(next) {
+      const { backupOperations } = await ops();
+      await backupOperations.replaceAll(next);
+    }
+  };
+}
+
+// Optional fields cleared in a patch (undefined) are sent as null, which JSON keeps
+const withNulls = (patch: object) => Object.fromEntries(Object.entries(patch).map(([key, value]) => [key, value === undefined ? null : value]));
+
+// Postgres in the browser: every operation is a request to the HTTP API (scripts/server.ts), which holds the database URL.
+// Every request sends the shared API token.
+export function createApiStore(baseUrl: string, token = ''): RevenueStore {
+  const request = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'X-API-Token': token, ...(body === undefined ? {} : { 'Content-Type': 'application/json' }) },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    if (res.status === 204) return undefined as T;
+    const payload = await res.json().catch(() => null);
+    if (!res.ok) {
+      const problems: string[] = payload?.problems ?? [];
+      throw new Error([payload?.error ?? `HTTP ${res.status}`, ...problems].join(' – '));
+    }
+    return payload as T;
+  };
+  const at = (resource: string, id: string) => `/${resource}/${encodeURIComponent(id)}`;
+
+  return {
+    kind: 'postgres',
+    load: () => request('GET', '/state'),
+    addCompany: name => request('POST', '/businesses', { name }),
+    updateCompany: (id, patch) => request('PATCH', at('businesses', id), withNulls(patch)),
+    deleteCompany: id => request('DELETE', at('businesses', id)),
+    addCustomer: data => request('POST', '/customers', data),
+    updateCustomer: (id, patch) => request('PATCH', at('customers', id), withNulls(patch)),
+    deleteCustomer: id => request('DELETE', at('customers', id)),
+    mergeCustomers: (targetId, duplicateIds) => request('POST', `${at('customers', targetId)}/merge`, { duplicateIds }),
+    addProduct: data => request('POST', '/products', data),
+    updateProduct: (id, patch) => request('PATCH', at('products', id), withNulls(patch)),
+    deleteProduct: id => request('DELETE', at('products', id)),
+    addSubscription: data => request('POST', '/subscriptions', data),
+    updateSubscription: (id, patch) => request('PATCH', at('subscriptions', id), withNulls(patch)),
+    deleteSubscription: id => request('DELETE', at('subscriptions', id)),
+    addPayment: data => request('POST', '/payments', data),
+    updatePayment: (id, patch) => request('PATCH', at('payments', id), withNulls(patch)),
+    deletePayment: id => request('DELETE', at('payments', id)),
+    addExpense: data => request('POST', '/expenses', data),
+    updateExpense: (id, patch) => request('PATCH', at('expenses', id), withNulls(patch)),
+    deleteExpense: id => request('DELETE', at('expenses', id)),
+    saveRates: rates => request('PUT', '/rates', rates),
+    deleteRate: (month, currency) => request('DELETE', `/rates/${encodeURIComponent(month)}/${encodeURIComponent(currency)}`),
+    saveInvoices: invoices => request('POST', '/invoices', invoices),
+    updateInvoice: (id, patch) => request('PATCH', at('invoices', id), patch),
+    deleteInvoice: id => request('DELETE', at('invoices', id)),
+    saveAuditEntry: entry => request('POST', '/audit', entry),
+    importBatch: batch => request('POST', '/subscriptions/import', batch),
+    replaceAll: next => request('PUT', '/state', toEnvelope(next))
+  };
+}
+
+// Backend selected through VITE_STORAGE_BACKEND (defaults to localStorage)
+export function createStore(kind: StoreKind, initial: RevenueState): RevenueStore {
+  switch (kind) {
+    case 'postgres':
+      return createApiStore(configuredApiUrl(), import.meta.env?.VITE_API_TOKEN);
+    case 'memory':
+      return createMemoryStore(initial);
+    default:
+      return createLocalStorageStore(initial);
+  }
+}
+
+export function configuredStoreKind(): StoreKind {
+  // import.meta.env is only set in the Vite bundle; the API server imports this module without it
+  const value = import.meta.env?.VITE_STORAGE_BACKEND;
+  return value === 'postgres' || value === 'memory' ? value : 'local';
+}
+
+// Base URL of the HTTP API (VITE_API_URL); the dev server proxies /api to it
+export function configuredApiUrl(): string {
+  return (import.meta.env?.VITE_API_URL || '/api').replace(/\/$/, '');
+}
@@ -0,0 +1,184 @@
+// ------------------------------
+// Domain types shared by the App, the storage layer and the database operations
+// ------------------------------
+
+/** Billing interval of a recurring item; "custom" bills every `intervalMonths` months */
+export type Cadence = "weekly" | "monthly" | "quarterly" | "halfyearly" | "yearly" | "custom";
+
+export type BillingType = "recurring" | "onetime" | "variable";
+
+/** Dutch VAT (BTW) tariffs: 21%, 9%, 0% and reverse-charged (verlegd) */
+export type VatCode = "standard" | "reduced" | "zero" | "reverse";
+
+/**
+ * How partial first and last periods of recurring items are charged: in full ("none"), per day
+ * ("daily") or per month slice, in full from half a month on and not at all below it ("halfmonth")
+ */
+export type ProrationPolicy = "none" | "daily" | "halfmonth";
+
+export type Company = {
+  id: string;
+  name: string;
+  vatCode?: VatCode; // default tariff for the company's items (standard when not set)
+  paymentsFrom?: string; // YYYY-MM from which received payments are tracked; earlier charges count as paid
+  proration?: ProrationPolicy; // none when not set
+};
+
+export type VariableMap = Record<string, number>; // YYYY-MM -> amount
+
+/** How variable income counts in MRR: not at all, or normalized from the trailing months */
+export type VariableMrrMethod = "off" | "average" | "median" | "last";
+
+export type VariableMrr = {
+  method: VariableMrrMethod;
+  months: number; // trailing window (3, 6 or 12 months, up to and including the month itself)
+};
+
+export type PriceChange = {
+  effectiveDate: string; // yyyy-mm-dd; the new price applies from this month on
+  price: number;
+};
+
+export type DiscountKind = "percent" | "fixed";
+
+/** Promotion on the charges of an item, for a period or a number of billing cycles (open-ended without either) */
+export type Discount = {
+  kind: DiscountKind;
+  value: number; // percentage (0–100) or amount off each charge in the item's currency, excluding VAT
+  startDate?: string; // yyyy-mm-dd; defaults to the item's start date
+  endDate?: string; // yyyy-mm-dd, last day of the discount
+  cycles?: number; // or: number of billing cycles from the start
+  label?: string; // e.g. "Introductieactie"
+};
+
+/** Value of 1 unit of `currency` in EUR during a month */
+export type ExchangeRate = {
+  month: string; // YYYY-MM
+  currency: string; // ISO 4217 code, e.g. "USD"
+  rate: number;
+};
+
+/** A customer across items; the name is the `customer` text of every linked item */
+export type Customer = {
+  id: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  notes?: string;
+  companyIds: string[]; // companies the customer is linked to (besides those of its items)
+};
+
+/** Catalog entry of a company; pre-fills new items and groups revenue per product */
+export type Product = {
+  id: string;
+  companyId: string | null;
+  name: string; // becomes the planName of linked items
+  price: number; // default price in `currency`
+  currency?: string; // ISO 4217 code, defaults to EUR
+  billingType: BillingType;
+  cadence: Cadence;
+  intervalMonths?: number; // cadence "custom": bill every N months
+};
+
+export type Subscription = {
+  id: string;
+  companyId: string | null;
+  productId: string | null; // catalog product; planName follows the product name
+  customerId?: string; // customer record; `customer` follows its name
+  customer: string;
+  planName: string;
+  price: number; // base price in `currency`, valid from startDate until the first price change
+  currency?: string; // ISO 4217 code, defaults to EUR
+  vatCode?: VatCode; // overrides the company tariff; prices are entered excluding VAT
+  billingType: BillingType;
+  cadence: Cadence; // used only when billingType === "recurring"
+  intervalMonths?: number; // cadence "custom": bill every N months
+  anchorDate?: string; // yyyy-mm-dd billing anchor (weekday / anniversary month), defaults to startDate
+  startDate: string; // yyyy-mm-dd (for onetime: payment date)
+  cancelDate: string | null; // yyyy-mm-dd or null (recurring only)
+  variableAmounts?: VariableMap; // when billingType === "variable"
+  variableMrr?: VariableMrr; // variable items: overrides the global MRR setting
+  proration?: ProrationPolicy; // copied from the company by withProration for the calculations; not stored
+  priceChanges?: PriceChange[]; // indexation, upgrades and downgrades, sorted by effectiveDate
+  discounts?: Discount[]; // promotions on top of the (list) price
+  notes?: string;
+};
+
+/** Money received for the charges of one item in one billing month (partial payments add up) */
+export type Payment = {
+  id: string;
+  subscriptionId: string;
+  month: string; // YYYY-MM billing month the payment settles
+  amount: number; // excluding VAT, in the item's currency
+  date: string; // yyyy-mm-dd received
+};
+
+export type Expense = {
+  id: string;
+  companyId: string | null;
+  amount: number; // in EUR
+  description: string;
+  category: string;
+  date: string; // yyyy-mm-dd
+};
+
+export type InvoiceStatus = "draft" | "sent";
+
+export type InvoiceLine = {
+  subscriptionId: string | null; // item the line was generated from
+  description: string;
+  quantity: number; // charges in the period (weekly items: 4 or 5)
+  unitPrice: number; // excluding VAT, in the invoice currency
+  vatCode: VatCode;
+};
+
+/** Invoice of one customer for one billing month; numbers are sequential per company and year */
+export type Invoice = {
+  id: string;
+  companyId: string | null;
+  customerId: string | null;
+  customer: string; // customer name at the time of invoicing
+  number: string; // e.g. "2025-0001"
+  period: string; // YYYY-MM billing month
+  issueDate: string; // yyyy-mm-dd
+  dueDate: string; // yyyy-mm-dd
+  currency: string; // ISO 4217 code of all lines
+  status: InvoiceStatus; // drafts are regenerated, sent invoices are left alone
+  lines: InvoiceLine[];
+};
+
+export type AuditEntity = "company" | "subscription";
+
+export type AuditAction = "create" | "update" | "delete";
+
+export type AuditChange = {
+  field: string; // property of the company or item, e.g. "price"
+  before?: unknown; // missing when the field was not set
+  after?: unknown;
+};
+
+/** What went with a deleted company: removed records and the links that were cleared */
+export type CompanyDependents = {
+  products: Product[];
+  expenses: Expense[];
+  invoices: Invoice[]; // drafts only: a company with sent invoices is not deleted
+  items: { id: string; companyId: string | null; productId: string | null }[]; // items that lost their company or product
+  customerIds: string[]; // customers that were linked to the company
+};
+
+/** One recorded change of a company or item; undo and redo are recorded as changes of their own */
+export type AuditEntry = {
+  id: string;
+  at: string; // ISO timestamp of the (last) change
+  user: string; // name entered in the app
+  entity: AuditEntity;
+  entityId: string;
+  action: AuditAction;
+  label: string; // company name or "customer – plan" at the time of the change
+  changes: AuditChange[]; // updates only: the changed fields
+  snapshot?: Company | Subscription; // create and delete: the whole record
+  payments?: Payment[]; // deleted items: their payments, restored by undo
+  dependents?: CompanyDependents; // deleted companies: their products, expenses, drafts and links, restored by undo
+  restoredFrom?: string; // re-created by undo or redo: the id of the deleted record
+  source?: "undo" | "redo";
+};
@@ -0,0 +1,77 @@
+import { BASE_CURRENCY, type Fx } from './currency';
+import { monthsBetweenInclusive, seriesTotals } from './revenue';
+import type { Company, Subscription, VatCode } from './types';
+
+// ------------------------------
+// VAT (BTW): tariff per item or company, gross amounts and the quarterly VAT report
+// ------------------------------
+
+export const VAT_CODES: VatCode[] = ['standard', 'reduced', 'zero', 'reverse'];
+
+export const VAT_PERCENT: Record<VatCode, number> = { standard: 0.21, reduced: 0.09, zero: 0, reverse: 0 };
+
+export const VAT_LABEL: Record<VatCode, string> = { standard: '21%', reduced: '9%', zero: '0%', reverse: 'BTW verlegd' };
+
+/** Tariff of an item: its own code, else the company default, else 21% */
+export function vatCodeOf(sub: Subscription, companies: Company[]): VatCode {
+  return sub.vatCode ?? companies.find(c => c.id === sub.companyId)?.vatCode ?? 'standard';
+}
+
+/**
+ * Items with every amount (price, price changes, fixed discounts, variable amounts) including VAT.
+ * Prices are entered excluding VAT; reverse-charged and 0% items stay the same.
+ */
+export function toGross(subs: Subscription[], companies: Company[]): Subscription[] {
+  return subs.map(sub => {
+    const factor = 1 + VAT_PERCENT[vatCodeOf(sub, companies)];
+    if (factor === 1) return sub;
+    return {
+      ...sub,
+      price: sub.price * factor,
+      priceChanges: sub.priceChanges?.map(c => ({ ...c, price: c.price * factor })),
+      discounts: sub.discounts?.map(d => (d.kind === 'fixed' ? { ...d, value: d.value * factor } : d)),
+      variableAmounts: sub.variableAmounts
+        ? Object.fromEntries(Object.entries(sub.variableAmounts).map(([mk, v]) => [mk, v * factor]))
+        : undefined
+    };
+  });
+}
+
+export type VatReportRow = {
+  code: VatCode;
+  turnover: number; // taxable turnover excluding VAT
+  vat: number; // VAT due (0 for reverse-charged and 0% turnover)
+};
+
+export type VatQuarter = {
+  quarter: string; // e.g. "2025-Q1"
+  months: string[];
+  rows: VatReportRow[]; // only tariffs with turnover
+  turnover: number;
+  vat: number;
+};
+
+const cents = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Quarterly VAT report for a calendar year, based on the cash months of each item
+ * (the months `billMonthsCash` bills in). Amounts are in EUR, as filed.
+ */
+export function calcVatReport(subs: Subscription[], companies: Company[], year: number, fx?: Fx): VatQuarter[] {
+  const eur: Fx | undefined = fx && { ...fx, to: BASE_CURRENCY };
+  return [1, 2, 3, 4].map(q => {
+    const months = monthsBetweenInclusive(`${year}-${String(q * 3 - 2).padStart(2, '0')}`, `${year}-${String(q * 3).padStart(2, '0')}`);
+    const rows = VAT_CODES.map(code => {
+      const totals = seriesTotals(subs.filter(s => vatCodeOf(s, companies) === code), 'cash', months, eur);
+      const turnover = cents(months.reduce((a, mk) => a + totals[mk], 0));
+      return { code, turnover, vat: cents(turnover * VAT_PERCENT[code]) };
+    }).filter(row => row.turnover !== 0);
+    return {
+      quarter: `${year}-Q${q}`,
+      months,
+      rows,
+      turnover: cents(rows.reduce((a, r) => a + r.turnover, 0)),
+      vat: cents(rows.reduce((a, r) => a + r.vat, 0))
+    };
+  });
+}
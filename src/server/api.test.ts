@@ -0,0 +1,274 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { closeDatabase, sql } from '../lib/db';
+import { migrateUp } from '../lib/migrations';
+import { toEnvelope } from '../lib/persistence';
+import { createDatabaseStore, type RevenueState } from '../lib/store';
+import type { Subscription } from '../lib/types';
+import { createApiHandler, TOKEN_HEADER } from './api';
+
+// ------------------------------
+// Route tests against a local Postgres: TEST_DATABASE_URL names a scratch database, which is migrated and
+// emptied before every test. Without it the tests are skipped.
+// ------------------------------
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+if (TEST_DATABASE_URL) process.env.DATABASE_URL = TEST_DATABASE_URL;
+
+const TOKEN = 'test-token';
+
+const EMPTY: RevenueState = { companies: [], customers: [], products: [], subs: [], payments: [], expenses: [], rates: [], invoices: [], audit: [] };
+
+const monthly = (fields: Partial<Subscription> = {}) => ({
+  companyId: null,
+  productId: null,
+  customer: 'Acme',
+  planName: 'Pro',
+  price: 100,
+  billingType: 'recurring',
+  cadence: 'monthly',
+  startDate: '2026-01-01',
+  cancelDate: null,
+  ...fields
+});
+
+describe('HTTP API on Postgres', { skip: !TEST_DATABASE_URL && 'TEST_DATABASE_URL is not set' }, () => {
+  const server = http.createServer(createApiHandler(createDatabaseStore(), { token: TOKEN }));
+  let baseUrl = '';
+
+  const api = async (method: string, path: string, body?: unknown, token = TOKEN) => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { [TOKEN_HEADER]: token, ...(body === undefined ? {} : { 'Content-Type': 'application/json' }) },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    const text = await res.text();
+    return { status: res.status, body: text ? JSON.parse(text) : null };
+  };
+
+  before(async () => {
+    await migrateUp();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(async () => {
+    await sql`
+      TRUNCATE audit_log, invoice_lines, invoices, payments, subscription_discounts, subscription_price_changes,
+        subscription_variable_amounts, subscriptions, products, customer_businesses, customers, expense_entries,
+        businesses, exchange_rates
+      RESTART IDENTITY CASCADE
+    `;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await closeDatabase();
+  });
+
+  test('companies are created, updated and deleted', async () => {
+    const created = await api('POST', '/api/businesses', { name: ' Table Tech ', vatCode: 'reduced' });
+    assert.equal(created.status, 201);
+    assert.equal(created.body.name, 'Table Tech');
+    assert.equal(created.body.vatCode, 'reduced');
+
+    const updated = await api('PATCH', `/api/businesses/${created.body.id}`, { paymentsFrom: '2026-03' });
+    assert.equal(updated.status, 200);
+    assert.equal(updated.body.paymentsFrom, '2026-03');
+    assert.equal(updated.body.vatCode, 'reduced');
+    assert.deepEqual((await api('PATCH', `/api/businesses/${created.body.id}`, { name: ' ' })).body.problems, ['name mag niet leeg zijn']);
+
+    assert.equal((await api('DELETE', `/api/businesses/${created.body.id}`)).status, 204);
+    assert.deepEqual((await api('GET', '/api/businesses')).body, []);
+    assert.equal((await api('PATCH', `/api/businesses/${created.body.id}`, { name: 'X' })).status, 404);
+  });
+
+  test('reads and writes need the API token', async () => {
+    assert.equal((await api('POST', '/api/businesses', { name: 'A' }, '')).status, 401);
+    assert.equal((await api('PUT', '/api/state', toEnvelope(EMPTY), 'wrong-token')).status, 401);
+    assert.equal((await api('GET', '/api/state', undefined, '')).status, 401);
+    assert.equal((await api('GET', '/api/subscriptions', undefined, 'wrong-token')).status, 401);
+    assert.deepEqual((await api('GET', '/api/businesses')).body, []);
+  });
+
+  test('an item is stored with its amounts, price history and discounts', async () => {
+    const created = await api('POST', '/api/subscriptions', monthly({
+      billingType: 'variable',
+      variableAmounts: { '2026-01': 120, '2026-02': 80 },
+      priceChanges: [{ effectiveDate: '2026-04-01', price: 120 }],
+      discounts: [{ kind: 'percent', value: 50, cycles: 3 }]
+    }));
+    assert.equal(created.status, 201);
+
+    const stored = await api('GET', `/api/subscriptions/${created.body.id}`);
+    assert.deepEqual(stored.body.variableAmounts, { '2026-01': 120, '2026-02': 80 });
+    assert.deepEqual(stored.body.priceChanges, [{ effectiveDate: '2026-04-01', price: 120 }]);
+    assert.equal(stored.body.discounts[0].cycles, 3);
+    assert.equal(stored.body.startDate, '2026-01-01');
+  });
+
+  test('new customers are linked to the company of their item, as in the browser stores', async () => {
+    const { body: company } = await api('POST', '/api/businesses', { name: 'Table Tech' });
+    await api('POST', '/api/subscriptions', monthly({ companyId: company.id, customer: 'Acme' }));
+    const imported = await api('POST', '/api/subscriptions/import', {
+      companyNames: ['Nieuw BV'],
+      subs: [{ customer: 'Bakker', companyName: 'nieuw bv' }, { customer: 'acme ', companyName: 'Nieuw BV' }].map(({ companyName, customer }) => {
+        const { companyId: _companyId, ...sub } = monthly({ customer });
+        return { ...sub, companyName };
+      })
+    });
+    assert.equal(imported.status, 204);
+    await api('POST', '/api/customers', { name: 'Jansen', companyIds: [company.id] });
+
+    const state: RevenueState = (await api('GET', '/api/state')).body;
+    const nieuw = state.companies.find(c => c.name === 'Nieuw BV')!;
+    const linksOf = (name: string) => state.customers.find(c => c.name === name)!.companyIds;
+    assert.deepEqual(linksOf('Acme'), [company.id]);
+    assert.deepEqual(linksOf('Bakker'), [nieuw.id]);
+    assert.deepEqual(linksOf('Jansen'), [company.id]);
+    assert.equal(state.customers.length, 3);
+  });
+
+  test('a customer whose company link fails is not created', async () => {
+    assert.equal((await api('POST', '/api/customers', { name: 'Jansen', companyIds: ['999'] })).status, 400);
+    assert.deepEqual((await api('GET', '/api/state')).body.customers, []);
+  });
+
+  test('a detail the database refuses rolls back the new item', async () => {
+    const { subscriptionOperations } = await import('../lib/database-operations');
+    const data = { ...monthly(), discounts: [{ kind: 'percent', value: -5 }] } as Omit<Subscription, 'id'>;
+    await assert.rejects(subscriptionOperations.create(data));
+    assert.deepEqual((await api('GET', '/api/subscriptions')).body, []);
+  });
+
+  test('updates only write the fields they send', async () => {
+    const { body: sub } = await api('POST', '/api/subscriptions', monthly());
+    const [price, notes] = await Promise.all([
+      api('PATCH', `/api/subscriptions/${sub.id}`, { price: 150 }),
+      api('PATCH', `/api/subscriptions/${sub.id}`, { notes: 'Jaarcontract' })
+    ]);
+    assert.equal(price.status, 200);
+    assert.equal(notes.status, 200);
+
+    const stored = (await api('GET', `/api/subscriptions/${sub.id}`)).body;
+    assert.equal(stored.price, 150);
+    assert.equal(stored.notes, 'Jaarcontract');
+    assert.equal(stored.customer, 'Acme');
+    assert.equal((await api('PATCH', '/api/subscriptions/999', { price: 1 })).status, 404);
+  });
+
+  test('invalid input is refused with its problems', async () => {
+    const res = await api('POST', '/api/subscriptions', monthly({ price: 'veel' as unknown as number, startDate: '2026-13-01' }));
+    assert.equal(res.status, 400);
+    assert.deepEqual(res.body.problems, ['ongeldige prijs', 'ongeldige startdatum']);
+    assert.equal((await api('GET', '/api/onbekend')).status, 404);
+    assert.equal((await api('PUT', '/api/businesses')).status, 405);
+    assert.equal((await api('GET', '/api/subscriptions/%E0')).status, 400);
+  });
+
+  test('items are checked like backups: real dates and a term length for custom cadences', async () => {
+    const custom = await api('POST', '/api/subscriptions', monthly({ cadence: 'custom' }));
+    assert.equal(custom.status, 400);
+    assert.deepEqual(custom.body.problems, ['ongeldig aantal maanden per termijn']);
+    assert.deepEqual((await api('POST', '/api/subscriptions', monthly({ startDate: '2024-02-30' }))).body.problems, ['ongeldige startdatum']);
+
+    const { body: sub } = await api('POST', '/api/subscriptions', monthly());
+    assert.equal((await api('PATCH', `/api/subscriptions/${sub.id}`, { cadence: 'custom' })).status, 400);
+    assert.equal((await api('PATCH', `/api/subscriptions/${sub.id}`, { cadence: 'custom', intervalMonths: 2 })).status, 200);
+    assert.equal((await api('PATCH', `/api/subscriptions/${sub.id}`, { intervalMonths: null })).status, 400);
+    assert.equal((await api('GET', `/api/subscriptions/${sub.id}`)).body.intervalMonths, 2);
+  });
+
+  test('a taken invoice number is a conflict', async () => {
+    const { body: company } = await api('POST', '/api/businesses', { name: 'A' });
+    const invoice = {
+      companyId: company.id, customerId: null, customer: 'Acme', number: '2026-001', period: '2026-01',
+      issueDate: '2026-01-31', dueDate: '2026-02-14', currency: 'EUR', status: 'draft', lines: []
+    };
+    assert.equal((await api('POST', '/api/invoices', [invoice])).status, 200);
+    assert.equal((await api('POST', '/api/invoices', [invoice])).status, 409);
+  });
+
+  test('only stored drafts can be saved again', async () => {
+    const { body: company } = await api('POST', '/api/businesses', { name: 'A' });
+    const invoice = {
+      companyId: company.id, customerId: null, customer: 'Acme', number: '2026-001', period: '2026-01',
+      issueDate: '2026-01-31', dueDate: '2026-02-14', currency: 'EUR', status: 'draft', lines: []
+    };
+    const [draft] = (await api('POST', '/api/invoices', [invoice])).body;
+    assert.equal((await api('POST', '/api/invoices', [{ ...draft, customer: 'Acme BV' }])).status, 200);
+    assert.equal((await api('POST', '/api/invoices', [{ ...draft, id: '999' }])).status, 404);
+
+    assert.equal((await api('PATCH', `/api/invoices/${draft.id}`, { status: 'sent' })).status, 200);
+    const overwrite = await api('POST', '/api/invoices', [{ ...draft, customer: 'Iemand anders' }]);
+    assert.equal(overwrite.status, 409);
+    assert.equal((await api('GET', '/api/state')).body.invoices[0].customer, 'Acme BV');
+  });
+
+  test('a company with sent invoices is not deleted', async () => {
+    const { body: company } = await api('POST', '/api/businesses', { name: 'A' });
+    const invoice = {
+      companyId: company.id, customerId: null, customer: 'Acme', number: '2026-001', period: '2026-01',
+      issueDate: '2026-01-31', dueDate: '2026-02-14', currency: 'EUR', status: 'sent', lines: []
+    };
+    const [sent] = (await api('POST', '/api/invoices', [invoice, { ...invoice, number: '2026-002', status: 'draft' }])).body;
+    assert.equal((await api('DELETE', `/api/businesses/${company.id}`)).status, 409);
+    assert.equal((await api('GET', '/api/state')).body.invoices.length, 2);
+
+    assert.equal((await api('PATCH', `/api/invoices/${sent.id}`, { status: 'draft' })).status, 200);
+    assert.equal((await api('DELETE', `/api/businesses/${company.id}`)).status, 204);
+    assert.deepEqual((await api('GET', '/api/state')).body.invoices, []);
+  });
+
+  test('the delete entry of a company keeps what undo needs to restore', async () => {
+    const dependents = { products: [], expenses: [], invoices: [], items: [{ id: '1', companyId: '7', productId: null }], customerIds: ['2'] };
+    const entry = { at: '2026-01-01T10:00:00.000Z', user: 'Jan', entity: 'company', entityId: '7', action: 'delete', label: 'A', changes: [], snapshot: { id: '7', name: 'A' }, dependents };
+    assert.equal((await api('POST', '/api/audit', entry)).status, 200);
+    assert.deepEqual((await api('GET', '/api/state')).body.audit[0].dependents, dependents);
+    assert.equal((await api('POST', '/api/audit', { ...entry, dependents: { products: [] } })).status, 400);
+  });
+
+  test('a backup restore links rows by id, also when names repeat', async () => {
+    const backup: RevenueState = {
+      ...EMPTY,
+      companies: [{ id: 'a1', name: 'Acme' }, { id: 'a2', name: 'Acme', vatCode: 'reduced' }],
+      customers: [{ id: 'k1', name: 'Jansen', companyIds: ['a2'] }, { id: 'k2', name: 'Jansen', companyIds: [] }],
+      subs: [
+        { ...monthly({ companyId: 'a2', customerId: 'k2', customer: 'Jansen' }), id: 's1' } as Subscription,
+        { ...monthly({ companyId: 'a1', customerId: 'k1', customer: 'Jansen' }), id: 's2' } as Subscription
+      ],
+      payments: [{ id: 'p1', subscriptionId: 's2', month: '2026-01', amount: 100, date: '2026-01-05' }],
+      invoices: [{
+        id: 'i1', companyId: 'a1', customerId: 'k1', customer: 'Jansen', number: '1', period: '2026-01', issueDate: '2026-01-31',
+        dueDate: '2026-02-14', currency: 'EUR', status: 'sent', lines: [{ subscriptionId: 's2', description: 'Pro', quantity: 1, unitPrice: 100, vatCode: 'standard' }]
+      }],
+      audit: [
+        { id: 'e2', at: '2026-01-02T10:00:00.000Z', user: 'Jan', entity: 'subscription', entityId: 's2', action: 'update', label: 'Jansen – Pro', changes: [{ field: 'price', before: 90, after: 100 }] },
+        { id: 'e1', at: '2026-01-01T10:00:00.000Z', user: 'Jan', entity: 'subscription', entityId: 'gone', action: 'delete', label: 'Oud', changes: [] }
+      ]
+    };
+    assert.equal((await api('PUT', '/api/state', toEnvelope(backup))).status, 204);
+
+    const state: RevenueState = (await api('GET', '/api/state')).body;
+    const reduced = state.companies.find(c => c.vatCode === 'reduced')!;
+    const plain = state.companies.find(c => !c.vatCode || c.vatCode === 'standard')!;
+    const linked = state.customers.find(c => c.companyIds.length === 1)!;
+    const s1 = state.subs.find(s => s.companyId === reduced.id)!;
+    const s2 = state.subs.find(s => s.companyId === plain.id)!;
+    assert.equal(s1.customerId, state.customers.find(c => c.id !== linked.id)!.id);
+    assert.equal(s2.customerId, linked.id);
+    assert.deepEqual(linked.companyIds, [reduced.id]);
+    assert.equal(state.payments[0].subscriptionId, s2.id);
+    assert.equal(state.invoices[0].lines[0].subscriptionId, s2.id);
+    assert.equal(state.audit.find(e => e.action === 'update')!.entityId, s2.id);
+    assert.equal(state.audit.find(e => e.action === 'delete')!.entityId, 'deleted:gone');
+  });
+
+  test('series are computed from the stored items', async () => {
+    await api('POST', '/api/subscriptions', monthly());
+    const res = await api('GET', '/api/series?mode=cash&from=2026-01&to=2026-03');
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.series.map((p: { amount: number }) => p.amount), [100, 100, 100]);
+  });
+});
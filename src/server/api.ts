@@ -0,0 +1,413 @@
+import { timingSafeEqual } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { BASE_CURRENCY, isCurrencyCode } from '../lib/currency';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITIES,
+  BILLING_TYPES,
+  CADENCES,
+  INVOICE_STATUSES,
+  isDate,
+  isMonth,
+  migrateState,
+  PRORATION_POLICIES,
+  subscriptionProblems
+} from '../lib/persistence';
+import { calcProfitSeries, calcSeries, monthsBetweenInclusive, withProration } from '../lib/revenue';
+import type { RevenueStore } from '../lib/store';
+import { VAT_CODES } from '../lib/vat';
+
+// ------------------------------
+// HTTP API: REST endpoints over the database store, so the browser talks to this server
+// instead of holding the database URL. Bodies and responses are JSON; errors are { error, problems? }.
+// ------------------------------
+
+/** Largest accepted request body (a full backup fits comfortably) */
+export const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+export type HttpError = Error & { status: number; problems?: string[] };
+
+export const httpError = (status: number, message: string, problems?: string[]): HttpError =>
+  Object.assign(new Error(message), { status, problems });
+
+// ------------------------------
+// Input validation: one rule per field; create requests need the required fields, updates may send any subset.
+// null clears an optional field. `record` checks the whole record (for an update: the stored one with the patch applied).
+// ------------------------------
+type Rule = [test: (value: unknown) => boolean, problem: string];
+type Schema = { rules: Record<string, Rule>; required: string[]; record?: (body: Record<string, unknown>) => string[] };
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isOneOf = (values: readonly string[], v: unknown) => typeof v === 'string' && values.includes(v);
+
+const text: Rule = [v => typeof v === 'string', 'moet tekst zijn'];
+const nonEmpty: Rule = [v => typeof v === 'string' && v.trim() !== '', 'mag niet leeg zijn'];
+const amount: Rule = [v => typeof v === 'number' && Number.isFinite(v), 'moet een getal zijn'];
+const date: Rule = [isDate, 'moet een datum (jjjj-mm-dd) zijn'];
+const month: Rule = [isMonth, 'moet een maand (jjjj-mm) zijn'];
+const id: Rule = [v => typeof v === 'string' && v !== '', 'moet een id zijn'];
+const optional = ([test, problem]: Rule): Rule => [v => v === null || test(v), problem];
+const oneOf = (values: readonly string[]): Rule => [v => isOneOf(values, v), `moet een van ${values.join(', ')} zijn`];
+const listOf = (test: (v: unknown) => boolean, problem: string): Rule => [v => Array.isArray(v) && v.every(test), problem];
+const positiveInt: Rule = [v => typeof v === 'number' && Number.isInteger(v) && v > 0, 'moet een positief geheel getal zijn'];
+const currency: Rule = [isCurrencyCode, 'moet een valutacode (ISO 4217) zijn'];
+const known: Rule = [() => true, '']; // a field the schema's record check validates
+
+const COMPANY: Schema = {
+  rules: { name: nonEmpty, vatCode: optional(oneOf(VAT_CODES)), paymentsFrom: optional(month), proration: optional(oneOf(PRORATION_POLICIES)) },
+  required: ['name']
+};
+
+const CUSTOMER: Schema = {
+  rules: { name: text, email: optional(text), phone: optional(text), notes: optional(text), companyIds: listOf(v => typeof v === 'string', 'moet een lijst met ids zijn') },
+  required: ['name', 'companyIds']
+};
+
+const PRODUCT: Schema = {
+  rules: {
+    companyId: optional(id),
+    name: text,
+    price: amount,
+    currency: optional(currency),
+    billingType: oneOf(BILLING_TYPES),
+    cadence: oneOf(CADENCES),
+    intervalMonths: optional(positiveInt)
+  },
+  required: ['companyId', 'name', 'price', 'billingType', 'cadence']
+};
+
+// Item values are checked by the same validator as backups (subscriptionProblems), so both accept the same items
+const SUBSCRIPTION: Schema = {
+  rules: {
+    companyId: optional(id),
+    productId: optional(id),
+    customerId: optional(id),
+    ...Object.fromEntries(
+      [
+        'customer', 'planName', 'price', 'currency', 'vatCode', 'billingType', 'cadence', 'intervalMonths', 'anchorDate', 'startDate',
+        'cancelDate', 'variableAmounts', 'variableMrr', 'proration', 'priceChanges', 'discounts', 'notes'
+      ].map(key => [key, known])
+    )
+  },
+  required: ['companyId', 'productId', 'customer', 'planName', 'price', 'billingType', 'cadence', 'startDate', 'cancelDate'],
+  record: subscriptionProblems
+};
+
+const PAYMENT: Schema = {
+  rules: { subscriptionId: id, month, amount, date },
+  required: ['subscriptionId', 'month', 'amount', 'date']
+};
+
+const EXPENSE: Schema = {
+  rules: { companyId: optional(id), amount, description: text, category: text, date },
+  required: ['companyId', 'amount', 'description', 'category', 'date']
+};
+
+const RATE: Schema = {
+  rules: { month, currency, rate: [v => typeof v === 'number' && v > 0, 'moet groter dan 0 zijn'] },
+  required: ['month', 'currency', 'rate']
+};
+
+const INVOICE_LINE = (l: unknown) =>
+  isObject(l) &&
+  (l.subscriptionId === null || typeof l.subscriptionId === 'string') &&
+  typeof l.description === 'string' &&
+  Number.isFinite(l.quantity) &&
+  Number.isFinite(l.unitPrice) &&
+  isOneOf(VAT_CODES, l.vatCode);
+
+const INVOICE: Schema = {
+  rules: {
+    id: optional(id),
+    companyId: optional(id),
+    customerId: optional(id),
+    customer: text,
+    number: nonEmpty,
+    period: month,
+    issueDate: date,
+    dueDate: date,
+    currency,
+    status: oneOf(INVOICE_STATUSES),
+    lines: listOf(INVOICE_LINE, 'ongeldige factuurregels')
+  },
+  required: ['companyId', 'customerId', 'customer', 'number', 'period', 'issueDate', 'dueDate', 'currency', 'status', 'lines']
+};
+
+const INVOICE_PATCH: Schema = { rules: { status: oneOf(INVOICE_STATUSES), issueDate: date, dueDate: date }, required: [] };
+
+const AUDIT_ENTRY: Schema = {
+  rules: {
+    id: optional(id),
+    at: [v => typeof v === 'string' && !Number.isNaN(Date.parse(v)), 'moet een tijdstip zijn'],
+    user: text,
+    entity: oneOf(AUDIT_ENTITIES),
+    entityId: id,
+    action: oneOf(AUDIT_ACTIONS),
+    label: text,
+    changes: listOf(c => isObject(c) && typeof c.field === 'string', 'ongeldige wijzigingen'),
+    snapshot: optional([v => isObject(v) && typeof v.id === 'string', 'moet een record zijn']),
+    payments: optional(listOf(p => isObject(p) && typeof p.id === 'string', 'ongeldige betalingen')),
+    dependents: optional([
+      v => isObject(v) && ['products', 'expenses', 'invoices', 'items', 'customerIds'].every(key => Array.isArray(v[key])),
+      'ongeldige gekoppelde gegevens'
+    ]),
+    restoredFrom: optional(id),
+    source: optional(oneOf(['undo', 'redo']))
+  },
+  required: ['at', 'user', 'entity', 'entityId', 'action', 'label', 'changes']
+};
+
+// Imported items name their company; it is created when missing
+const { companyId: _companyId, ...importRules } = SUBSCRIPTION.rules;
+const IMPORT_SUB: Schema = {
+  rules: { ...importRules, companyName: optional(text) },
+  required: [...SUBSCRIPTION.required.filter(f => f !== 'companyId'), 'companyName'],
+  record: SUBSCRIPTION.record
+};
+
+/** Problems of a request body: unknown fields, missing required fields (unless `partial`) and invalid values */
+export function problemsOf(body: unknown, schema: Schema, partial = false, prefix = ''): string[] {
+  if (!isObject(body)) return [`${prefix}body moet een JSON-object zijn`];
+  const problems: string[] = [];
+  for (const key of Object.keys(body)) if (!(key in schema.rules)) problems.push(`${prefix}onbekend veld "${key}"`);
+  if (!partial) for (const key of schema.required) if (body[key] === undefined) problems.push(`${prefix}"${key}" is verplicht`);
+  for (const [key, [test, problem]] of Object.entries(schema.rules)) {
+    if (body[key] !== undefined && !test(body[key])) problems.push(`${prefix}${key} ${problem}`);
+  }
+  if (!partial && schema.record) problems.push(...schema.record(body).map(p => prefix + p));
+  return problems;
+}
+
+/** The body when it is valid, else a 400 with the problems */
+function valid<T>(body: unknown, schema: Schema, partial = false): T {
+  const problems = problemsOf(body, schema, partial);
+  if (problems.length) throw httpError(400, 'Ongeldige invoer', problems);
+  return body as T;
+}
+
+/** A valid patch of `current`: its fields, and the record check on `current` with the patch applied */
+function validPatch<T>(body: unknown, schema: Schema, current: object): Partial<T> {
+  const patch = valid<Partial<T>>(body, schema, true);
+  const problems = schema.record?.({ ...current, ...patch }) ?? [];
+  if (problems.length) throw httpError(400, 'Ongeldige invoer', problems);
+  return patch;
+}
+
+function validList<T>(body: unknown, schema: Schema): T[] {
+  if (!Array.isArray(body)) throw httpError(400, 'Ongeldige invoer', ['body moet een lijst zijn']);
+  const problems = body.flatMap((item, i) => problemsOf(item, schema, false, `${i + 1}: `));
+  if (problems.length) throw httpError(400, 'Ongeldige invoer', problems);
+  return body as T[];
+}
+
+// ------------------------------
+// Routes
+// ------------------------------
+type Request = { params: string[]; query: URLSearchParams; body: unknown };
+type Route = { method: string; path: RegExp; status?: number; handle: (req: Request) => Promise<unknown> };
+
+const SERIES_MODES = ['cash', 'mrr', 'profit'];
+const MAX_SERIES_MONTHS = 240;
+
+/** Monthly series as in the chart (net, prorated per company, in `currency`), optionally for one company */
+async function series(store: RevenueStore, query: URLSearchParams) {
+  const mode = query.get('mode') ?? 'cash';
+  const from = query.get('from');
+  const to = query.get('to');
+  const reportingCurrency = query.get('currency') ?? BASE_CURRENCY;
+  const company = query.get('company');
+  const problems = [
+    ...(SERIES_MODES.includes(mode) ? [] : [`mode moet een van ${SERIES_MODES.join(', ')} zijn`]),
+    ...(isMonth(from) && isMonth(to) && from! <= to! ? [] : ['from en to moeten maanden (jjjj-mm) zijn, from niet na to']),
+    ...(isCurrencyCode(reportingCurrency) ? [] : ['currency moet een valutacode (ISO 4217) zijn'])
+  ];
+  if (problems.length) throw httpError(400, 'Ongeldige invoer', problems);
+  const months = monthsBetweenInclusive(from!, to!);
+  if (months.length > MAX_SERIES_MONTHS) throw httpError(400, 'Ongeldige invoer', [`hoogstens ${MAX_SERIES_MONTHS} maanden per reeks`]);
+
+  const state = await store.load();
+  const fx = { to: reportingCurrency, rates: state.rates };
+  const subs = withProration(state.subs, state.companies).filter(s => !company || s.companyId === company);
+  const expenses = state.expenses.filter(e => !company || e.companyId === company);
+  const points = mode === 'profit' ? calcProfitSeries(subs, expenses, months, fx) : calcSeries(subs, mode as 'cash' | 'mrr', months, fx);
+  return { mode, currency: reportingCurrency, company: company || null, series: points };
+}
+
+function routes(store: RevenueStore): Route[] {
+  const route = (method: string, path: string, handle: Route['handle'], status?: number): Route => ({
+    method,
+    path: new RegExp(`^/api${path.replace(/:\w+/g, '([^/]+)')}$`),
+    handle,
+    status
+  });
+
+  const storedSubscription = async (id: string) => {
+    const sub = (await store.load()).subs.find(s => s.id === id);
+    if (!sub) throw httpError(404, `Subscription ${id} not found`);
+    return sub;
+  };
+
+  return [
+    // Everything at once, and a backup restore (envelope or bare state; older versions are upgraded)
+    route('GET', '/state', () => store.load()),
+    route('PUT', '/state', async ({ body }) => {
+      const result = migrateState(body);
+      if (!result.ok) throw httpError(400, 'Ongeldige backup', result.problems);
+      await store.replaceAll(result.data);
+      return null;
+    }, 204),
+    route('GET', '/series', ({ query }) => series(store, query)),
+
+    route('GET', '/businesses', async () => (await store.load()).companies),
+    route('POST', '/businesses', async ({ body }) => {
+      const { name, ...settings } = valid<{ name: string } & Record<string, unknown>>(body, COMPANY);
+      const company = await store.addCompany(name.trim());
+      return Object.keys(settings).length ? store.updateCompany(company.id, settings) : company;
+    }, 201),
+    route('PATCH', '/businesses/:id', ({ params, body }) => store.updateCompany(params[0], valid(body, COMPANY, true))),
+    route('DELETE', '/businesses/:id', ({ params }) => store.deleteCompany(params[0]), 204),
+
+    route('POST', '/customers', ({ body }) => store.addCustomer(valid(body, CUSTOMER)), 201),
+    route('PATCH', '/customers/:id', ({ params, body }) => store.updateCustomer(params[0], valid(body, CUSTOMER, true))),
+    route('DELETE', '/customers/:id', ({ params }) => store.deleteCustomer(params[0]), 204),
+    route('POST', '/customers/:id/merge', async ({ params, body }) => {
+      const { duplicateIds } = valid<{ duplicateIds: string[] }>(body, {
+        rules: { duplicateIds: listOf(v => typeof v === 'string', 'moet een lijst met ids zijn') },
+        required: ['duplicateIds']
+      });
+      await store.mergeCustomers(params[0], duplicateIds);
+      return null;
+    }, 204),
+
+    route('POST', '/products', ({ body }) => store.addProduct(valid(body, PRODUCT)), 201),
+    route('PATCH', '/products/:id', ({ params, body }) => store.updateProduct(params[0], valid(body, PRODUCT, true))),
+    route('DELETE', '/products/:id', ({ params }) => store.deleteProduct(params[0]), 204),
+
+    route('GET', '/subscriptions', async () => (await store.load()).subs),
+    route('GET', '/subscriptions/:id', ({ params }) => storedSubscription(params[0])),
+    route('POST', '/subscriptions', ({ body }) => store.addSubscription(valid(body, SUBSCRIPTION)), 201),
+    route('PATCH', '/subscriptions/:id', async ({ params, body }) =>
+      store.updateSubscription(params[0], validPatch(body, SUBSCRIPTION, await storedSubscription(params[0])))
+    ),
+    route('DELETE', '/subscriptions/:id', ({ params }) => store.deleteSubscription(params[0]), 204),
+    route('POST', '/subscriptions/import', async ({ body }) => {
+      const batch = valid<{ companyNames: string[]; subs: unknown[] }>(body, {
+        rules: { companyNames: listOf(v => typeof v === 'string', 'moet een lijst met namen zijn'), subs: [Array.isArray, 'moet een lijst zijn'] },
+        required: ['companyNames', 'subs']
+      });
+      await store.importBatch({ companyNames: batch.companyNames, subs: validList(batch.subs, IMPORT_SUB) });
+      return null;
+    }, 204),
+
+    route('POST', '/payments', ({ body }) => store.addPayment(valid(body, PAYMENT)), 201),
+    route('PATCH', '/payments/:id', ({ params, body }) => store.updatePayment(params[0], valid(body, PAYMENT, true))),
+    route('DELETE', '/payments/:id', ({ params }) => store.deletePayment(params[0]), 204),
+
+    route('GET', '/expenses', async () => (await store.load()).expenses),
+    route('POST', '/expenses', ({ body }) => store.addExpense(valid(body, EXPENSE)), 201),
+    route('PATCH', '/expenses/:id', ({ params, body }) => store.updateExpense(params[0], valid(body, EXPENSE, true))),
+    route('DELETE', '/expenses/:id', ({ params }) => store.deleteExpense(params[0]), 204),
+
+    route('PUT', '/rates', async ({ body }) => {
+      await store.saveRates(validList(body, RATE));
+      return null;
+    }, 204),
+    route('DELETE', '/rates/:month/:currency', ({ params }) => store.deleteRate(params[0], params[1]), 204),
+
+    route('POST', '/invoices', ({ body }) => store.saveInvoices(validList(body, INVOICE))),
+    route('PATCH', '/invoices/:id', ({ params, body }) => store.updateInvoice(params[0], valid(body, INVOICE_PATCH, true))),
+    route('DELETE', '/invoices/:id', ({ params }) => store.deleteInvoice(params[0]), 204),
+
+    route('POST', '/audit', ({ body }) => store.saveAuditEntry(valid(body, AUDIT_ENTRY)))
+  ];
+}
+
+// ------------------------------
+// Request handling
+// ------------------------------
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw httpError(413, 'Body is te groot');
+    chunks.push(chunk as Buffer);
+  }
+  if (size === 0) return undefined;
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw httpError(400, 'Body is geen geldige JSON');
+  }
+}
+
+function send(res: ServerResponse, status: number, payload?: unknown) {
+  if (status === 204 || payload === undefined) {
+    res.writeHead(status).end();
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' }).end(JSON.stringify(payload));
+}
+
+// decodeURIComponent throws a URIError on a malformed escape such as %E0
+function decodeParam(param: string): string {
+  try {
+    return decodeURIComponent(param);
+  } catch {
+    throw httpError(400, 'Ongeldig pad');
+  }
+}
+
+const fieldOf = (err: unknown, key: string): unknown => (isObject(err) ? err[key] : undefined);
+
+// The stores report missing records as "<Thing> <id> not found"; foreign keys and unique indexes as Postgres errors
+function statusOf(err: unknown): number {
+  const status = fieldOf(err, 'status');
+  if (typeof status === 'number') return status;
+  if (err instanceof Error && /not found/i.test(err.message)) return 404;
+  const code = fieldOf(err, 'code');
+  if (code === '23505') return 409; // unique_violation, e.g. an invoice number that is already taken
+  if (code === '23503' || code === '23514' || code === '22P02') return 400; // foreign key, check, invalid input
+  return 500;
+}
+
+/** Header with the shared token that every request has to send */
+export const TOKEN_HEADER = 'x-api-token';
+
+export type ApiOptions = { token: string };
+
+function sameToken(sent: string | string[] | undefined, token: string): boolean {
+  if (typeof sent !== 'string') return false;
+  const [a, b] = [Buffer.from(sent), Buffer.from(token)];
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** Request listener for http.createServer: routes /api requests to `store`; every request needs the shared token */
+export function createApiHandler(store: RevenueStore, { token }: ApiOptions) {
+  if (!token) throw new Error('createApiHandler needs a token');
+  const table = routes(store);
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    try {
+      if (!sameToken(req.headers[TOKEN_HEADER], token)) throw httpError(401, 'Ongeldig of ontbrekend API-token');
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const matches = table.filter(r => r.path.test(url.pathname));
+      if (matches.length === 0) throw httpError(404, `Onbekend pad ${url.pathname}`);
+      const route = matches.find(r => r.method === req.method);
+      if (!route) {
+        res.setHeader('Allow', matches.map(r => r.method).join(', '));
+        throw httpError(405, `Methode ${req.method} niet toegestaan`);
+      }
+      const params = route.path.exec(url.pathname)!.slice(1).map(decodeParam);
+      const body = req.method === 'GET' || req.method === 'DELETE' ? undefined : await readBody(req);
+      const result = await route.handle({ params, query: url.searchParams, body });
+      send(res, route.status ?? 200, result ?? null);
+    } catch (err) {
+      const status = statusOf(err);
+      if (status >= 500) console.error('❌ API error:', err);
+      const problems = fieldOf(err, 'problems');
+      const message = err instanceof Error ? err.message : String(err);
+      send(res, status, { error: status >= 500 ? 'Interne serverfout' : message, ...(Array.isArray(problems) && problems.length ? { problems } : {}) });
+    }
+  };
+}
@@ -1,7 +1,9 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_DATABASE_URL: string
+  readonly VITE_API_URL?: string
+  readonly VITE_API_TOKEN?: string
+  readonly VITE_STORAGE_BACKEND?: 'local' | 'postgres' | 'memory'
   // more env variables...
 }
 
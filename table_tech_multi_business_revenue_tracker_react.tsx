@@ -1,191 +1,403 @@
 import React, { useEffect, useMemo, useState } from "react";
-// import { useDatabase } from "./src/hooks/useDatabase";
+import { useDatabase } from "./src/hooks/useDatabase";
+import { AUDIT_LIMIT, coalesceEntry, COALESCE_MS, companyDependents, diffChanges, historyOf, inverseOf, restoreCompany } from "./src/lib/audit";
+import { calcCohorts, retentionOf, type Cohort, type CohortCell } from "./src/lib/cohorts";
+import { parseCsv, toCsv, type CsvCell } from "./src/lib/csv";
+import { BASE_CURRENCY, COMMON_CURRENCIES, missingRates, parseRateRows, type Fx } from "./src/lib/currency";
+import { concentrationOf, customerCompanyIds, customerKey, customerSummary, findDuplicates, linkCustomers, rankCustomers, rankCustomersByCompany, type CustomerRank } from "./src/lib/customers";
+import { calcForecast, DEFAULT_FORECAST, type ForecastOptions, type VariableMethod } from "./src/lib/forecast";
+import { assertSavable, generateInvoices, invoiceTotals, periodLabel, renderInvoiceHtml, type InvoiceDraft } from "./src/lib/invoices";
+import { buildPreview, guessMapping, IMPORT_FIELDS, missingCompanies, toImportBatch, type ColumnMapping, type ImportBatch, type ImportField } from "./src/lib/import";
+import { calcMetrics, calcMetricsByCompany, summarizeMovements, type MonthMetrics } from "./src/lib/metrics";
+import { ageingBuckets, expectedCharges, expectedVsReceived, isoDate, overdueCharges, paymentsToGross, receivedSeries, type OpenCharge } from "./src/lib/payments";
+import { migrateState, STATE_VERSION, toEnvelope, type MigrationResult } from "./src/lib/persistence";
+import {
+  billMonthsCash,
+  calcExpenseSeries,
+  calcProfitSeries,
+  calcSeries,
+  currentPrice,
+  discountEndMonth,
+  effectivePrice,
+  intervalMonthsOf,
+  marginOf,
+  monthKey,
+  monthsBetweenInclusive,
+  priceInMonth,
+  prorationSeries,
+  shiftMonth,
+  variableMRR,
+  withProration,
+  withVariableMrr,
+} from "./src/lib/revenue";
+import {
+  configuredStoreKind,
+  createMemoryStore,
+  createStore,
+  discardUnreadableState,
+  unreadableStates,
+  type CompanyPatch,
+  type InvoicePatch,
+  type RevenueState,
+  type UnreadableState,
+} from "./src/lib/store";
+import { calcVatReport, toGross, VAT_CODES, VAT_LABEL, vatCodeOf, type VatQuarter } from "./src/lib/vat";
+import { buildXlsx, type XlsxSheet } from "./src/lib/xlsx";
+import type {
+  AuditAction,
+  AuditEntry,
+  BillingType,
+  Cadence,
+  Company,
+  Customer,
+  Discount,
+  DiscountKind,
+  ExchangeRate,
+  Expense,
+  Invoice,
+  InvoiceStatus,
+  Payment,
+  PriceChange,
+  Product,
+  ProrationPolicy,
+  Subscription,
+  VariableMap,
+  VariableMrr,
+  VatCode,
+} from "./src/lib/types";
 
 /**********************
  * Table Tech – Multi‑business Revenue Tracker (React, no external UI libs)
- * - Cash vs MRR view
- * - Recurring (monthly/yearly), One‑time, and Variable monthly income
+ * - Cash vs MRR vs Profit (revenue minus expenses) view
+ * - Recurring (weekly, monthly, quarterly, half-yearly, yearly or every N months), One‑time, and Variable monthly income
  * - Inline SVG bar chart with month labels + hover tooltip
- * - LocalStorage persistence
- * - Simple editable table + modals
+ * - Pluggable persistence: localStorage, Postgres through the HTTP API (npm run server) or in-memory (VITE_STORAGE_BACKEND)
+ * - Simple editable table + modals (incl. CSV import with column mapping)
+ * - CSV / XLSX export of items and monthly series
+ * - JSON backup/restore with versioned state (older backups are upgraded)
+ * - SaaS metrics: MRR movements waterfall, churn, NRR/GRR and ARPA
+ * - Cohort retention by start month: retained logos and MRR as a heatmap triangle
+ * - Cash/MRR forecast for the coming 3–24 months (dashed bars after the current month)
+ * - Multi-currency items, monthly exchange-rate table and a reporting currency
+ * - BTW tariffs per company/item, net or gross view and a quarterly VAT report
+ * - Product catalog per company (pre-fills items, revenue per product)
+ * - Customer records with duplicate merging, customer page (timeline, lifetime value) and top-customer rankings
+ * - Draft invoices per customer and billing month, numbered per company, printable as HTML/PDF
+ * - Payment tracking: expected vs. received per month, overdue receivables by age, received-only cash view
+ * - Variable income in MRR: trailing average, median or last value, globally or per item
+ * - Proration of partial first and last periods per company (per day or half-month rule)
+ * - Discounts and time-limited promotions per item (percentage or fixed, for a period or N billing cycles)
+ * - Change history of companies and items (who, when, before/after) with undo/redo (Ctrl+Z / Ctrl+Shift+Z)
  * - Lightweight runtime tests at the bottom (console.assert)
  **********************/
 
 // ------------------------------
-// Types
+// Utils
 // ------------------------------
+const uid = () => Math.random().toString(36).slice(2) + Date.now().toString(36);
 
-type Cadence = "monthly" | "yearly";
+// UI preferences, kept outside the versioned data
+const REPORTING_CURRENCY_KEY = "income-tracker-reporting-currency";
+const VARIABLE_MRR_KEY = "income-tracker-variable-mrr";
+const USER_NAME_KEY = "income-tracker-user";
 
-type BillingType = "recurring" | "onetime" | "variable";
+/** Choices for normalizing variable income into MRR, encoded as "method:months" */
+const VARIABLE_MRR_OPTIONS: { value: string; label: string }[] = [
+  { value: "off:1", label: "Variabel: niet in MRR" },
+  { value: "average:3", label: "Gemiddelde 3 mnd" },
+  { value: "average:6", label: "Gemiddelde 6 mnd" },
+  { value: "average:12", label: "Gemiddelde 12 mnd" },
+  { value: "median:3", label: "Mediaan 3 mnd" },
+  { value: "median:6", label: "Mediaan 6 mnd" },
+  { value: "median:12", label: "Mediaan 12 mnd" },
+  { value: "last:12", label: "Laatste waarde" },
+];
+const DEFAULT_VARIABLE_MRR: VariableMrr = { method: "off", months: 1 };
 
-type Company = {
-  id: string;
-  name: string;
+const PRORATION_LABEL: Record<ProrationPolicy, string> = {
+  none: "Volledige periode",
+  daily: "Per dag",
+  halfmonth: "Halve-maandregel",
 };
 
-type VariableMap = Record<string, number>; // YYYY-MM -> amount
+const encodeVariableMrr = (v: VariableMrr) => `${v.method}:${v.months}`;
 
-type Subscription = {
-  id: string;
-  companyId: string | null;
-  productId: string | null;
-  customer: string;
-  planName: string;
-  price: number; // base price in EUR
-  billingType: BillingType;
-  cadence: Cadence; // used only when billingType === "recurring"
-  startDate: string; // yyyy-mm-dd (for onetime: payment date)
-  cancelDate: string | null; // yyyy-mm-dd or null (recurring only)
-  variableAmounts?: VariableMap; // when billingType === "variable"
-  notes?: string;
-};
+function decodeVariableMrr(value: string | null): VariableMrr {
+  const option = VARIABLE_MRR_OPTIONS.find((o) => o.value === value);
+  if (!option) return DEFAULT_VARIABLE_MRR;
+  const [method, months] = option.value.split(":");
+  return { method: method as VariableMrr["method"], months: Number(months) };
+}
+
+/** Currency formatter – USED by chart tooltip and KPIs (amounts in the reporting currency) */
+function fmtMoney(n: number, currency: string = BASE_CURRENCY) {
+  return new Intl.NumberFormat("nl-NL", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(n || 0);
+}
 
 // ------------------------------
-// Utils
+// Date ranges for the dashboard
 // ------------------------------
-const uid = () => Math.random().toString(36).slice(2) + Date.now().toString(36);
+type RangePreset = "year" | "last12" | "ytd" | "years" | "custom";
 
-const STORAGE_KEY = "income-tracker-data-v6"; // bump key to avoid corrupt caches
+type DateRange = {
+  preset: RangePreset;
+  year: number; // preset "year"
+  fromYear: number; // preset "years"
+  toYear: number;
+  from: string; // preset "custom": YYYY-MM
+  to: string;
+};
 
-function loadState(): { companies: Company[]; subs: Subscription[] } | null {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return null;
-    return JSON.parse(raw);
-  } catch {
-    return null;
+function resolveRange(range: DateRange, today: Date = new Date()): { from: string; to: string } {
+  const cur = monthKey(today);
+  switch (range.preset) {
+    case "last12":
+      return { from: shiftMonth(cur, -11), to: cur };
+    case "ytd":
+      return { from: `${today.getFullYear()}-01`, to: cur };
+    case "years":
+      return { from: `${Math.min(range.fromYear, range.toYear)}-01`, to: `${Math.max(range.fromYear, range.toYear)}-12` };
+    case "custom":
+      if (range.from && range.to) return range.from <= range.to ? { from: range.from, to: range.to } : { from: range.to, to: range.from };
+      return { from: `${range.year}-01`, to: `${range.year}-12` };
+    default:
+      return { from: `${range.year}-01`, to: `${range.year}-12` };
   }
 }
 
-function saveState(state: any) {
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
-  } catch {}
+function rangeLabel(range: DateRange, resolved: { from: string; to: string }) {
+  switch (range.preset) {
+    case "year":
+      return String(range.year);
+    case "last12":
+      return "laatste 12 maanden";
+    case "ytd":
+      return `${resolved.from.slice(0, 4)} t/m heden`;
+    case "years":
+      return resolved.from.slice(0, 4) === resolved.to.slice(0, 4) ? resolved.from.slice(0, 4) : `${resolved.from.slice(0, 4)}–${resolved.to.slice(0, 4)}`;
+    default:
+      return `${resolved.from} t/m ${resolved.to}`;
+  }
 }
 
-/** Currency formatter – USED by chart tooltip and KPIs */
-function fmtEUR(n: number) {
-  return new Intl.NumberFormat("nl-NL", {
-    style: "currency",
-    currency: "EUR",
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(n || 0);
+/** Growth as a fraction of the previous value; null when there is nothing to compare with */
+function growthOf(current: number, previous: number) {
+  return previous !== 0 ? (current - previous) / Math.abs(previous) : null;
 }
 
-function monthKey(d: Date | string) {
-  const dt = typeof d === "string" ? new Date(d) : d;
-  return `${dt.getFullYear()}-${String(dt.getMonth() + 1).padStart(2, "0")}`; // YYYY-MM
+type CompanyProfit = { companyId: string | null; name: string; revenue: number; expenses: number; profit: number; margin: number | null };
+
+function profitByCompany(companies: Company[], subs: Subscription[], expenses: Expense[], months: string[], fx?: Fx): CompanyProfit[] {
+  const groups: { companyId: string | null; name: string }[] = [
+    ...companies.map((c) => ({ companyId: c.id, name: c.name })),
+    { companyId: null, name: "Zonder bedrijf" },
+  ];
+  return groups
+    .map(({ companyId, name }) => {
+      const revenue = calcSeries(subs.filter((s) => s.companyId === companyId), "cash", months, fx).reduce((a, b) => a + b.amount, 0);
+      const cost = calcExpenseSeries(expenses.filter((e) => e.companyId === companyId), months, fx).reduce((a, b) => a + b.amount, 0);
+      return { companyId, name, revenue, expenses: cost, profit: revenue - cost, margin: marginOf(revenue, revenue - cost) };
+    })
+    .filter((row) => row.companyId !== null || row.revenue !== 0 || row.expenses !== 0);
 }
 
-function monthsBetweenInclusive(startYYYYMM: string, endYYYYMM: string) {
-  const [sy, sm] = startYYYYMM.split("-").map(Number);
-  const [ey, em] = endYYYYMM.split("-").map(Number);
-  const cur = new Date(sy, sm - 1, 1);
-  const last = new Date(ey, em - 1, 1);
-  const out: string[] = [];
-  while (cur <= last) {
-    out.push(`${cur.getFullYear()}-${String(cur.getMonth() + 1).padStart(2, "0")}`);
-    cur.setMonth(cur.getMonth() + 1);
-  }
-  return out;
+const COMPANY_COLORS = ["#f5d38b", "#93c5fd", "#86efac", "#fca5a5", "#c4b5fd", "#fdba74", "#67e8f9", "#f9a8d4"];
+const NO_COMPANY_COLOR = "#d4d4d8";
+
+type StackGroup = { key: string; id: string | null; label: string; color: string };
+
+/** Stack one series per group; `calc` computes the series of a group, groups without any amount are left out */
+function stackGroups(groups: StackGroup[], months: string[], calc: (id: string | null) => { month: string; amount: number }[]) {
+  const perGroup = groups
+    .map((g) => ({ ...g, series: calc(g.id) }))
+    .filter((g) => g.series.some((x) => x.amount !== 0));
+  const data = months.map((mk, i) => {
+    const segments = perGroup.map((g) => ({ key: g.key, label: g.label, color: g.color, amount: g.series[i].amount }));
+    return { month: mk, amount: segments.reduce((a, b) => a + b.amount, 0), segments };
+  });
+  return { data, legend: perGroup.map(({ key, label, color }) => ({ key, label, color })) };
 }
 
-function isActiveInMonth(sub: Subscription, year: number, month: number) {
-  if (sub.billingType === "onetime") {
-    const mk = `${year}-${String(month).padStart(2, "0")}`;
-    return mk === monthKey(sub.startDate);
-  }
-  if (sub.billingType === "variable") {
-    const mk = `${year}-${String(month).padStart(2, "0")}`;
-    return !!sub.variableAmounts && sub.variableAmounts[mk] != null;
-  }
-  const mStart = new Date(year, month - 1, 1);
-  const mEnd = new Date(year, month, 0);
-  const start = new Date(sub.startDate);
-  const cancel = sub.cancelDate ? new Date(sub.cancelDate) : null;
-  const activeStart = start <= mEnd;
-  const activeEnd = !cancel || cancel >= mStart;
-  return activeStart && activeEnd;
+/**
+ * Split a series into one stacked segment per company. `calc` computes the series for the
+ * items of one company (null = items without company); companies without any amount are left out.
+ */
+function stackByCompany(
+  companies: Company[],
+  months: string[],
+  calc: (companyId: string | null) => { month: string; amount: number }[]
+) {
+  return stackGroups(
+    [
+      ...companies.map((c, i) => ({ key: c.id, id: c.id as string | null, label: c.name, color: COMPANY_COLORS[i % COMPANY_COLORS.length] })),
+      { key: "none", id: null, label: "Zonder bedrijf", color: NO_COMPANY_COLOR },
+    ],
+    months,
+    calc
+  );
 }
 
-function billMonthsCash(sub: Subscription, fromYYYYMM: string, toYYYYMM: string) {
-  const out = new Set<string>();
-  const months = monthsBetweenInclusive(fromYYYYMM, toYYYYMM);
+/** Same as stackByCompany, one segment per catalog product (null = items without product) */
+function stackByProduct(
+  products: Product[],
+  months: string[],
+  calc: (productId: string | null) => { month: string; amount: number }[]
+) {
+  return stackGroups(
+    [
+      ...products.map((p, i) => ({ key: p.id, id: p.id as string | null, label: p.name, color: COMPANY_COLORS[i % COMPANY_COLORS.length] })),
+      { key: "none", id: null, label: "Zonder product", color: NO_COMPANY_COLOR },
+    ],
+    months,
+    calc
+  );
+}
 
-  if (sub.billingType === "onetime") {
-    const mk = monthKey(sub.startDate);
-    if (months.includes(mk)) out.add(mk);
-    return out;
-  }
+type ProductRevenue = {
+  productId: string | null;
+  name: string;
+  companyId: string | null;
+  items: number;
+  revenue: number; // cash in the selected months
+  mrr: number; // MRR in `currentMonth`
+};
 
-  if (sub.billingType === "variable") {
-    for (const mk of months) {
-      if (sub.variableAmounts && sub.variableAmounts[mk] != null) out.add(mk);
-    }
-    return out;
-  }
+/** Cash revenue and current MRR per catalog product, largest first; items without product are grouped last */
+function revenueByProduct(products: Product[], subs: Subscription[], months: string[], currentMonth: string, fx?: Fx): ProductRevenue[] {
+  const row = (productId: string | null, name: string, companyId: string | null): ProductRevenue => {
+    const linked = subs.filter((s) => (s.productId ?? null) === productId);
+    return {
+      productId,
+      name,
+      companyId,
+      items: linked.length,
+      revenue: calcSeries(linked, "cash", months, fx).reduce((a, b) => a + b.amount, 0),
+      mrr: calcSeries(linked, "mrr", [currentMonth], fx)[0].amount,
+    };
+  };
+  const rows = products.map((p) => row(p.id, p.name, p.companyId)).filter((r) => r.items > 0);
+  rows.sort((a, b) => b.revenue - a.revenue);
+  const rest = row(null, "Zonder product", null);
+  return rest.items > 0 ? [...rows, rest] : rows;
+}
 
-  // Recurring: Monthly -> each active month; Yearly -> only anniversary month
-  const start = new Date(sub.startDate);
-  const annMonth = start.getMonth() + 1;
-  for (const mk of months) {
-    const [y, m] = mk.split("-").map(Number);
-    if (!isActiveInMonth(sub, y, m)) continue;
-    if (sub.cadence === "monthly") out.add(mk);
-    else if (m === annMonth) out.add(mk);
-  }
-  return out;
+function fmtPct(n: number | null) {
+  return n == null ? "—" : `${(n * 100).toFixed(1).replace(".", ",")}%`;
 }
 
-function monthlyMRR(sub: Subscription) {
-  if (sub.billingType === "onetime") return 0; // excluded from MRR by default
-  if (sub.billingType === "variable") return 0; // default: don't convert variable to MRR
-  return sub.cadence === "monthly" ? sub.price : sub.price / 12;
+// ------------------------------
+// Export (CSV / XLSX)
+// ------------------------------
+const BILLING_LABEL: Record<BillingType, string> = { recurring: "Abonnement", onetime: "Eenmalig", variable: "Variabel" };
+const CADENCE_LABEL: Record<Cadence, string> = {
+  weekly: "Wekelijks",
+  monthly: "Maandelijks",
+  quarterly: "Per kwartaal",
+  halfyearly: "Halfjaarlijks",
+  yearly: "Jaarlijks",
+  custom: "Elke N maanden",
+};
+
+function cadenceLabel(sub: Pick<Subscription, "cadence" | "intervalMonths">) {
+  return sub.cadence === "custom" ? `Elke ${intervalMonthsOf(sub)} maanden` : CADENCE_LABEL[sub.cadence];
 }
 
-function calcSeries(
-  subs: Subscription[],
-  mode: "cash" | "mrr",
-  months: string[]
-) {
-  const map: Record<string, number> = Object.fromEntries(months.map((k) => [k, 0]));
-  for (const sub of subs) {
-    if (mode === "cash") {
-      if (sub.billingType === "variable") {
-        for (const mk of months) {
-          const v = sub.variableAmounts?.[mk];
-          if (v != null) map[mk] += v;
-        }
-        continue;
-      }
-      const cashMonths = billMonthsCash(sub, months[0], months[months.length - 1]);
-      for (const mk of cashMonths) map[mk] += sub.price;
-    } else {
-      if (sub.billingType === "variable") {
-        // no MRR impact by default
-        continue;
-      }
-      for (const mk of months) {
-        const [y, m] = mk.split("-").map(Number);
-        if (isActiveInMonth(sub, y, m)) map[mk] += monthlyMRR(sub);
-      }
-    }
+function companyName(companies: Company[], id: string | null) {
+  return companies.find((c) => c.id === id)?.name ?? "";
+}
+
+function buildItemRows(subs: Subscription[], companies: Company[]): CsvCell[][] {
+  return [
+    ["Bedrijf", "Klant", "Plan", "Type", "Frequentie", "Prijs", "Prijs na korting", "Valuta", "BTW", "Start", "Eind", "Notities"],
+    ...subs.map((s) => [
+      companyName(companies, s.companyId),
+      s.customer,
+      s.planName,
+      BILLING_LABEL[s.billingType],
+      s.billingType === "recurring" ? cadenceLabel(s) : "",
+      currentPrice(s),
+      s.billingType === "variable" ? "" : effectivePrice(s, monthKey(new Date())),
+      s.currency ?? BASE_CURRENCY,
+      VAT_LABEL[vatCodeOf(s, companies)],
+      s.startDate,
+      s.cancelDate ?? "",
+      s.notes ?? "",
+    ]),
+  ];
+}
+
+/** Quarterly VAT report (calcVatReport output): one row per tariff plus a total per quarter */
+function buildVatRows(report: VatQuarter[]): CsvCell[][] {
+  return [
+    ["Kwartaal", "Tarief", "Omzet excl. BTW", "BTW"],
+    ...report.flatMap((q) => [
+      ...q.rows.map((r) => [q.quarter, VAT_LABEL[r.code], r.turnover, r.vat]),
+      [q.quarter, "Totaal", q.turnover, q.vat],
+    ]),
+  ];
+}
+
+/** Cash and MRR per month (calcSeries output) for one set of items, in the reporting currency */
+function buildSeriesRows(subs: Subscription[], months: string[], fx?: Fx): CsvCell[][] {
+  const cash = calcSeries(subs, "cash", months, fx);
+  const mrr = calcSeries(subs, "mrr", months, fx);
+  const cur = fx?.to ?? BASE_CURRENCY;
+  return [["Maand", `Cash (${cur})`, `MRR (${cur})`], ...months.map((mk, i) => [mk, cash[i].amount, mrr[i].amount])];
+}
+
+/** The groups an export is split into: every company with items, plus items without company */
+function exportGroups(subs: Subscription[], companies: Company[]) {
+  const groups = [
+    ...companies.map((c) => ({ name: c.name, subs: subs.filter((s) => s.companyId === c.id) })),
+    { name: "Zonder bedrijf", subs: subs.filter((s) => !s.companyId || !companies.some((c) => c.id === s.companyId)) },
+  ];
+  return groups.filter((g) => g.subs.length > 0);
+}
+
+/** Long format for CSV: one row per month per company, plus the total */
+function buildSeriesCsvRows(subs: Subscription[], companies: Company[], months: string[], fx?: Fx): CsvCell[][] {
+  const cur = fx?.to ?? BASE_CURRENCY;
+  const rows: CsvCell[][] = [["Maand", "Bedrijf", `Cash (${cur})`, `MRR (${cur})`]];
+  for (const g of [...exportGroups(subs, companies), { name: "Totaal", subs }]) {
+    for (const [mk, cash, mrr] of buildSeriesRows(g.subs, months, fx).slice(1)) rows.push([mk, g.name, cash, mrr]);
   }
-  // Integer bars for visual cleanliness (keep existing behavior)
-  return months.map((mk) => ({ month: mk, amount: Math.round(map[mk]) }));
+  return rows;
+}
+
+/** Workbook: items, totals and one sheet per company */
+function buildExportSheets(subs: Subscription[], companies: Company[], months: string[], fx?: Fx): XlsxSheet[] {
+  return [
+    { name: "Items", rows: buildItemRows(subs, companies) },
+    { name: "Totaal", rows: buildSeriesRows(subs, months, fx) },
+    ...exportGroups(subs, companies).map((g) => ({ name: g.name, rows: buildSeriesRows(g.subs, months, fx) })),
+  ];
+}
+
+function downloadFile(filename: string, data: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
 }
 
 // ------------------------------
 // Seed data
 // ------------------------------
-const seed = {
+const seedItems: RevenueState = {
   companies: [
     { id: uid(), name: "TableTech" },
     { id: uid(), name: "WishWeb" },
     { id: uid(), name: "Carlendify" },
   ] as Company[],
+  customers: [],
+  products: [],
   subs: [
     // recurring monthly
     {
@@ -249,8 +461,25 @@ const seed = {
       notes: "Vul per maand in",
     },
   ] as Subscription[],
+  payments: [],
+  expenses: [
+    {
+      id: uid(),
+      companyId: null,
+      amount: 45,
+      description: "Hosting",
+      category: "Software",
+      date: "2025-05-01",
+    },
+  ] as Expense[],
+  rates: [],
+  invoices: [],
+  audit: [],
 };
 
+// One customer record per seed customer name
+const seed: RevenueState = { ...seedItems, ...linkCustomers([], seedItems.subs, uid) };
+
 // ------------------------------
 // Simple UI primitives (pure React + Tailwind classes only)
 // ------------------------------
@@ -310,7 +539,7 @@ const Modal: React.FC<{ open: boolean; onClose: () => void; title: string; child
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
       <div className="absolute inset-0 bg-black/30" onClick={onClose} />
-      <div className={`relative z-10 w-[min(860px,92vw)] rounded-2xl bg-white p-4 shadow-xl ${className}`}>
+      <div role="dialog" aria-modal="true" className={`relative z-10 w-[min(860px,92vw)] rounded-2xl bg-white p-4 shadow-xl ${className}`}>
         <div className="mb-3 text-lg font-semibold">{title}</div>
         {children}
       </div>
@@ -335,11 +564,34 @@ const IconCalendar = (props: any) => (
 // ------------------------------
 // Chart with labels + hover tooltip
 // ------------------------------
-const MiniBarChartLabeled: React.FC<{ data: { month: string; amount: number }[] }> = ({ data }) => {
+type ChartSegment = { key: string; label: string; amount: number; color: string };
+type ChartDatum = { month: string; amount: number; segments?: ChartSegment[]; forecast?: boolean };
+type ChartLegendItem = { key: string; label: string; color: string };
+
+const MiniBarChartLabeled: React.FC<{
+  data: ChartDatum[];
+  legend?: ChartLegendItem[];
+  compare?: { month: string; amount: number }[]; // same months one year earlier, drawn as ghost bars
+  prorated?: { month: string; amount: number }[]; // proration per month, shown in the tooltip
+  currency?: string;
+}> = ({ data, legend, compare, prorated, currency }) => {
+  const fmt = (n: number) => fmtMoney(n, currency);
   const width = 800;
   const height = 260;
   const pad = 36;
-  const max = Math.max(1, ...data.map((d) => d.amount));
+  // Stacks: positive segments grow up from zero, negative ones (e.g. a loss-making month) hang below it
+  const stacks = data.map((d) => {
+    const segs = d.segments ?? [{ key: "total", label: "", amount: d.amount, color: d.amount >= 0 ? "#f5d38b" : "#fca5a5" }];
+    return {
+      segs,
+      pos: segs.reduce((a, s) => a + Math.max(0, s.amount), 0),
+      neg: segs.reduce((a, s) => a + Math.min(0, s.amount), 0),
+    };
+  });
+  const max = Math.max(1, ...stacks.map((s) => s.pos), ...(compare ?? []).map((c) => c.amount));
+  const min = Math.min(0, ...stacks.map((s) => s.neg), ...(compare ?? []).map((c) => c.amount));
+  const scale = (height - pad * 2) / (max - min);
+  const zeroY = pad + max * scale;
   const step = (width - pad * 2) / data.length;
   const barW = Math.max(6, step * 0.6);
 
@@ -348,6 +600,21 @@ const MiniBarChartLabeled: React.FC<{ data: { month: string; amount: number }[]
     const m = Number(mk.slice(5)) - 1;
     return MONTHS_NL[m] ?? mk;
   };
+  // Long ranges: thin out the axis labels and mark January with the year
+  const multiYear = data.length > 0 && data[0].month.slice(0, 4) !== data[data.length - 1].month.slice(0, 4);
+  const labelEvery = Math.ceil(data.length / 24);
+  const hasForecast = data.some((d) => d.forecast);
+  const axisLabel = (mk: string) => (multiYear && mk.endsWith("-01") ? `${monthLabel(mk)} '${mk.slice(2, 4)}` : monthLabel(mk));
+  const compareText = (i: number, amount: number) => {
+    const prev = compare?.[i];
+    if (!prev) return "";
+    const g = growthOf(amount, prev.amount);
+    return ` · vorig jaar ${fmt(prev.amount)}${g == null ? "" : ` (${g >= 0 ? "+" : ""}${fmtPct(g)})`}`;
+  };
+  const proratedText = (mk: string) => {
+    const amount = prorated?.find((p) => p.month === mk)?.amount;
+    return amount ? ` · incl. pro rata ${fmt(amount)}` : "";
+  };
 
   const [tip, setTip] = React.useState<null | { x: number; y: number; text: string }>(null);
   const wrapRef = React.useRef<HTMLDivElement>(null);
@@ -359,41 +626,1455 @@ const MiniBarChartLabeled: React.FC<{ data: { month: string; amount: number }[]
   };
 
   return (
-    <div className="relative w-full h-64" ref={wrapRef}>
+    <div>
+      <div className="relative w-full h-64" ref={wrapRef}>
+        <svg viewBox={`0 0 ${width} ${height}`} className="absolute inset-0 w-full h-full">
+          <rect x={0} y={0} width={width} height={height} fill="white" />
+          {/* grid */}
+          {[0.25, 0.5, 0.75].map((p) => (
+            <line key={p} x1={pad} x2={width - pad} y1={pad + (height - pad * 2) * p} y2={pad + (height - pad * 2) * p} stroke="#e5e7eb" />
+          ))}
+          {data.map((d, i) => {
+            const x = pad + i * step + (step - barW) / 2;
+            const monthText = `${monthLabel(d.month)} ${d.month.slice(0, 4)}`;
+            const prev = compare?.[i];
+            let up = 0;
+            let down = 0;
+            return (
+              <g key={d.month}>
+                {prev && prev.amount !== 0 && (
+                  <rect
+                    x={x - barW * 0.25}
+                    y={prev.amount >= 0 ? zeroY - prev.amount * scale : zeroY}
+                    width={barW}
+                    height={Math.abs(prev.amount) * scale}
+                    fill="#a1a1aa"
+                    fillOpacity={0.25}
+                    stroke="#a1a1aa"
+                    strokeDasharray="3 2"
+                    rx={4}
+                    onMouseEnter={(e) => handleMove(e, `${monthText} — ${fmt(d.amount)}${compareText(i, d.amount)}${proratedText(d.month)}`)}
+                    onMouseMove={(e) => handleMove(e, `${monthText} — ${fmt(d.amount)}${compareText(i, d.amount)}${proratedText(d.month)}`)}
+                    onMouseLeave={() => setTip(null)}
+                  />
+                )}
+                {stacks[i].segs.map((seg) => {
+                  if (!seg.amount) return null;
+                  const h = Math.abs(seg.amount) * scale;
+                  const y = seg.amount >= 0 ? zeroY - up * scale - h : zeroY + Math.abs(down) * scale;
+                  if (seg.amount >= 0) up += seg.amount; else down += seg.amount;
+                  const label = (d.forecast ? "Prognose · " : "") + (d.segments
+                    ? `${monthText} — ${seg.label}: ${fmt(seg.amount)} (totaal ${fmt(d.amount)})`
+                    : `${monthText} — ${fmt(d.amount)}`) + compareText(i, d.amount) + proratedText(d.month);
+                  return (
+                    <rect
+                      key={seg.key}
+                      x={x}
+                      y={y}
+                      width={barW}
+                      height={h}
+                      fill={seg.color}
+                      fillOpacity={d.forecast ? 0.45 : 1}
+                      stroke={d.forecast ? "#71717a" : undefined}
+                      strokeDasharray={d.forecast ? "4 3" : undefined}
+                      rx={d.segments ? 1 : 4}
+                      onMouseEnter={(e) => handleMove(e, label)}
+                      onMouseMove={(e) => handleMove(e, label)}
+                      onMouseLeave={() => setTip(null)}
+                    />
+                  );
+                })}
+                {i % labelEvery === 0 && (
+                  <text x={x + barW / 2} y={height - pad + 16} textAnchor="middle" fontSize="12" fill="#71717a">
+                    {axisLabel(d.month)}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+          <line x1={pad} x2={width - pad} y1={zeroY} y2={zeroY} stroke="#d4d4d8" />
+          <line x1={pad} x2={pad} y1={pad} y2={height - pad} stroke="#d4d4d8" />
+        </svg>
+        {tip && (
+          <div
+            className="pointer-events-none absolute rounded-md border border-zinc-200 bg-white px-2 py-1 text-xs shadow-md"
+            style={{ left: tip.x, top: tip.y }}
+          >
+            {tip.text}
+          </div>
+        )}
+      </div>
+      {((legend && legend.length > 0) || compare || hasForecast) && (
+        <div className="mt-2 flex flex-wrap gap-3 text-xs text-zinc-600">
+          {(legend ?? []).map((l) => (
+            <span key={l.key} className="flex items-center gap-1">
+              <span className="inline-block h-3 w-3 rounded-sm" style={{ background: l.color }} />
+              {l.label}
+            </span>
+          ))}
+          {compare && (
+            <span className="flex items-center gap-1">
+              <span className="inline-block h-3 w-3 rounded-sm border border-dashed border-zinc-400 bg-zinc-200" />
+              Vorig jaar
+            </span>
+          )}
+          {hasForecast && (
+            <span className="flex items-center gap-1">
+              <span className="inline-block h-3 w-3 rounded-sm border border-dashed border-zinc-500 bg-amber-100" />
+              Prognose
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ------------------------------
+// Waterfall: start MRR -> movements -> end MRR
+// ------------------------------
+type WaterfallStep = { label: string; value: number; kind: "total" | "up" | "down" };
+
+const WaterfallChart: React.FC<{ steps: WaterfallStep[]; currency?: string }> = ({ steps, currency }) => {
+  const fmt = (n: number) => fmtMoney(n, currency);
+  const width = 800;
+  const height = 220;
+  const pad = 36;
+  // Running level after each step; totals reset the level
+  let level = 0;
+  const bars = steps.map((st) => {
+    const from = st.kind === "total" ? 0 : level;
+    const to = st.kind === "total" ? st.value : st.kind === "up" ? level + st.value : level - st.value;
+    level = to;
+    return { ...st, lo: Math.min(from, to), hi: Math.max(from, to) };
+  });
+  const max = Math.max(1, ...bars.map((b) => b.hi));
+  const scale = (height - pad * 2) / max;
+  const step = (width - pad * 2) / Math.max(1, bars.length);
+  const barW = Math.max(6, step * 0.6);
+  const color = { total: "#a1a1aa", up: "#86efac", down: "#fca5a5" };
+
+  return (
+    <div className="relative w-full h-56">
       <svg viewBox={`0 0 ${width} ${height}`} className="absolute inset-0 w-full h-full">
-        <rect x={0} y={0} width={width} height={height} fill="white" />
-        {/* grid */}
-        {[0.25, 0.5, 0.75].map((p) => (
-          <line key={p} x1={pad} x2={width - pad} y1={pad + (height - pad * 2) * p} y2={pad + (height - pad * 2) * p} stroke="#e5e7eb" />
-        ))}
-        {data.map((d, i) => {
+        {bars.map((b, i) => {
           const x = pad + i * step + (step - barW) / 2;
-          const h = (d.amount / max) * (height - pad * 2);
-          const y = height - pad - h;
-          const label = `${monthLabel(d.month)} ${d.month.slice(0, 4)} — ${fmtEUR(d.amount)}`;
+          const y = height - pad - b.hi * scale;
+          const h = Math.max(1, (b.hi - b.lo) * scale);
           return (
-            <g
-              key={d.month}
-              onMouseEnter={(e) => handleMove(e, label)}
-              onMouseMove={(e) => handleMove(e, label)}
-              onMouseLeave={() => setTip(null)}
-            >
-              <rect x={x} y={y} width={barW} height={h} fill="#f5d38b" rx={4} />
-              <text x={x + barW / 2} y={height - pad + 16} textAnchor="middle" fontSize="12" fill="#71717a">
-                {monthLabel(d.month)}
+            <g key={b.label}>
+              <rect x={x} y={y} width={barW} height={h} fill={color[b.kind]} rx={3}>
+                <title>{`${b.label}: ${b.kind === "down" ? "−" : ""}${fmt(b.value)}`}</title>
+              </rect>
+              <text x={x + barW / 2} y={y - 4} textAnchor="middle" fontSize="11" fill="#3f3f46">
+                {b.kind === "down" ? "−" : b.kind === "up" ? "+" : ""}{Math.round(b.value)}
               </text>
+              <text x={x + barW / 2} y={height - pad + 16} textAnchor="middle" fontSize="12" fill="#71717a">{b.label}</text>
             </g>
           );
         })}
         <line x1={pad} x2={width - pad} y1={height - pad} y2={height - pad} stroke="#d4d4d8" />
-        <line x1={pad} x2={pad} y1={pad} y2={height - pad} stroke="#d4d4d8" />
       </svg>
-      {tip && (
-        <div
-          className="pointer-events-none absolute rounded-md border border-zinc-200 bg-white px-2 py-1 text-xs shadow-md"
-          style={{ left: tip.x, top: tip.y }}
-        >
-          {tip.text}
+    </div>
+  );
+};
+
+// ------------------------------
+// Cohort retention: triangle of retained logos or MRR per start month, coloured by share retained
+// ------------------------------
+const heatColor = (share: number | null) => (share == null ? undefined : `rgba(16, 185, 129, ${(0.08 + 0.62 * Math.min(1, share)).toFixed(2)})`);
+
+const CohortTable: React.FC<{
+  cohorts: Cohort[];
+  metric: "logos" | "mrr";
+  showShare: boolean; // percentages of the start month instead of absolute values
+  currency?: string;
+}> = ({ cohorts, metric, showShare, currency }) => {
+  const width = Math.max(0, ...cohorts.map((c) => c.cells.length));
+  const value = (cell: CohortCell) => (metric === "mrr" ? fmtMoney(cell.mrr, currency) : String(cell.logos));
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-xs">
+        <thead>
+          <tr className="text-left text-zinc-600">
+            <th className="px-2 py-2">Startmaand</th>
+            <th className="px-2 py-2 text-right">Items</th>
+            {Array.from({ length: width }, (_, i) => (
+              <th key={i} className="px-2 py-2 text-right">M{i}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {cohorts.map((c) => (
+            <tr key={c.cohort} className="border-t">
+              <td className="px-2 py-1">{c.cohort}</td>
+              <td className="px-2 py-1 text-right">{c.items}</td>
+              {Array.from({ length: width }, (_, i) => {
+                const cell = c.cells[i];
+                const share = retentionOf(c, i, metric);
+                return (
+                  <td key={i} className="px-2 py-1 text-right" style={{ background: heatColor(share) }} title={cell ? `${cell.month}: ${value(cell)} (${fmtPct(share)})` : undefined}>
+                    {cell ? (showShare ? fmtPct(share) : value(cell)) : ""}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+function waterfallSteps(m: MonthMetrics): WaterfallStep[] {
+  return [
+    { label: "Start", value: m.startMRR, kind: "total" },
+    { label: "Nieuw", value: m.newMRR, kind: "up" },
+    { label: "Reactivatie", value: m.reactivated, kind: "up" },
+    { label: "Expansie", value: m.expansion, kind: "up" },
+    { label: "Contractie", value: m.contraction, kind: "down" },
+    { label: "Churn", value: m.churned, kind: "down" },
+    { label: "Eind", value: m.endMRR, kind: "total" },
+  ];
+}
+
+// ------------------------------
+// CSV import: file -> column mapping -> validated preview -> one batch
+// ------------------------------
+const CsvImportModal: React.FC<{
+  open: boolean;
+  onClose: () => void;
+  companies: Company[];
+  onImport: (batch: ImportBatch) => Promise<void>;
+}> = ({ open, onClose, companies, onImport }) => {
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const headers = rows[0] ?? [];
+  const preview = useMemo(() => (mapping ? buildPreview(rows, mapping) : []), [rows, mapping]);
+  const valid = preview.filter((r) => r.sub);
+  const newCompanies = useMemo(() => missingCompanies(preview, companies), [preview, companies]);
+
+  function loadText(text: string) {
+    const parsed = parseCsv(text);
+    setRows(parsed);
+    setMapping(parsed.length ? guessMapping(parsed[0]) : null);
+  }
+
+  function reset() {
+    setRows([]);
+    setMapping(null);
+    onClose();
+  }
+
+  async function runImport() {
+    setBusy(true);
+    try {
+      await onImport(toImportBatch(preview, companies));
+      reset();
+    } catch {
+      // error is shown by the App banner; keep the preview so the user can retry
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Modal open={open} onClose={reset} title="Items importeren (CSV)" className="w-[min(1100px,96vw)]">
+      <div className="grid gap-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="text-sm"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) file.text().then(loadText);
+            }}
+          />
+          <span className="text-xs text-zinc-500">Eerste regel = kolomnamen. Scheidingsteken ; of , wordt automatisch herkend.</span>
+        </div>
+
+        {mapping && (
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-3 lg:grid-cols-5">
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <div key={field}>
+                <label className="text-xs text-zinc-600">{label}{required ? " *" : ""}</label>
+                <Select
+                  value={mapping[field] == null ? "" : String(mapping[field])}
+                  onChange={(e) => setMapping((m) => ({ ...(m as ColumnMapping), [field as ImportField]: e.target.value === "" ? null : Number(e.target.value) }))}
+                >
+                  <option value="">—</option>
+                  {headers.map((h, i) => (
+                    <option key={i} value={i}>{h || `Kolom ${i + 1}`}</option>
+                  ))}
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {mapping && (
+          <div className="max-h-[45vh] overflow-auto rounded-xl border border-zinc-200">
+            <table className="min-w-full text-xs">
+              <thead className="sticky top-0 bg-zinc-50">
+                <tr className="text-left text-zinc-600">
+                  <th className="px-2 py-2">Regel</th>
+                  <th className="px-2 py-2">Bedrijf</th>
+                  <th className="px-2 py-2">Klant</th>
+                  <th className="px-2 py-2">Plan</th>
+                  <th className="px-2 py-2">Type</th>
+                  <th className="px-2 py-2">Prijs</th>
+                  <th className="px-2 py-2">Start</th>
+                  <th className="px-2 py-2">Eind</th>
+                  <th className="px-2 py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map((r) => (
+                  <tr key={r.line} className={`border-t ${r.errors.length ? "bg-red-50" : ""}`}>
+                    <td className="px-2 py-1">{r.line}</td>
+                    <td className="px-2 py-1">{r.sub?.companyName ?? "—"}</td>
+                    <td className="px-2 py-1">{r.sub?.customer ?? ""}</td>
+                    <td className="px-2 py-1">{r.sub?.planName ?? ""}</td>
+                    <td className="px-2 py-1">{r.sub ? `${BILLING_LABEL[r.sub.billingType]}${r.sub.billingType === "recurring" ? ` / ${cadenceLabel(r.sub)}` : ""}` : ""}</td>
+                    <td className="px-2 py-1">{r.sub ? fmtMoney(r.sub.price, r.sub.currency) : ""}</td>
+                    <td className="px-2 py-1">{r.sub?.startDate ?? ""}</td>
+                    <td className="px-2 py-1">{r.sub?.cancelDate ?? ""}</td>
+                    <td className="px-2 py-1">{r.errors.length ? <span className="text-red-700">{r.errors.join("; ")}</span> : <span className="text-emerald-700">OK</span>}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-xs text-zinc-600">
+            {mapping
+              ? `${valid.length} geldig, ${preview.length - valid.length} met fouten (worden overgeslagen)` +
+                (newCompanies.length ? ` · nieuwe bedrijven: ${newCompanies.join(", ")}` : "")
+              : "Kies een CSV-bestand om te beginnen."}
+          </p>
+          <div className="flex gap-2">
+            <ButtonOutline onClick={reset}>Sluiten</ButtonOutline>
+            <Button disabled={busy || valid.length === 0} onClick={runImport}>Importeer {valid.length} items</Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+// ------------------------------
+// Backup restore: validate + upgrade the file (or the unreadable local data), then replace all data
+// ------------------------------
+const RestoreBackupModal: React.FC<{
+  open: boolean;
+  source?: UnreadableState | null;
+  onClose: () => void;
+  onRestore: (data: RevenueState) => Promise<void>;
+}> = ({ open, source, onClose, onRestore }) => {
+  const [result, setResult] = useState<MigrationResult | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  function reset() {
+    setResult(null);
+    setFileName("");
+    onClose();
+  }
+
+  function readText(name: string, text: string) {
+    setFileName(name);
+    try {
+      setResult(migrateState(JSON.parse(text)));
+    } catch {
+      setResult({ ok: false, problems: ["Bestand is geen geldige JSON"] });
+    }
+  }
+
+  async function readFile(file: File) {
+    readText(file.name, await file.text());
+  }
+
+  useEffect(() => {
+    if (open && source) readText(`Apart gezette gegevens van ${source.savedAt.toLocaleString("nl-NL", { dateStyle: "short", timeStyle: "short" })}`, source.raw);
+  }, [open, source]);
+
+  async function runRestore() {
+    if (!result?.ok) return;
+    setBusy(true);
+    try {
+      await onRestore(result.data);
+      reset();
+    } catch {
+      // error is shown by the App banner
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Modal open={open} onClose={reset} title="Backup herstellen">
+      <div className="grid gap-4">
+        <input
+          type="file"
+          accept=".json,application/json"
+          className="text-sm"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) readFile(file);
+          }}
+        />
+        {result && !result.ok && (
+          <div className="rounded-xl border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+            <p className="mb-1 font-medium">{fileName} kan niet worden hersteld:</p>
+            <ul className="list-disc pl-5">
+              {result.problems.slice(0, 10).map((p, i) => <li key={i}>{p}</li>)}
+              {result.problems.length > 10 && <li>… en nog {result.problems.length - 10} problemen</li>}
+            </ul>
+          </div>
+        )}
+        {result?.ok && (
+          <div className="rounded-xl border border-zinc-200 p-3 text-sm">
+            <p>
+              {fileName}: versie {result.fromVersion}
+              {result.fromVersion < STATE_VERSION ? ` (wordt bijgewerkt naar versie ${STATE_VERSION})` : ""}
+            </p>
+            <p className="text-zinc-600">
+              {result.data.companies.length} bedrijven · {result.data.subs.length} items · {result.data.expenses.length} uitgaven · {result.data.rates.length} wisselkoersen
+            </p>
+            <p className="mt-2 text-xs text-red-700">Let op: alle huidige gegevens worden vervangen.</p>
+          </div>
+        )}
+        <div className="flex justify-end gap-2">
+          <ButtonOutline onClick={reset}>Sluiten</ButtonOutline>
+          <Button disabled={busy || !result?.ok} onClick={runRestore}>Vervang alle gegevens</Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+// ------------------------------
+// Exchange rates: manual entry or a CSV file (maand;valuta;koers), per month
+// ------------------------------
+const ExchangeRatesModal: React.FC<{
+  open: boolean;
+  onClose: () => void;
+  rates: ExchangeRate[];
+  onSave: (rates: ExchangeRate[]) => Promise<void>;
+  onDelete: (month: string, currency: string) => Promise<void>;
+}> = ({ open, onClose, rates, onSave, onDelete }) => {
+  const [draft, setDraft] = useState({ month: monthKey(new Date()), currency: "USD", rate: "" });
+  const [parsed, setParsed] = useState<{ rates: ExchangeRate[]; errors: string[] } | null>(null);
+  const draftCurrency = draft.currency.trim().toUpperCase();
+  const canAdd = /^\d{4}-\d{2}$/.test(draft.month) && /^[A-Z]{3}$/.test(draftCurrency) && draftCurrency !== BASE_CURRENCY && Number(draft.rate) > 0;
+
+  async function readFile(file: File) {
+    setParsed(parseRateRows(parseCsv(await file.text())));
+  }
+
+  return (
+    <Modal open={open} onClose={onClose} title="Wisselkoersen" className="max-w-2xl">
+      <div className="grid gap-4">
+        <p className="text-sm text-zinc-600">
+          Koers = waarde van 1 eenheid in {BASE_CURRENCY} in die maand. Maanden zonder koers gebruiken de laatst bekende koers.
+        </p>
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <label className="text-xs text-zinc-600">Maand</label>
+            <Input type="month" value={draft.month} onChange={(e) => setDraft((d) => ({ ...d, month: e.target.value }))} />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-600">Valuta</label>
+            <Input value={draft.currency} maxLength={3} onChange={(e) => setDraft((d) => ({ ...d, currency: e.target.value }))} className="w-20" placeholder="USD" />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-600">Koers ({BASE_CURRENCY})</label>
+            <Input type="number" min={0} step="0.0001" value={draft.rate} onChange={(e) => setDraft((d) => ({ ...d, rate: e.target.value }))} className="w-28" />
+          </div>
+          <Button
+            disabled={!canAdd}
+            onClick={() => {
+              onSave([{ month: draft.month, currency: draftCurrency, rate: Number(draft.rate) }]).catch(() => {});
+              setDraft((d) => ({ ...d, rate: "" }));
+            }}
+          >
+            Opslaan
+          </Button>
+        </div>
+        <div className="rounded-xl border border-zinc-200 p-3 text-sm">
+          <p className="mb-2 text-xs text-zinc-600">Bestand importeren (CSV met kolommen maand; valuta; koers)</p>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="text-sm"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) readFile(file);
+            }}
+          />
+          {parsed && (
+            <div className="mt-2">
+              {parsed.errors.length > 0 && (
+                <ul className="mb-2 list-disc pl-5 text-xs text-red-700">
+                  {parsed.errors.slice(0, 5).map((err, i) => <li key={i}>{err}</li>)}
+                  {parsed.errors.length > 5 && <li>… en nog {parsed.errors.length - 5} fouten</li>}
+                </ul>
+              )}
+              <Button
+                disabled={parsed.rates.length === 0}
+                onClick={() => {
+                  onSave(parsed.rates).then(() => setParsed(null)).catch(() => {});
+                }}
+              >
+                {parsed.rates.length} koersen importeren
+              </Button>
+            </div>
+          )}
+        </div>
+        <div className="max-h-[35vh] overflow-auto rounded-xl border border-zinc-200">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-50 text-left text-zinc-600">
+              <tr>
+                <th className="px-2 py-1">Maand</th>
+                <th className="px-2 py-1">Valuta</th>
+                <th className="px-2 py-1 text-right">Koers</th>
+                <th className="px-2 py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {rates.length === 0 && (
+                <tr><td colSpan={4} className="px-2 py-3 text-center text-zinc-500">Nog geen wisselkoersen.</td></tr>
+              )}
+              {rates.map((r) => (
+                <tr key={`${r.month}|${r.currency}`} className="border-t">
+                  <td className="px-2 py-1">{r.month}</td>
+                  <td className="px-2 py-1">{r.currency}</td>
+                  <td className="px-2 py-1 text-right">{r.rate.toLocaleString("nl-NL", { maximumFractionDigits: 6 })}</td>
+                  <td className="px-2 py-1 text-right">
+                    <ButtonOutline onClick={() => onDelete(r.month, r.currency).catch(() => {})}>X</ButtonOutline>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex justify-end">
+          <ButtonOutline onClick={onClose}>Sluiten</ButtonOutline>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+// Product catalog per company: defaults for new items and the plan name of linked items
+const ProductsModal: React.FC<{
+  open: boolean;
+  onClose: () => void;
+  products: Product[];
+  companies: Company[];
+  currencies: string[];
+  itemCount: (productId: string) => number;
+  onAdd: (data: Omit<Product, "id">) => Promise<Product>;
+  onUpdate: (id: string, patch: Partial<Omit<Product, "id">>) => Promise<Product>;
+  onDelete: (id: string) => Promise<void>;
+}> = ({ open, onClose, products, companies, currencies, itemCount, onAdd, onUpdate, onDelete }) => {
+  const emptyDraft = { companyId: "", name: "", price: "", currency: BASE_CURRENCY, billingType: "recurring" as BillingType, cadence: "monthly" as Cadence, intervalMonths: "2" };
+  const [draft, setDraft] = useState(emptyDraft);
+  const canAdd = draft.name.trim() !== "" && draft.price !== "";
+  const update = (id: string, patch: Partial<Omit<Product, "id">>) => onUpdate(id, patch).catch(() => {});
+
+  function add() {
+    onAdd({
+      companyId: draft.companyId || null,
+      name: draft.name.trim(),
+      price: Number(draft.price || 0),
+      currency: draft.currency,
+      billingType: draft.billingType,
+      cadence: draft.cadence,
+      intervalMonths: draft.cadence === "custom" ? Math.max(1, Math.round(Number(draft.intervalMonths) || 1)) : undefined,
+    })
+      .then(() => setDraft((d) => ({ ...emptyDraft, companyId: d.companyId })))
+      .catch(() => {});
+  }
+
+  return (
+    <Modal open={open} onClose={onClose} title="Producten" className="max-w-4xl">
+      <div className="grid gap-4">
+        <p className="text-sm text-zinc-600">
+          Een product vult nieuwe items vooraf in. De naam van een product is de plannaam van alle gekoppelde items.
+        </p>
+        <div className="max-h-[45vh] overflow-auto rounded-xl border border-zinc-200">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-50 text-left text-zinc-600">
+              <tr>
+                <th className="px-2 py-1">Bedrijf</th>
+                <th className="px-2 py-1">Naam</th>
+                <th className="px-2 py-1">Type</th>
+                <th className="px-2 py-1">Frequentie</th>
+                <th className="px-2 py-1">Prijs</th>
+                <th className="px-2 py-1 text-right">Items</th>
+                <th className="px-2 py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {products.length === 0 && (
+                <tr><td colSpan={7} className="px-2 py-3 text-center text-zinc-500">Nog geen producten.</td></tr>
+              )}
+              {products.map((p) => (
+                <tr key={p.id} className="border-t">
+                  <td className="px-2 py-1">
+                    <Select value={p.companyId || ""} onChange={(e) => update(p.id, { companyId: e.target.value || null })}>
+                      <option value="">-</option>
+                      {companies.map((c) => (
+                        <option key={c.id} value={c.id}>{c.name}</option>
+                      ))}
+                    </Select>
+                  </td>
+                  <td className="px-2 py-1"><Input value={p.name} onChange={(e) => update(p.id, { name: e.target.value })} /></td>
+                  <td className="px-2 py-1">
+                    <Select value={p.billingType} onChange={(e) => update(p.id, { billingType: e.target.value as BillingType })}>
+                      {(Object.keys(BILLING_LABEL) as BillingType[]).map((b) => (
+                        <option key={b} value={b}>{BILLING_LABEL[b]}</option>
+                      ))}
+                    </Select>
+                  </td>
+                  <td className="px-2 py-1">
+                    {p.billingType === "recurring" ? (
+                      <div className="flex items-center gap-1">
+                        <Select
+                          value={p.cadence}
+                          onChange={(e) => {
+                            const cadence = e.target.value as Cadence;
+                            update(p.id, { cadence, intervalMonths: cadence === "custom" ? p.intervalMonths ?? 2 : undefined });
+                          }}
+                        >
+                          {(Object.keys(CADENCE_LABEL) as Cadence[]).map((c) => (
+                            <option key={c} value={c}>{CADENCE_LABEL[c]}</option>
+                          ))}
+                        </Select>
+                        {p.cadence === "custom" && (
+                          <Input type="number" min={1} value={String(p.intervalMonths ?? 2)} onChange={(e) => update(p.id, { intervalMonths: Math.max(1, Math.round(Number(e.target.value) || 1)) })} className="w-16" />
+                        )}
+                      </div>
+                    ) : (
+                      <span className="text-xs text-zinc-500">—</span>
+                    )}
+                  </td>
+                  <td className="px-2 py-1">
+                    <div className="flex items-center gap-1">
+                      <Input type="number" min={0} value={String(p.price)} onChange={(e) => update(p.id, { price: Number(e.target.value || 0) })} className="w-24" />
+                      <Select value={p.currency ?? BASE_CURRENCY} onChange={(e) => update(p.id, { currency: e.target.value })} className="w-auto">
+                        {currencies.map((c) => (
+                          <option key={c} value={c}>{c}</option>
+                        ))}
+                      </Select>
+                    </div>
+                  </td>
+                  <td className="px-2 py-1 text-right">{itemCount(p.id)}</td>
+                  <td className="px-2 py-1 text-right">
+                    <ButtonOutline onClick={() => onDelete(p.id).catch(() => {})}>X</ButtonOutline>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex flex-wrap items-end gap-2 rounded-xl border border-zinc-200 p-3">
+          <div>
+            <label className="text-xs text-zinc-600">Bedrijf</label>
+            <Select value={draft.companyId} onChange={(e) => setDraft((d) => ({ ...d, companyId: e.target.value }))}>
+              <option value="">-</option>
+              {companies.map((c) => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </Select>
+          </div>
+          <div>
+            <label className="text-xs text-zinc-600">Naam</label>
+            <Input value={draft.name} onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))} placeholder="QR Basic" />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-600">Type</label>
+            <Select value={draft.billingType} onChange={(e) => setDraft((d) => ({ ...d, billingType: e.target.value as BillingType }))}>
+              {(Object.keys(BILLING_LABEL) as BillingType[]).map((b) => (
+                <option key={b} value={b}>{BILLING_LABEL[b]}</option>
+              ))}
+            </Select>
+          </div>
+          {draft.billingType === "recurring" && (
+            <div>
+              <label className="text-xs text-zinc-600">Frequentie</label>
+              <div className="flex items-center gap-1">
+                <Select value={draft.cadence} onChange={(e) => setDraft((d) => ({ ...d, cadence: e.target.value as Cadence }))}>
+                  {(Object.keys(CADENCE_LABEL) as Cadence[]).map((c) => (
+                    <option key={c} value={c}>{CADENCE_LABEL[c]}</option>
+                  ))}
+                </Select>
+                {draft.cadence === "custom" && (
+                  <Input type="number" min={1} value={draft.intervalMonths} onChange={(e) => setDraft((d) => ({ ...d, intervalMonths: e.target.value }))} className="w-16" />
+                )}
+              </div>
+            </div>
+          )}
+          <div>
+            <label className="text-xs text-zinc-600">Standaardprijs</label>
+            <div className="flex items-center gap-1">
+              <Input type="number" min={0} value={draft.price} onChange={(e) => setDraft((d) => ({ ...d, price: e.target.value }))} className="w-24" />
+              <Select value={draft.currency} onChange={(e) => setDraft((d) => ({ ...d, currency: e.target.value }))} className="w-auto">
+                {currencies.map((c) => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </Select>
+            </div>
+          </div>
+          <Button disabled={!canAdd} onClick={add}>Toevoegen</Button>
+        </div>
+        <div className="flex justify-end">
+          <ButtonOutline onClick={onClose}>Sluiten</ButtonOutline>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+// Customer list: search, lifetime value and merging of probable duplicates
+const CustomersModal: React.FC<{
+  open: boolean;
+  onClose: () => void;
+  customers: Customer[];
+  companies: Company[];
+  subs: Subscription[];
+  fx: Fx;
+  onOpen: (customerId: string) => void;
+  onAdd: (data: Omit<Customer, "id">) => Promise<Customer>;
+  onMerge: (targetId: string, duplicateIds: string[]) => Promise<void>;
+}> = ({ open, onClose, customers, companies, subs, fx, onOpen, onAdd, onMerge }) => {
+  const [query, setQuery] = useState("");
+  const [newName, setNewName] = useState("");
+  const fmt = (n: number) => fmtMoney(n, fx.to);
+  const current = monthKey(new Date());
+  const rows = useMemo(() => {
+    if (!open) return [];
+    return customers
+      .map((c) => {
+        const own = subs.filter((s) => s.customerId === c.id);
+        return {
+          customer: c,
+          items: own.length,
+          companies: customerCompanyIds(c, subs).map((id) => companyName(companies, id)).filter(Boolean).join(", "),
+          mrr: calcSeries(own, "mrr", [current], fx)[0].amount,
+          ltv: customerSummary(own, new Date(), fx).ltv,
+        };
+      })
+      .sort((a, b) => b.ltv - a.ltv);
+  }, [open, customers, companies, subs, fx, current]);
+  const duplicates = useMemo(() => (open ? findDuplicates(customers) : []), [open, customers]);
+  const itemCount = (id: string) => subs.filter((s) => s.customerId === id).length;
+  const shown = rows.filter((r) => !query || customerKey(r.customer.name).includes(customerKey(query)));
+  const exists = customers.some((c) => customerKey(c.name) === customerKey(newName));
+
+  return (
+    <Modal open={open} onClose={onClose} title="Klanten" className="max-w-4xl">
+      <div className="grid gap-4">
+        {duplicates.length > 0 && (
+          <div className="rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+            <p className="mb-2 font-medium">Mogelijk dubbele klanten</p>
+            <ul className="grid gap-2">
+              {duplicates.map((group) => {
+                // Keep the customer with the most items; the others are merged into it
+                const [target, ...rest] = [...group].sort((a, b) => itemCount(b.id) - itemCount(a.id));
+                return (
+                  <li key={group.map((c) => c.id).join("|")} className="flex items-center justify-between gap-2">
+                    <span>
+                      <b>{target.name}</b> ← {rest.map((c) => `${c.name} (${itemCount(c.id)} items)`).join(", ")}
+                    </span>
+                    <ButtonOutline onClick={() => onMerge(target.id, rest.map((c) => c.id)).catch(() => {})}>Samenvoegen</ButtonOutline>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Zoek klant…" className="w-auto flex-1" />
+          <Input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="Nieuwe klant" className="w-auto" />
+          <Button
+            disabled={!newName.trim() || exists}
+            onClick={() => {
+              onAdd({ name: newName.trim(), companyIds: [] }).then((c) => { setNewName(""); onOpen(c.id); }).catch(() => {});
+            }}
+          >
+            Toevoegen
+          </Button>
+        </div>
+        <div className="max-h-[50vh] overflow-auto rounded-xl border border-zinc-200">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-50 text-left text-zinc-600">
+              <tr>
+                <th className="px-2 py-1">Klant</th>
+                <th className="px-2 py-1">Bedrijven</th>
+                <th className="px-2 py-1 text-right">Items</th>
+                <th className="px-2 py-1 text-right">MRR</th>
+                <th className="px-2 py-1 text-right">Lifetime value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.length === 0 && (
+                <tr><td colSpan={5} className="px-2 py-3 text-center text-zinc-500">Geen klanten gevonden.</td></tr>
+              )}
+              {shown.map((r) => (
+                <tr key={r.customer.id} className="cursor-pointer border-t hover:bg-zinc-50" onClick={() => onOpen(r.customer.id)}>
+                  <td className="px-2 py-1 font-medium">{r.customer.name}</td>
+                  <td className="px-2 py-1 text-zinc-600">{r.companies || "-"}</td>
+                  <td className="px-2 py-1 text-right">{r.items}</td>
+                  <td className="px-2 py-1 text-right">{fmt(r.mrr)}</td>
+                  <td className="px-2 py-1 text-right">{fmt(r.ltv)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex justify-end">
+          <ButtonOutline onClick={onClose}>Sluiten</ButtonOutline>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+// Customer page: contact details, company links, all items, revenue timeline and lifetime value
+const CustomerDetailModal: React.FC<{
+  customer: Customer | null;
+  onClose: () => void;
+  companies: Company[];
+  subs: Subscription[];
+  fx: Fx;
+  onUpdate: (id: string, patch: Partial<Omit<Customer, "id">>) => Promise<Customer>;
+  onDelete: (id: string) => Promise<void>;
+}> = ({ customer, onClose, companies, subs, fx, onUpdate, onDelete }) => {
+  const own = useMemo(() => (customer ? subs.filter((s) => s.customerId === customer.id) : []), [customer, subs]);
+  const summary = useMemo(() => customerSummary(own, new Date(), fx), [own, fx]);
+  if (!customer) return null;
+  const fmt = (n: number) => fmtMoney(n, fx.to);
+  const update = (patch: Partial<Omit<Customer, "id">>) => onUpdate(customer.id, patch).catch(() => {});
+  const itemCompanies = new Set(own.map((s) => s.companyId).filter(Boolean));
+  const mrr = calcSeries(own, "mrr", [monthKey(new Date())], fx)[0].amount;
+
+  return (
+    <Modal open onClose={onClose} title={customer.name || "Klant"} className="max-w-4xl">
+      <div className="grid max-h-[80vh] gap-4 overflow-auto">
+        <div className="grid gap-3 md:grid-cols-4">
+          <div>
+            <label className="text-xs text-zinc-600">Naam</label>
+            <Input value={customer.name} onChange={(e) => update({ name: e.target.value })} />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-600">E-mail</label>
+            <Input type="email" value={customer.email || ""} onChange={(e) => update({ email: e.target.value })} />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-600">Telefoon</label>
+            <Input value={customer.phone || ""} onChange={(e) => update({ phone: e.target.value })} />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-600">Notities</label>
+            <Input value={customer.notes || ""} onChange={(e) => update({ notes: e.target.value })} />
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <span className="text-xs text-zinc-600">Bedrijven</span>
+          {companies.map((c) => (
+            <label key={c.id} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={customer.companyIds.includes(c.id) || itemCompanies.has(c.id)}
+                disabled={itemCompanies.has(c.id)}
+                onChange={(e) =>
+                  update({ companyIds: e.target.checked ? [...customer.companyIds, c.id] : customer.companyIds.filter((id) => id !== c.id) })
+                }
+              />
+              {c.name}
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-6 text-sm">
+          <span>Klant sinds <b>{summary.firstMonth ?? "—"}</b></span>
+          <span>Lifetime value <b>{fmt(summary.ltv)}</b></span>
+          <span>MRR nu <b>{fmt(mrr)}</b></span>
+          <span>Items <b>{own.length}</b></span>
+        </div>
+        {summary.timeline.length > 0 && <MiniBarChartLabeled data={summary.timeline} currency={fx.to} />}
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-zinc-600">
+              <th className="px-2 py-1">Bedrijf</th>
+              <th className="px-2 py-1">Plan</th>
+              <th className="px-2 py-1">Type</th>
+              <th className="px-2 py-1">Frequentie</th>
+              <th className="px-2 py-1 text-right">Prijs</th>
+              <th className="px-2 py-1">Start</th>
+              <th className="px-2 py-1">Eind</th>
+            </tr>
+          </thead>
+          <tbody>
+            {own.length === 0 && (
+              <tr><td colSpan={7} className="px-2 py-3 text-center text-zinc-500">Nog geen items voor deze klant.</td></tr>
+            )}
+            {own.map((s) => (
+              <tr key={s.id} className="border-t">
+                <td className="px-2 py-1">{companyName(companies, s.companyId) || "-"}</td>
+                <td className="px-2 py-1">{s.planName}</td>
+                <td className="px-2 py-1">{BILLING_LABEL[s.billingType]}</td>
+                <td className="px-2 py-1">{s.billingType === "recurring" ? cadenceLabel(s) : "—"}</td>
+                <td className="px-2 py-1 text-right">{fmtMoney(currentPrice(s), s.currency)}</td>
+                <td className="px-2 py-1">{s.startDate}</td>
+                <td className="px-2 py-1">{s.cancelDate ?? "—"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex justify-between">
+          <ButtonOutline onClick={() => onDelete(customer.id).then(onClose).catch(() => {})}>Klant verwijderen</ButtonOutline>
+          <ButtonOutline onClick={onClose}>Sluiten</ButtonOutline>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+// ------------------------------
+// Invoices: drafts per customer and billing month, numbered per company, printable as HTML/PDF
+// ------------------------------
+const INVOICE_STATUS_LABEL: Record<InvoiceStatus, string> = { draft: "Concept", sent: "Verzonden" };
+
+/** Open the invoice in a new window and show the print dialog (print to PDF for a file) */
+function printInvoice(invoice: Invoice, companies: Company[], customers: Customer[]) {
+  const html = renderInvoiceHtml(
+    invoice,
+    companies.find((c) => c.id === invoice.companyId),
+    customers.find((c) => c.id === invoice.customerId)
+  );
+  const win = window.open("", "_blank");
+  if (!win) return;
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+}
+
+const InvoicesModal: React.FC<{
+  open: boolean;
+  onClose: () => void;
+  invoices: Invoice[];
+  companies: Company[];
+  customers: Customer[];
+  subs: Subscription[];
+  onSave: (drafts: InvoiceDraft[]) => Promise<Invoice[]>;
+  onUpdate: (id: string, patch: InvoicePatch) => Promise<Invoice>;
+  onDelete: (id: string) => Promise<void>;
+}> = ({ open, onClose, invoices, companies, customers, subs, onSave, onUpdate, onDelete }) => {
+  const [period, setPeriod] = useState(() => monthKey(new Date()));
+  const [issueDate, setIssueDate] = useState(() => isoDate(new Date()));
+  const [paymentDays, setPaymentDays] = useState("14");
+  const [companyId, setCompanyId] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const generate = () => {
+    const result = generateInvoices({ companies, customers, subs, invoices }, period, {
+      issueDate,
+      paymentDays: Math.max(0, parseInt(paymentDays, 10) || 0),
+    });
+    const created = result.invoices.filter((inv) => !inv.id).length;
+    const updated = result.invoices.length - created;
+    const sent = result.skipped ? `, ${result.skipped} al verzonden (ongewijzigd)` : "";
+    if (result.invoices.length === 0) {
+      setMessage(`Geen nieuwe facturen voor ${periodLabel(period)}${sent}.`);
+      return;
+    }
+    onSave(result.invoices)
+      .then(() => setMessage(`${created} aangemaakt, ${updated} concept(en) bijgewerkt${sent}.`))
+      .catch(() => {});
+  };
+
+  const shown = invoices
+    .filter((inv) => inv.period === period && (!companyId || inv.companyId === companyId))
+    .sort((a, b) => (a.companyId ?? "").localeCompare(b.companyId ?? "") || a.number.localeCompare(b.number));
+
+  return (
+    <Modal open={open} onClose={onClose} title="Facturen" className="max-w-5xl">
+      <div className="grid gap-4">
+        <div className="grid items-end gap-3 md:grid-cols-5">
+          <div>
+            <label className="text-xs text-zinc-600">Factuurmaand</label>
+            <Input type="month" value={period} onChange={(e) => { setPeriod(e.target.value); setMessage(null); }} />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-600">Factuurdatum</label>
+            <Input type="date" value={issueDate} onChange={(e) => setIssueDate(e.target.value)} />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-600">Betaaltermijn (dagen)</label>
+            <Input type="number" min={0} value={paymentDays} onChange={(e) => setPaymentDays(e.target.value)} />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-600">Bedrijf</label>
+            <Select value={companyId} onChange={(e) => setCompanyId(e.target.value)}>
+              <option value="">Alle bedrijven</option>
+              {companies.map((c) => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </Select>
+          </div>
+          <Button disabled={!period || !issueDate} onClick={generate}>Concepten genereren</Button>
+        </div>
+        <p className="text-xs text-zinc-500">
+          Eén factuur per klant, bedrijf en valuta met alle items die in de maand factureren. Opnieuw genereren werkt concepten bij
+          met hetzelfde nummer; verzonden facturen blijven ongewijzigd.
+        </p>
+        {message && <div className="rounded-xl bg-zinc-50 p-2 text-sm text-zinc-700">{message}</div>}
+        <div className="max-h-[50vh] overflow-auto rounded-xl border border-zinc-200">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-50 text-left text-zinc-600">
+              <tr>
+                <th className="px-2 py-1">Nummer</th>
+                <th className="px-2 py-1">Bedrijf</th>
+                <th className="px-2 py-1">Klant</th>
+                <th className="px-2 py-1">Vervaldatum</th>
+                <th className="px-2 py-1 text-right">Excl. BTW</th>
+                <th className="px-2 py-1 text-right">Totaal</th>
+                <th className="px-2 py-1">Status</th>
+                <th className="px-2 py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.length === 0 && (
+                <tr><td colSpan={8} className="px-2 py-3 text-center text-zinc-500">Nog geen facturen voor {periodLabel(period)}.</td></tr>
+              )}
+              {shown.map((inv) => {
+                const totals = invoiceTotals(inv);
+                return (
+                  <tr key={inv.id} className="border-t">
+                    <td className="px-2 py-1 font-medium">{inv.number}</td>
+                    <td className="px-2 py-1">{companyName(companies, inv.companyId) || "-"}</td>
+                    <td className="px-2 py-1">{inv.customer}</td>
+                    <td className="px-2 py-1">{inv.dueDate}</td>
+                    <td className="px-2 py-1 text-right">{fmtMoney(totals.net, inv.currency)}</td>
+                    <td className="px-2 py-1 text-right">{fmtMoney(totals.gross, inv.currency)}</td>
+                    <td className="px-2 py-1">
+                      <Select value={inv.status} onChange={(e) => onUpdate(inv.id, { status: e.target.value as InvoiceStatus }).catch(() => {})}>
+                        {(Object.keys(INVOICE_STATUS_LABEL) as InvoiceStatus[]).map((s) => (
+                          <option key={s} value={s}>{INVOICE_STATUS_LABEL[s]}</option>
+                        ))}
+                      </Select>
+                    </td>
+                    <td className="whitespace-nowrap px-2 py-1 text-right">
+                      <ButtonOutline onClick={() => printInvoice(inv, companies, customers)}>Afdrukken / PDF</ButtonOutline>
+                      {inv.status === "draft" && (
+                        <ButtonOutline className="ml-1" onClick={() => onDelete(inv.id).catch(() => {})}>✕</ButtonOutline>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex justify-end">
+          <ButtonOutline onClick={onClose}>Sluiten</ButtonOutline>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+// ------------------------------
+// Payments: register received money per item and billing month, list and remove payments
+// ------------------------------
+const PaymentsModal: React.FC<{
+  open: boolean;
+  onClose: () => void;
+  payments: Payment[];
+  subs: Subscription[];
+  companies: Company[];
+  onAdd: (data: Omit<Payment, "id">) => Promise<Payment>;
+  onDelete: (id: string) => Promise<void>;
+}> = ({ open, onClose, payments, subs, companies, onAdd, onDelete }) => {
+  const [draft, setDraft] = useState(() => ({ subscriptionId: "", month: monthKey(new Date()), amount: "", date: isoDate(new Date()) }));
+  const sub = subs.find((s) => s.id === draft.subscriptionId);
+  const amountsFor = (subscriptionId: string, month: string) => {
+    const s = subs.find((x) => x.id === subscriptionId);
+    return {
+      expected: s ? expectedCharges([s], month, month)[0]?.amount ?? 0 : 0,
+      paid: payments.filter((p) => p.subscriptionId === subscriptionId && p.month === month).reduce((a, p) => a + p.amount, 0),
+    };
+  };
+  const { expected, paid } = amountsFor(draft.subscriptionId, draft.month);
+  // Choosing an item or month pre-fills the amount still open
+  const choose = (patch: Partial<typeof draft>) =>
+    setDraft((d) => {
+      const next = { ...d, ...patch };
+      const due = amountsFor(next.subscriptionId, next.month);
+      return { ...next, amount: due.expected > due.paid ? String(Math.round((due.expected - due.paid) * 100) / 100) : "" };
+    });
+  const subLabel = (s: Subscription) => `${s.customer} – ${s.planName}${s.companyId ? ` (${companyName(companies, s.companyId)})` : ""}`;
+  const listed = [...payments].sort((a, b) => b.date.localeCompare(a.date)).slice(0, 100);
+
+  return (
+    <Modal open={open} onClose={onClose} title="Betalingen" className="max-w-4xl">
+      <div className="grid gap-4">
+        <div className="grid items-end gap-3 md:grid-cols-5">
+          <div className="md:col-span-2">
+            <label className="text-xs text-zinc-600">Item</label>
+            <Select value={draft.subscriptionId} onChange={(e) => choose({ subscriptionId: e.target.value })}>
+              <option value="">Kies een item…</option>
+              {subs.map((s) => (
+                <option key={s.id} value={s.id}>{subLabel(s)}</option>
+              ))}
+            </Select>
+          </div>
+          <div>
+            <label className="text-xs text-zinc-600">Factuurmaand</label>
+            <Input type="month" value={draft.month} onChange={(e) => choose({ month: e.target.value })} />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-600">Bedrag excl. BTW{sub ? ` (${sub.currency ?? BASE_CURRENCY})` : ""}</label>
+            <Input type="number" step="0.01" value={draft.amount} onChange={(e) => setDraft((d) => ({ ...d, amount: e.target.value }))} />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-600">Ontvangen op</label>
+            <Input type="date" value={draft.date} onChange={(e) => setDraft((d) => ({ ...d, date: e.target.value }))} />
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-2 text-sm text-zinc-600">
+          <span>
+            {sub ? `Verwacht ${fmtMoney(expected, sub.currency)}, al ontvangen ${fmtMoney(paid, sub.currency)}` : "Betalingen tellen op per item en factuurmaand."}
+          </span>
+          <Button
+            disabled={!sub || !draft.month || !draft.date || !(Number(draft.amount) > 0)}
+            onClick={() =>
+              onAdd({ subscriptionId: draft.subscriptionId, month: draft.month, amount: Number(draft.amount), date: draft.date })
+                .then(() => setDraft((d) => ({ ...d, amount: "" })))
+                .catch(() => {})
+            }
+          >
+            Registreren
+          </Button>
+        </div>
+        <div className="max-h-[45vh] overflow-auto rounded-xl border border-zinc-200">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-50 text-left text-zinc-600">
+              <tr>
+                <th className="px-2 py-1">Ontvangen op</th>
+                <th className="px-2 py-1">Item</th>
+                <th className="px-2 py-1">Factuurmaand</th>
+                <th className="px-2 py-1 text-right">Bedrag</th>
+                <th className="px-2 py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {listed.length === 0 && (
+                <tr><td colSpan={5} className="px-2 py-3 text-center text-zinc-500">Nog geen betalingen geregistreerd.</td></tr>
+              )}
+              {listed.map((p) => {
+                const s = subs.find((x) => x.id === p.subscriptionId);
+                return (
+                  <tr key={p.id} className="border-t">
+                    <td className="px-2 py-1">{p.date}</td>
+                    <td className="px-2 py-1">{s ? subLabel(s) : "-"}</td>
+                    <td className="px-2 py-1">{p.month}</td>
+                    <td className="px-2 py-1 text-right">{fmtMoney(p.amount, s?.currency)}</td>
+                    <td className="px-2 py-1 text-right">
+                      <ButtonOutline onClick={() => onDelete(p.id).catch(() => {})}>✕</ButtonOutline>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex justify-end">
+          <ButtonOutline onClick={onClose}>Sluiten</ButtonOutline>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+// ------------------------------
+// Change history: who changed which field when, for one company or item or for everything
+// ------------------------------
+const AUDIT_ACTION_LABEL: Record<AuditAction, string> = { create: "Aangemaakt", update: "Gewijzigd", delete: "Verwijderd" };
+const AUDIT_SOURCE_LABEL = { undo: "ongedaan gemaakt", redo: "opnieuw uitgevoerd" };
+
+const AUDIT_FIELD_LABEL: Record<string, string> = {
+  name: "Naam",
+  vatCode: "BTW-tarief",
+  paymentsFrom: "Betalingen vanaf",
+  proration: "Pro rata",
+  companyId: "Bedrijf",
+  productId: "Product",
+  customerId: "Klantrecord",
+  customer: "Klant",
+  planName: "Plan",
+  price: "Prijs",
+  currency: "Valuta",
+  billingType: "Type",
+  cadence: "Frequentie",
+  intervalMonths: "Maanden per termijn",
+  anchorDate: "Ankerdatum",
+  startDate: "Start",
+  cancelDate: "Einde",
+  variableAmounts: "Variabele bedragen",
+  variableMrr: "MRR variabel",
+  priceChanges: "Prijshistorie",
+  discounts: "Kortingen",
+  notes: "Notities",
+};
+
+const fmtAuditValue = (field: string, value: unknown, companies: Company[]) => {
+  if (value == null || value === "") return "—";
+  if (field === "companyId") return companyName(companies, String(value));
+  if (field === "vatCode") return VAT_LABEL[value as VatCode] ?? String(value);
+  if (field === "proration") return PRORATION_LABEL[value as ProrationPolicy] ?? String(value);
+  if (typeof value === "object") {
+    const text = JSON.stringify(value);
+    return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+  }
+  return String(value);
+};
+
+const HistoryModal: React.FC<{
+  open: boolean;
+  onClose: () => void;
+  title: string;
+  entries: AuditEntry[]; // newest first
+  companies: Company[];
+  showLabel?: boolean; // full log: name the company or item of every entry
+}> = ({ open, onClose, title, entries, companies, showLabel }) => (
+  <Modal open={open} onClose={onClose} title={title} className="max-w-4xl">
+    <div className="grid gap-4">
+      <div className="max-h-[60vh] overflow-auto rounded-xl border border-zinc-200">
+        <table className="w-full text-sm">
+          <thead className="bg-zinc-50 text-left text-zinc-600">
+            <tr>
+              <th className="px-2 py-1">Tijdstip</th>
+              <th className="px-2 py-1">Door</th>
+              {showLabel && <th className="px-2 py-1">Onderdeel</th>}
+              <th className="px-2 py-1">Wijziging</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.length === 0 && (
+              <tr><td colSpan={showLabel ? 4 : 3} className="px-2 py-3 text-center text-zinc-500">Nog geen wijzigingen vastgelegd.</td></tr>
+            )}
+            {entries.map((e) => (
+              <tr key={e.id} className="border-t align-top">
+                <td className="whitespace-nowrap px-2 py-1">{new Date(e.at).toLocaleString("nl-NL", { dateStyle: "short", timeStyle: "medium" })}</td>
+                <td className="px-2 py-1">{e.user || "—"}</td>
+                {showLabel && <td className="px-2 py-1">{e.label}</td>}
+                <td className="px-2 py-1">
+                  <div className="font-medium">
+                    {AUDIT_ACTION_LABEL[e.action]}
+                    {e.source && <span className="ml-1 text-xs font-normal text-zinc-500">({AUDIT_SOURCE_LABEL[e.source]})</span>}
+                  </div>
+                  {e.changes.map((c) => (
+                    <div key={c.field} className="text-xs text-zinc-600">
+                      {AUDIT_FIELD_LABEL[c.field] ?? c.field}: <span className="line-through">{fmtAuditValue(c.field, c.before, companies)}</span> → {fmtAuditValue(c.field, c.after, companies)}
+                    </div>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex justify-end">
+        <ButtonOutline onClick={onClose}>Sluiten</ButtonOutline>
+      </div>
+    </div>
+  </Modal>
+);
+
+// ------------------------------
+// Discounts: effective price under the list price in the table, promotions in a popover
+// ------------------------------
+const DISCOUNT_KIND_LABEL: Record<DiscountKind, string> = { percent: "%", fixed: "Bedrag" };
+
+const DiscountsPopover: React.FC<{
+  sub: Subscription;
+  onChange: (patch: Partial<Subscription>) => void;
+}> = ({ sub, onChange }) => {
+  const [pos, setPos] = useState<null | { left: number; top: number }>(null);
+  const [draft, setDraft] = useState({ kind: "percent" as DiscountKind, value: "", startDate: "", until: "cycles" as "cycles" | "date" | "open", cycles: "3", endDate: "", label: "" });
+  const discounts = sub.discounts ?? [];
+  const mk = monthKey(new Date());
+  const list = currentPrice(sub);
+  const now = effectivePrice(sub, mk);
+  const describe = (d: Discount) => {
+    const amount = d.kind === "percent" ? `${d.value}%` : fmtMoney(d.value, sub.currency);
+    const end = discountEndMonth(sub, d);
+    const period = d.cycles ? `${d.cycles} termijnen` : end ? `t/m ${end}` : "doorlopend";
+    return `${d.label ? `${d.label}: ` : ""}${amount} korting, vanaf ${d.startDate || sub.startDate}, ${period}`;
+  };
+
+  function addDiscount() {
+    const value = Number(draft.value);
+    if (draft.value === "" || !(value > 0) || (draft.kind === "percent" && value > 100)) return;
+    const discount: Discount = {
+      kind: draft.kind,
+      value,
+      ...(draft.startDate ? { startDate: draft.startDate } : {}),
+      ...(draft.until === "cycles" && Number(draft.cycles) > 0 ? { cycles: Math.round(Number(draft.cycles)) } : {}),
+      ...(draft.until === "date" && draft.endDate ? { endDate: draft.endDate } : {}),
+      ...(draft.label.trim() ? { label: draft.label.trim() } : {}),
+    };
+    onChange({ discounts: [...discounts, discount] });
+    setDraft((d) => ({ ...d, value: "", label: "" }));
+  }
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={(e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          setPos((p) => (p ? null : { left: rect.left, top: rect.bottom + 4 }));
+        }}
+        className="rounded-lg px-2 py-0.5 text-left text-xs hover:bg-zinc-100"
+        title="Kortingen en acties"
+      >
+        {now < list ? (
+          <span className="text-emerald-700">Nu {fmtMoney(now, sub.currency)} na korting</span>
+        ) : (
+          <span className="text-zinc-500">{discounts.length > 0 ? `Korting (${discounts.length})` : "+ korting"}</span>
+        )}
+      </button>
+      {pos && (
+        <div className="fixed z-20 w-80 rounded-xl border border-zinc-200 bg-white p-3 text-sm shadow-lg" style={pos}>
+          <div className="mb-2 flex items-center justify-between">
+            <span className="font-medium">Kortingen en acties</span>
+            <button className="text-zinc-500 hover:text-zinc-800" onClick={() => setPos(null)}>✕</button>
+          </div>
+          <div className="grid gap-2">
+            <p className="text-xs text-zinc-600">Lijstprijs {fmtMoney(list, sub.currency)} · deze maand {fmtMoney(now, sub.currency)}</p>
+            {discounts.map((d, i) => (
+              <div key={i} className="flex items-center justify-between gap-2">
+                <span className="text-xs">{describe(d)}</span>
+                <ButtonOutline onClick={() => onChange({ discounts: discounts.filter((_, j) => j !== i) })}>X</ButtonOutline>
+              </div>
+            ))}
+            <div className="mt-1 grid gap-2 border-t pt-2">
+              <p className="text-xs text-zinc-600">Nieuwe korting (per termijn, excl. BTW)</p>
+              <div className="flex items-center gap-2">
+                <Select value={draft.kind} onChange={(e) => setDraft((d) => ({ ...d, kind: e.target.value as DiscountKind }))} className="w-24">
+                  {(Object.keys(DISCOUNT_KIND_LABEL) as DiscountKind[]).map((k) => (
+                    <option key={k} value={k}>{DISCOUNT_KIND_LABEL[k]}</option>
+                  ))}
+                </Select>
+                <Input type="number" min={0} value={draft.value} onChange={(e) => setDraft((d) => ({ ...d, value: e.target.value }))} placeholder={draft.kind === "percent" ? "50" : "10"} />
+              </div>
+              <Input value={draft.label} onChange={(e) => setDraft((d) => ({ ...d, label: e.target.value }))} placeholder="Omschrijving (optioneel)" />
+              <div className="flex items-center gap-2">
+                <span className="w-16 text-xs text-zinc-600">Vanaf</span>
+                <Input type="date" value={draft.startDate} onChange={(e) => setDraft((d) => ({ ...d, startDate: e.target.value }))} title="Leeg = startdatum van het item" />
+              </div>
+              <div className="flex items-center gap-2">
+                <Select value={draft.until} onChange={(e) => setDraft((d) => ({ ...d, until: e.target.value as "cycles" | "date" | "open" }))} className="w-32">
+                  <option value="cycles">Aantal termijnen</option>
+                  <option value="date">Tot datum</option>
+                  <option value="open">Doorlopend</option>
+                </Select>
+                {draft.until === "cycles" && (
+                  <Input type="number" min={1} value={draft.cycles} onChange={(e) => setDraft((d) => ({ ...d, cycles: e.target.value }))} />
+                )}
+                {draft.until === "date" && (
+                  <Input type="date" value={draft.endDate} onChange={(e) => setDraft((d) => ({ ...d, endDate: e.target.value }))} />
+                )}
+              </div>
+              <Button className="w-full" disabled={draft.value === ""} onClick={addDiscount}>Toevoegen</Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ------------------------------
+// Price history: current price in the table, changes with an effective date in a popover
+// ------------------------------
+const PriceHistoryPopover: React.FC<{
+  sub: Subscription;
+  onChange: (patch: Partial<Subscription>) => void;
+}> = ({ sub, onChange }) => {
+  // Fixed position from the button, so the scrolling table does not clip the popover
+  const [pos, setPos] = useState<null | { left: number; top: number }>(null);
+  const [draft, setDraft] = useState({ effectiveDate: `${shiftMonth(monthKey(new Date()), 1)}-01`, price: "" });
+  const changes = [...(sub.priceChanges ?? [])].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+  const now = currentPrice(sub);
+
+  // One change per effective date; a new change on an existing date replaces it
+  function save(next: PriceChange[]) {
+    onChange({ priceChanges: next.sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate)) });
+  }
+
+  function addChange() {
+    if (!draft.effectiveDate || draft.price === "") return;
+    save([...changes.filter((c) => c.effectiveDate !== draft.effectiveDate), { effectiveDate: draft.effectiveDate, price: Number(draft.price) }]);
+    setDraft((d) => ({ ...d, price: "" }));
+  }
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={(e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          setPos((p) => (p ? null : { left: rect.left, top: rect.bottom + 4 }));
+        }}
+        className="flex items-center gap-1 rounded-lg px-2 py-1 text-left hover:bg-zinc-100"
+        title="Prijshistorie"
+      >
+        <span>{fmtMoney(now, sub.currency)}</span>
+        {changes.length > 0 && <span className="text-[10px] text-zinc-500">({changes.length + 1})</span>}
+      </button>
+      {pos && (
+        <div className="fixed z-20 w-72 rounded-xl border border-zinc-200 bg-white p-3 text-sm shadow-lg" style={pos}>
+          <div className="mb-2 flex items-center justify-between">
+            <span className="font-medium">Prijshistorie</span>
+            <button className="text-zinc-500 hover:text-zinc-800" onClick={() => setPos(null)}>✕</button>
+          </div>
+          <div className="grid gap-2">
+            <div className="flex items-center gap-2">
+              <span className="w-24 text-xs text-zinc-600">Vanaf {sub.startDate}</span>
+              <Input type="number" min={0} value={String(sub.price)} onChange={(e) => onChange({ price: Number(e.target.value || 0) })} title="Startprijs" />
+            </div>
+            {changes.map((c) => (
+              <div key={c.effectiveDate} className="flex items-center gap-2">
+                <span className="w-24 text-xs text-zinc-600">Vanaf {c.effectiveDate}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  value={String(c.price)}
+                  onChange={(e) => save(changes.map((x) => (x.effectiveDate === c.effectiveDate ? { ...x, price: Number(e.target.value || 0) } : x)))}
+                />
+                <ButtonOutline onClick={() => save(changes.filter((x) => x.effectiveDate !== c.effectiveDate))}>X</ButtonOutline>
+              </div>
+            ))}
+            <div className="mt-1 border-t pt-2">
+              <p className="mb-1 text-xs text-zinc-600">Nieuwe prijs (indexatie, up- of downgrade)</p>
+              <div className="flex items-center gap-2">
+                <Input type="date" value={draft.effectiveDate} onChange={(e) => setDraft((d) => ({ ...d, effectiveDate: e.target.value }))} />
+                <Input type="number" min={0} value={draft.price} onChange={(e) => setDraft((d) => ({ ...d, price: e.target.value }))} className="w-24" placeholder="Prijs" />
+              </div>
+              <Button className="mt-2 w-full" disabled={!draft.effectiveDate || draft.price === ""} onClick={addChange}>Toevoegen</Button>
+            </div>
+          </div>
         </div>
       )}
     </div>
@@ -404,89 +2085,457 @@ const MiniBarChartLabeled: React.FC<{ data: { month: string; amount: number }[]
 // App Component
 // ------------------------------
 export default function App() {
-  // const db = useDatabase();
-  const [state, setState] = useState(() => loadState() || seed);
-  const [mode, setMode] = useState<"cash" | "mrr">("cash");
-  const [year, setYear] = useState(new Date().getFullYear());
+  const store = useMemo(() => createStore(configuredStoreKind(), seed), []);
+  // Name recorded with every change in the history
+  const [userName, setUserName] = useState<string>(() => {
+    try {
+      return localStorage.getItem(USER_NAME_KEY) || "";
+    } catch {
+      return "";
+    }
+  });
+  function chooseUserName(name: string) {
+    setUserName(name);
+    try {
+      localStorage.setItem(USER_NAME_KEY, name);
+    } catch {}
+  }
+  const db = useDatabase(store, userName.trim());
+  const state: RevenueState = {
+    companies: db.companies,
+    customers: db.customers,
+    products: db.products,
+    subs: db.subs,
+    payments: db.payments,
+    expenses: db.expenses,
+    rates: db.rates,
+    invoices: db.invoices,
+    audit: db.audit,
+  };
+  const [mode, setMode] = useState<"cash" | "mrr" | "profit">("cash");
+  const [range, setRange] = useState<DateRange>(() => {
+    const y = new Date().getFullYear();
+    return { preset: "year", year: y, fromYear: y - 1, toYear: y, from: `${y}-01`, to: `${y}-12` };
+  });
+  const [compareYoY, setCompareYoY] = useState(false);
+  const [showGross, setShowGross] = useState(false);
+  const [receivedOnly, setReceivedOnly] = useState(false);
+  const [showForecast, setShowForecast] = useState(false);
+  const [byProduct, setByProduct] = useState(false);
+  const [cohortMetric, setCohortMetric] = useState<"logos" | "mrr">("logos");
+  const [cohortType, setCohortType] = useState<BillingType | "">("recurring");
+  const [cohortShare, setCohortShare] = useState(true);
+  const [forecastOptions, setForecastOptions] = useState<ForecastOptions>(DEFAULT_FORECAST);
   const [companyFilter, setCompanyFilter] = useState<string>("");
+  const [reportingCurrency, setReportingCurrency] = useState<string>(() => {
+    try {
+      return localStorage.getItem(REPORTING_CURRENCY_KEY) || BASE_CURRENCY;
+    } catch {
+      return BASE_CURRENCY;
+    }
+  });
+  function chooseReportingCurrency(currency: string) {
+    setReportingCurrency(currency);
+    try {
+      localStorage.setItem(REPORTING_CURRENCY_KEY, currency);
+    } catch {}
+  }
+  // How variable income counts in MRR for items without a setting of their own
+  const [variableMrr, setVariableMrr] = useState<VariableMrr>(() => {
+    try {
+      return decodeVariableMrr(localStorage.getItem(VARIABLE_MRR_KEY));
+    } catch {
+      return DEFAULT_VARIABLE_MRR;
+    }
+  });
+  function chooseVariableMrr(value: string) {
+    setVariableMrr(decodeVariableMrr(value));
+    try {
+      localStorage.setItem(VARIABLE_MRR_KEY, value);
+    } catch {}
+  }
+  // Every series, KPI and export is converted to the reporting currency with the rate of its month
+  const fx: Fx = useMemo(() => ({ to: reportingCurrency, rates: state.rates }), [reportingCurrency, state.rates]);
+  const fmt = (n: number) => fmtMoney(n, reportingCurrency);
+  const currencies = useMemo(
+    () => [...new Set([...COMMON_CURRENCIES, ...state.rates.map((r) => r.currency), ...state.subs.map((s) => s.currency ?? BASE_CURRENCY)])].sort(),
+    [state.rates, state.subs]
+  );
+  const ratesMissing = useMemo(() => missingRates(state.subs.map((s) => s.currency), fx), [state.subs, fx]);
 
-  useEffect(() => saveState(state), [state]);
-
-  const months = useMemo(() => Array.from({ length: 12 }, (_, i) => `${year}-${String(i + 1).padStart(2, "0")}`), [year]);
+  const resolvedRange = useMemo(() => resolveRange(range), [range]);
+  const months = useMemo(() => monthsBetweenInclusive(resolvedRange.from, resolvedRange.to), [resolvedRange]);
+  const periodLabel = rangeLabel(range, resolvedRange);
+  const year = Number(resolvedRange.to.slice(0, 4));
   const subsFiltered = useMemo(
     () => state.subs.filter((s: Subscription) => !companyFilter || s.companyId === companyFilter),
     [state.subs, companyFilter]
   );
-  const series = useMemo(() => calcSeries(state.subs, mode, months), [state.subs, mode, months]);
+  // Net amounts as charged (prorated) for VAT, payments, invoices and exports
+  const subsBilled = useMemo(() => withProration(state.subs, state.companies), [state.subs, state.companies]);
+  const subsBilledFiltered = useMemo(
+    () => subsBilled.filter((s: Subscription) => !companyFilter || s.companyId === companyFilter),
+    [subsBilled, companyFilter]
+  );
+  // Net or gross (incl. VAT) amounts for the chart and KPIs; the items table always shows net prices.
+  // Profit stays net: expenses are entered without VAT as well.
+  const gross = showGross && mode !== "profit";
+  // Variable items without their own variableMrr follow the global setting
+  // Partial first and last periods follow the proration policy of each company
+  const subsView = useMemo(
+    () => withVariableMrr(withProration(gross ? toGross(state.subs, state.companies) : state.subs, state.companies), variableMrr),
+    [gross, state.subs, state.companies, variableMrr]
+  );
+  const subsCalc = useMemo(
+    () => subsView.filter((s: Subscription) => !companyFilter || s.companyId === companyFilter),
+    [subsView, companyFilter]
+  );
+  // Cash can show only the money actually received (payments by date) instead of every expected charge
+  const received = receivedOnly && mode === "cash";
+  const paymentsView = useMemo(
+    () => (gross ? paymentsToGross(state.payments, state.subs, state.companies) : state.payments),
+    [gross, state.payments, state.subs, state.companies]
+  );
+  const expensesFiltered = useMemo(
+    () => state.expenses.filter((e: Expense) => !companyFilter || e.companyId === companyFilter),
+    [state.expenses, companyFilter]
+  );
+  // Chart + KPIs follow the company filter; "all companies" stacks one segment per company,
+  // "per product" (cash/MRR only) one segment per catalog product
+  const seriesFor = (subs: Subscription[], expenses: Expense[], ms: string[]) =>
+    mode === "profit"
+      ? calcProfitSeries(subs, expenses, ms, fx)
+      : received
+      ? receivedSeries(subs, paymentsView, ms, fx)
+      : calcSeries(subs, mode, ms, fx);
+  const stackProducts = byProduct && mode !== "profit";
+  const ofProduct = (subs: Subscription[], productId: string | null) => subs.filter((s: Subscription) => (s.productId ?? null) === productId);
+  const chart = useMemo(() => {
+    if (stackProducts) return stackByProduct(state.products, months, (productId) => seriesFor(ofProduct(subsCalc, productId), [], months));
+    if (companyFilter) return { data: seriesFor(subsCalc, expensesFiltered, months) as ChartDatum[], legend: undefined };
+    return stackByCompany(state.companies, months, (companyId) =>
+      seriesFor(
+        subsView.filter((s: Subscription) => s.companyId === companyId),
+        state.expenses.filter((e: Expense) => e.companyId === companyId),
+        months
+      )
+    );
+  }, [state.companies, state.products, stackProducts, subsView, state.expenses, subsCalc, expensesFiltered, companyFilter, mode, received, paymentsView, months, fx]);
+  const series = chart.data;
+  // Year-over-year: the same months one year earlier (totals only, aligned by index)
+  const previousSeries = useMemo(
+    () => (compareYoY ? seriesFor(subsCalc, expensesFiltered, months.map((mk) => shiftMonth(mk, -12))) : undefined),
+    [compareYoY, subsCalc, expensesFiltered, mode, received, paymentsView, months, fx]
+  );
+  const totalPrevious = previousSeries?.reduce((s, x) => s + x.amount, 0) ?? 0;
+  // Proration per month for the tooltip (profit uses the prorated cash); not for received payments
+  const proration = useMemo(
+    () => (received ? undefined : prorationSeries(subsCalc, mode === "profit" ? "cash" : mode, months, fx)),
+    [received, subsCalc, mode, months, fx]
+  );
+  // Forecast (cash/MRR only): actual months up to now, then projected months as dashed bars
+  const forecasting = showForecast && mode !== "profit";
+  const forecastChart = useMemo(() => {
+    if (!forecasting) return undefined;
+    const current = monthKey(new Date());
+    const project = (subs: Subscription[]) => calcForecast(subs, mode, current, forecastOptions, fx);
+    const projected = stackProducts
+      ? stackByProduct(state.products, project([]).map((x) => x.month), (productId) => project(ofProduct(subsCalc, productId)))
+      : companyFilter
+      ? { data: project(subsCalc) as ChartDatum[], legend: undefined }
+      : stackByCompany(state.companies, project([]).map((x) => x.month), (companyId) =>
+          project(subsView.filter((s: Subscription) => s.companyId === companyId))
+        );
+    const actual = series.filter((x) => x.month <= current);
+    const chartMonths = [...actual.map((x) => x.month), ...projected.data.map((x) => x.month)];
+    return {
+      data: [...actual, ...projected.data.map((x) => ({ ...x, forecast: true }))],
+      legend: chart.legend && projected.legend
+        ? [...chart.legend, ...projected.legend.filter((l) => !chart.legend!.some((c) => c.key === l.key))]
+        : chart.legend ?? projected.legend,
+      compare: compareYoY ? seriesFor(subsCalc, expensesFiltered, chartMonths.map((mk) => shiftMonth(mk, -12))) : undefined,
+      total: projected.data.reduce((s, x) => s + x.amount, 0),
+    };
+  }, [forecasting, mode, received, paymentsView, forecastOptions, companyFilter, stackProducts, subsCalc, expensesFiltered, state.companies, state.products, subsView, series, chart.legend, compareYoY, fx]);
+  const setForecastOption = <K extends keyof ForecastOptions>(key: K, value: ForecastOptions[K]) =>
+    setForecastOptions((o) => ({ ...o, [key]: value }));
+  // SaaS metrics for the filtered items; per company when showing all companies
+  const metrics = useMemo(() => calcMetrics(subsCalc, months, fx), [subsCalc, months, fx]);
+  const metricsTotal = useMemo(() => summarizeMovements(metrics), [metrics]);
+  const metricsPerCompany = useMemo(() => {
+    if (companyFilter) return [];
+    const ids = [...state.companies.map((c: Company) => c.id as string | null), null];
+    return calcMetricsByCompany(subsView, ids, months, fx)
+      .map((row) => ({ companyId: row.companyId, name: companyName(state.companies, row.companyId) || "Zonder bedrijf", total: summarizeMovements(row.months) }))
+      .filter((row) => row.total && (row.total.startMRR || row.total.endMRR));
+  }, [state.companies, subsView, months, companyFilter, fx]);
+
+  // Cohorts of the filtered items up to the current month (later months have no retention yet)
+  const cohorts = useMemo(
+    () =>
+      calcCohorts(
+        subsCalc.filter((s: Subscription) => !cohortType || s.billingType === cohortType),
+        months.filter((mk) => mk <= monthKey(new Date())),
+        fx
+      ),
+    [subsCalc, cohortType, months, fx]
+  );
+
+  const companyProfits = useMemo(
+    () =>
+      profitByCompany(state.companies, subsView, state.expenses, months, fx).filter(
+        (row) => !companyFilter || row.companyId === companyFilter
+      ),
+    [state.companies, subsView, state.expenses, months, companyFilter, fx]
+  );
+  const productRevenue = useMemo(
+    () => (stackProducts ? revenueByProduct(state.products, subsCalc, months, monthKey(new Date()), fx) : []),
+    [stackProducts, state.products, subsCalc, months, fx]
+  );
+  const productTotal = productRevenue.reduce((a, r) => a + r.revenue, 0);
+  // Top customers and revenue concentration per company (cash in the selected months)
+  const customerRanking = useMemo(
+    () =>
+      companyFilter
+        ? [{ companyId: companyFilter as string | null, ranking: rankCustomers(state.customers, subsCalc, months, fx) }]
+            .filter((row) => row.ranking.length > 0)
+            .map((row) => ({ ...row, concentration: concentrationOf(row.ranking) }))
+        : rankCustomersByCompany(state.companies, state.customers, subsView, months, fx),
+    [companyFilter, state.companies, state.customers, subsCalc, subsView, months, fx]
+  );
+  // VAT return per quarter of the selected (end) year, always on net cash amounts in EUR
+  const vatReport = useMemo(() => calcVatReport(subsBilledFiltered, state.companies, year, fx), [subsBilledFiltered, state.companies, year, fx]);
+  // Receivables of the companies that track payments, on net amounts like the VAT report
+  const tracksPayments = state.companies.some((c: Company) => !!c.paymentsFrom);
+  const overdue = useMemo(() => overdueCharges(subsBilledFiltered, state.payments, state.companies), [subsBilledFiltered, state.payments, state.companies]);
+  const ageing = useMemo(() => ageingBuckets(overdue, fx), [overdue, fx]);
+  const receivedRows = useMemo(
+    () => expectedVsReceived(subsBilledFiltered, state.payments, state.companies, months, fx).filter((r) => r.expected !== 0 || r.received !== 0),
+    [subsBilledFiltered, state.payments, state.companies, months, fx]
+  );
+  const yearRevenue = useMemo(() => companyProfits.reduce((s, x) => s + x.revenue, 0), [companyProfits]);
 
   const totalYear = useMemo(() => series.reduce((s, x) => s + x.amount, 0), [series]);
   const currentMonthKey = monthKey(new Date());
   const currentAmount = series.find((x) => x.month === currentMonthKey)?.amount || 0;
-  const mrrNow = useMemo(() => calcSeries(state.subs, "mrr", [currentMonthKey])[0].amount, [state.subs, currentMonthKey]);
+  const mrrNow = useMemo(() => calcSeries(subsCalc, "mrr", [currentMonthKey], fx)[0].amount, [subsCalc, currentMonthKey, fx]);
 
   // Form state
   const [showItemModal, setShowItemModal] = useState(false);
   const [showCompanyModal, setShowCompanyModal] = useState(false);
   const [showVariableModal, setShowVariableModal] = useState(false);
+  const [showExpenseModal, setShowExpenseModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showRestoreModal, setShowRestoreModal] = useState(false);
+  // Local data that could not be read at startup (set aside by the store), offered for export and restore
+  const [unreadable, setUnreadable] = useState<UnreadableState[]>(() => (store.kind === "local" ? unreadableStates() : []));
+  const [restoreSource, setRestoreSource] = useState<UnreadableState | null>(null);
+  const [showRatesModal, setShowRatesModal] = useState(false);
+  const [showProductsModal, setShowProductsModal] = useState(false);
+  const [showCustomersModal, setShowCustomersModal] = useState(false);
+  const [customerDetailId, setCustomerDetailId] = useState<string | null>(null);
+  const [showInvoicesModal, setShowInvoicesModal] = useState(false);
+  const [showPaymentsModal, setShowPaymentsModal] = useState(false);
+  // History panel: one company or item, or the whole log when no id is set
+  const [historyFor, setHistoryFor] = useState<null | { title: string; entity?: AuditEntry["entity"]; id?: string }>(null);
+  const historyEntries = useMemo(
+    () => (!historyFor ? [] : historyFor.entity && historyFor.id ? historyOf(state.audit, historyFor.entity, historyFor.id) : state.audit.slice(0, AUDIT_LIMIT)),
+    [historyFor, state.audit]
+  );
+
+  // Ctrl/Cmd+Z undoes the last change of a company or item, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes it. Inputs and open
+  // dialogs keep their own undo; the listener reads the latest undo/redo through a ref, so it is added only once.
+  const undoRedo = React.useRef({ undo: db.undo, redo: db.redo });
+  undoRedo.current = { undo: db.undo, redo: db.redo };
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target instanceof HTMLElement ? e.target : null;
+      if (target && (target.isContentEditable || target.closest("input, textarea, select"))) return;
+      if (document.querySelector('[role="dialog"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undoRedo.current.undo().catch(() => {});
+      } else if ((key === "z" && e.shiftKey) || (key === "y" && !e.metaKey)) {
+        e.preventDefault();
+        undoRedo.current.redo().catch(() => {});
+      }
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
   const [variableEditId, setVariableEditId] = useState<string | null>(null);
   const [variableYear, setVariableYear] = useState(year);
 
   const [newCompany, setNewCompany] = useState("");
+  const [newCompanyVat, setNewCompanyVat] = useState<VatCode>("standard");
 
   const [form, setForm] = useState({
     billingType: "recurring" as BillingType,
     companyId: "",
+    productId: "",
     customer: "",
     planName: "",
     price: "",
+    currency: BASE_CURRENCY,
+    vatCode: "" as VatCode | "",
     cadence: "monthly" as Cadence,
-    startDate: new Date().toISOString().slice(0, 10),
+    intervalMonths: "2",
+    anchorDate: "",
+    startDate: isoDate(new Date()),
     cancelDate: "",
     notes: "",
   });
   const canSave = form.customer && form.planName && form.price !== "" && form.startDate;
 
-  function addCompany(name: string) {
-    const c: Company = { id: uid(), name };
-    setState((prev: any) => ({ ...prev, companies: [...prev.companies, c] }));
+  const [expenseForm, setExpenseForm] = useState({
+    companyId: "",
+    description: "",
+    category: "",
+    amount: "",
+    date: isoDate(new Date()),
+  });
+  const canSaveExpense = expenseForm.description && expenseForm.amount !== "" && expenseForm.date;
+
+  // Store errors are surfaced through db.error, so the promises are not awaited here
+  function addCompany(name: string, vatCode: VatCode) {
+    db.addCompany(name)
+      .then((company) => (vatCode !== "standard" ? db.updateCompany(company.id, { vatCode }) : company))
+      .catch(() => {});
+  }
+
+  function updateCompany(id: string, patch: CompanyPatch) {
+    db.updateCompany(id, patch).catch(() => {});
+  }
+
+  // Mark an overdue charge as paid today for the amount still open
+  function receiveCharge(charge: OpenCharge) {
+    db.addPayment({
+      subscriptionId: charge.subscriptionId,
+      month: charge.month,
+      amount: Math.round(charge.open * 100) / 100,
+      date: isoDate(new Date()),
+    }).catch(() => {});
   }
 
   function addItem() {
-    const payload: Subscription = {
-      id: uid(),
+    // Existing customer with this name, otherwise the store creates one
+    const customer = state.customers.find((c: Customer) => customerKey(c.name) === customerKey(form.customer));
+    const payload: Omit<Subscription, "id"> = {
       companyId: form.companyId || null,
-      productId: null,
-      customer: form.customer.trim(),
+      productId: form.productId || null,
+      customerId: customer?.id,
+      customer: customer?.name ?? form.customer.trim(),
       planName: form.planName.trim(),
       price: Number(form.price || 0),
+      currency: form.currency,
+      vatCode: form.vatCode || undefined,
       billingType: form.billingType,
       cadence: form.cadence,
+      intervalMonths: form.cadence === "custom" ? Math.max(1, Math.round(Number(form.intervalMonths) || 1)) : undefined,
+      anchorDate: form.billingType === "recurring" && form.cadence !== "monthly" ? form.anchorDate || undefined : undefined,
       startDate: form.startDate,
       cancelDate: form.billingType === "recurring" ? (form.cancelDate || null) : null,
       notes: form.notes.trim(),
       variableAmounts: form.billingType === "variable" ? {} : undefined,
     };
-    setState((prev: any) => ({ ...prev, subs: [payload, ...prev.subs] }));
+    db.addSubscription(payload).catch(() => {});
+  }
+
+  const customerOptions = useMemo(() => [...state.customers].sort((a, b) => a.name.localeCompare(b.name, "nl")), [state.customers]);
+
+  // Catalog product: pre-fills the new item; the plan name follows the product
+  function chooseProduct(productId: string) {
+    const product = state.products.find((p: Product) => p.id === productId);
+    if (!product) {
+      setForm((f) => ({ ...f, productId: "" }));
+      return;
+    }
+    setForm((f) => ({
+      ...f,
+      productId: product.id,
+      companyId: product.companyId ?? f.companyId,
+      planName: product.name,
+      price: String(product.price),
+      currency: product.currency ?? BASE_CURRENCY,
+      billingType: product.billingType,
+      cadence: product.cadence,
+      intervalMonths: String(product.intervalMonths ?? 2),
+    }));
   }
 
+  // Products that fit a company (plus the one already linked, should it belong elsewhere)
+  const productsFor = (companyId: string | null, linkedId?: string | null) =>
+    state.products.filter((p: Product) => p.id === linkedId || !p.companyId || !companyId || p.companyId === companyId);
+
   function updateSub(id: string, patch: Partial<Subscription>) {
-    setState((prev: any) => ({ ...prev, subs: prev.subs.map((s: Subscription) => (s.id === id ? { ...s, ...patch } : s)) }));
+    db.updateSubscription(id, patch).catch(() => {});
   }
 
   function updateVariableAmount(id: string, mk: string, value: number) {
-    setState((prev: any) => ({
-      ...prev,
-      subs: prev.subs.map((s: Subscription) => {
-        if (s.id !== id) return s;
-        const next = { ...(s.variableAmounts || {}) } as VariableMap;
-        if (Number.isFinite(value) && value !== 0) next[mk] = value; else delete next[mk];
-        return { ...s, variableAmounts: next };
-      })
-    }));
+    const sub = state.subs.find((s: Subscription) => s.id === id);
+    if (!sub) return;
+    const next = { ...(sub.variableAmounts || {}) } as VariableMap;
+    if (Number.isFinite(value) && value !== 0) next[mk] = value; else delete next[mk];
+    updateSub(id, { variableAmounts: next });
   }
 
   function removeSub(id: string) {
-    setState((prev: any) => ({ ...prev, subs: prev.subs.filter((s: Subscription) => s.id !== id) }));
+    db.deleteSubscription(id).catch(() => {});
+  }
+
+  // Exports honor the selected range and company filter
+  const exportName = (kind: string, ext: string) => `revenue-${kind}-${resolvedRange.from}_${resolvedRange.to}.${ext}`;
+
+  function exportCsv(kind: "items" | "series") {
+    const rows = kind === "items" ? buildItemRows(subsFiltered, state.companies) : buildSeriesCsvRows(subsBilledFiltered, state.companies, months, fx);
+    downloadFile(exportName(kind, "csv"), "\uFEFF" + toCsv(rows), "text/csv;charset=utf-8");
+  }
+
+  function exportVatCsv() {
+    downloadFile(`revenue-btw-${year}.csv`, "\uFEFF" + toCsv(buildVatRows(vatReport)), "text/csv;charset=utf-8");
+  }
+
+  function exportXlsx() {
+    const data = buildXlsx(buildExportSheets(subsBilledFiltered, state.companies, months, fx));
+    downloadFile(exportName("export", "xlsx"), data, "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+  }
+
+  function downloadBackup() {
+    const json = JSON.stringify(toEnvelope(state), null, 2);
+    downloadFile(`revenue-backup-${isoDate(new Date())}.json`, json, "application/json");
+  }
+
+  function exportUnreadable(item: UnreadableState) {
+    downloadFile(`revenue-onleesbaar-${item.savedAt.toISOString().slice(0, 10)}.json`, item.raw, "application/json");
+  }
+
+  // A restore from the set-aside data also clears it
+  async function restoreBackup(data: RevenueState) {
+    await db.restore(data);
+    if (restoreSource) {
+      discardUnreadableState(restoreSource.key);
+      setUnreadable(unreadableStates());
+    }
+  }
+
+  function addExpense() {
+    db.addExpense({
+      companyId: expenseForm.companyId || null,
+      description: expenseForm.description.trim(),
+      category: expenseForm.category.trim(),
+      amount: Number(expenseForm.amount || 0),
+      date: expenseForm.date,
+    }).catch(() => {});
+  }
+
+  function updateExpense(id: string, patch: Partial<Expense>) {
+    db.updateExpense(id, patch).catch(() => {});
+  }
+
+  function removeExpense(id: string) {
+    db.deleteExpense(id).catch(() => {});
   }
 
   const editingSub: Subscription | null = useMemo(
@@ -511,10 +2560,67 @@ export default function App() {
             <div className="flex items-center gap-2">
               <Badge active={mode === "cash"} onClick={() => setMode("cash")}>Cash</Badge>
               <Badge active={mode === "mrr"} onClick={() => setMode("mrr")}>MRR</Badge>
+              <Badge active={mode === "profit"} onClick={() => setMode("profit")}>Winst</Badge>
+              {mode !== "profit" && (
+                <Badge active={showForecast} onClick={() => setShowForecast((v) => !v)}>Prognose</Badge>
+              )}
+              {mode !== "profit" && (
+                <Badge active={byProduct} onClick={() => setByProduct((v) => !v)}>Per product</Badge>
+              )}
+              {mode === "cash" && (
+                <Badge active={receivedOnly} onClick={() => setReceivedOnly((v) => !v)}>Alleen ontvangen</Badge>
+              )}
             </div>
-            <Select value={String(year)} onChange={(e) => setYear(Number(e.target.value))}>
-              {Array.from({ length: 6 }, (_, i) => new Date().getFullYear() - i).map((y) => (
-                <option key={y} value={y}>{y}</option>
+            <Select value={range.preset} onChange={(e) => setRange((r) => ({ ...r, preset: e.target.value as RangePreset }))} className="w-auto">
+              <option value="year">Kalenderjaar</option>
+              <option value="last12">Laatste 12 maanden</option>
+              <option value="ytd">Dit jaar t/m heden</option>
+              <option value="years">Meerdere jaren</option>
+              <option value="custom">Aangepast</option>
+            </Select>
+            {range.preset === "year" && (
+              <Select value={String(range.year)} onChange={(e) => setRange((r) => ({ ...r, year: Number(e.target.value) }))} className="w-auto">
+                {Array.from({ length: 6 }, (_, i) => new Date().getFullYear() - i).map((y) => (
+                  <option key={y} value={y}>{y}</option>
+                ))}
+              </Select>
+            )}
+            {range.preset === "years" && (
+              <div className="flex items-center gap-2">
+                <Select value={String(range.fromYear)} onChange={(e) => setRange((r) => ({ ...r, fromYear: Number(e.target.value) }))} className="w-auto">
+                  {Array.from({ length: 6 }, (_, i) => new Date().getFullYear() - i).map((y) => (
+                    <option key={y} value={y}>{y}</option>
+                  ))}
+                </Select>
+                <span className="text-sm text-zinc-600">t/m</span>
+                <Select value={String(range.toYear)} onChange={(e) => setRange((r) => ({ ...r, toYear: Number(e.target.value) }))} className="w-auto">
+                  {Array.from({ length: 6 }, (_, i) => new Date().getFullYear() - i).map((y) => (
+                    <option key={y} value={y}>{y}</option>
+                  ))}
+                </Select>
+              </div>
+            )}
+            {range.preset === "custom" && (
+              <div className="flex items-center gap-2">
+                <Input type="month" value={range.from} onChange={(e) => setRange((r) => ({ ...r, from: e.target.value }))} className="w-auto" />
+                <span className="text-sm text-zinc-600">t/m</span>
+                <Input type="month" value={range.to} onChange={(e) => setRange((r) => ({ ...r, to: e.target.value }))} className="w-auto" />
+              </div>
+            )}
+            <Badge active={compareYoY} onClick={() => setCompareYoY((v) => !v)}>Vergelijk vorig jaar</Badge>
+            {mode !== "profit" && (
+              <Badge active={showGross} onClick={() => setShowGross((v) => !v)}>Incl. BTW</Badge>
+            )}
+            {mode === "mrr" && (
+              <Select value={encodeVariableMrr(variableMrr)} onChange={(e) => chooseVariableMrr(e.target.value)} className="w-auto" title="Variabele inkomsten in MRR">
+                {VARIABLE_MRR_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </Select>
+            )}
+            <Select value={reportingCurrency} onChange={(e) => chooseReportingCurrency(e.target.value)} className="w-auto" title="Rapportagevaluta">
+              {currencies.map((c) => (
+                <option key={c} value={c}>{c}</option>
               ))}
             </Select>
             <Select value={companyFilter} onChange={(e) => setCompanyFilter(e.target.value)}>
@@ -526,20 +2632,60 @@ export default function App() {
             <Button onClick={() => setShowItemModal(true)} className="flex items-center gap-2"><IconPlus />
               <span>Nieuw item</span>
             </Button>
-            <ButtonOutline onClick={() => setShowCompanyModal(true)} className="flex items-center gap-2"><IconPlus />
-              <span>Nieuw bedrijf</span>
+            <ButtonOutline onClick={() => setShowImportModal(true)}>CSV importeren</ButtonOutline>
+            <ButtonOutline onClick={downloadBackup}>Backup</ButtonOutline>
+            <ButtonOutline onClick={() => setShowRestoreModal(true)}>Herstellen</ButtonOutline>
+            <ButtonOutline onClick={() => setShowRatesModal(true)}>Wisselkoersen</ButtonOutline>
+            <ButtonOutline onClick={() => setShowExpenseModal(true)} className="flex items-center gap-2"><IconPlus />
+              <span>Nieuwe uitgave</span>
             </ButtonOutline>
+            <ButtonOutline onClick={() => setShowCompanyModal(true)}>Bedrijven</ButtonOutline>
+            <ButtonOutline onClick={() => setShowProductsModal(true)}>Producten</ButtonOutline>
+            <ButtonOutline onClick={() => setShowCustomersModal(true)}>Klanten</ButtonOutline>
+            <ButtonOutline onClick={() => setShowInvoicesModal(true)}>Facturen</ButtonOutline>
+            <div className="flex items-center gap-1">
+              <ButtonOutline disabled={!db.canUndo} onClick={() => db.undo().catch(() => {})} title="Ongedaan maken (Ctrl+Z)">↶</ButtonOutline>
+              <ButtonOutline disabled={!db.canRedo} onClick={() => db.redo().catch(() => {})} title="Opnieuw (Ctrl+Shift+Z)">↷</ButtonOutline>
+              <ButtonOutline onClick={() => setHistoryFor({ title: "Historie" })}>Historie</ButtonOutline>
+            </div>
+            <Input value={userName} onChange={(e) => chooseUserName(e.target.value)} placeholder="Jouw naam" className="w-32" title="Naam in de wijzigingshistorie" />
           </div>
         </header>
 
+        {db.error && (
+          <div className="mb-6 flex items-center justify-between rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            <span>{db.error}</span>
+            <ButtonOutline onClick={() => db.refresh()}>Opnieuw laden</ButtonOutline>
+          </div>
+        )}
+        {unreadable.length > 0 && (
+          <div className="mb-6 flex items-center justify-between gap-4 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            <span>
+              Opgeslagen gegevens konden niet worden gelezen en zijn op {unreadable[0].savedAt.toLocaleString("nl-NL", { dateStyle: "short", timeStyle: "short" })} apart gezet
+              {unreadable.length > 1 ? ` (en nog ${unreadable.length - 1} eerdere)` : ""}; de app is met de voorbeeldgegevens gestart.
+            </span>
+            <div className="flex shrink-0 gap-2">
+              <ButtonOutline onClick={() => exportUnreadable(unreadable[0])}>Exporteren</ButtonOutline>
+              <ButtonOutline onClick={() => setRestoreSource(unreadable[0])}>Herstellen</ButtonOutline>
+            </div>
+          </div>
+        )}
+        {ratesMissing.length > 0 && (
+          <div className="mb-6 flex items-center justify-between rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            <span>Geen wisselkoers voor {ratesMissing.join(", ")}: deze bedragen worden 1-op-1 meegeteld.</span>
+            <ButtonOutline onClick={() => setShowRatesModal(true)}>Koersen invoeren</ButtonOutline>
+          </div>
+        )}
+        {db.loading && <p className="mb-6 text-sm text-zinc-600">Gegevens laden…</p>}
+
         {/* KPIs */}
         <section className="mb-6 grid gap-4 md:grid-cols-3">
           <Card>
             <CardContent>
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-zinc-600">{mode === "cash" ? "Inkomen deze maand (cash)" : "MRR (huidige maand)"}</p>
-                  <p className="mt-1 text-2xl font-semibold">{fmtEUR(mode === "cash" ? currentAmount : mrrNow)}</p>
+                  <p className="text-sm text-zinc-600">{mode === "cash" ? (received ? "Ontvangen deze maand" : "Inkomen deze maand (cash)") : mode === "mrr" ? "MRR (huidige maand)" : "Winst deze maand"}</p>
+                  <p className="mt-1 text-2xl font-semibold">{fmt(mode === "mrr" ? mrrNow : currentAmount)}</p>
                 </div>
                 <IconWallet className="h-8 w-8" />
               </div>
@@ -549,8 +2695,13 @@ export default function App() {
             <CardContent>
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-zinc-600">Totaal {year} ({mode.toUpperCase()})</p>
-                  <p className="mt-1 text-2xl font-semibold">{fmtEUR(totalYear)}</p>
+                  <p className="text-sm text-zinc-600">Totaal {periodLabel} ({mode === "profit" ? "WINST" : mode.toUpperCase()})</p>
+                  <p className="mt-1 text-2xl font-semibold">{fmt(totalYear)}</p>
+                  {previousSeries && (
+                    <p className="text-xs text-zinc-500">
+                      Vorig jaar {fmt(totalPrevious)} · groei {fmtPct(growthOf(totalYear, totalPrevious))}
+                    </p>
+                  )}
                 </div>
                 <IconTrend className="h-8 w-8" />
               </div>
@@ -560,8 +2711,8 @@ export default function App() {
             <CardContent>
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-zinc-600">Actieve items</p>
-                  <p className="mt-1 text-2xl font-semibold">{state.subs.length}</p>
+                  <p className="text-sm text-zinc-600">{mode === "profit" ? `Marge ${periodLabel}` : "Actieve items"}</p>
+                  <p className="mt-1 text-2xl font-semibold">{mode === "profit" ? fmtPct(marginOf(yearRevenue, totalYear)) : subsFiltered.length}</p>
                 </div>
                 <IconPlus className="h-8 w-8" />
               </div>
@@ -573,10 +2724,407 @@ export default function App() {
         <Card className="mb-6">
           <CardContent>
             <div className="mb-3 flex items-center justify-between">
-              <h2 className="text-lg font-semibold">{mode === "cash" ? "Maandelijkse inkomsten (cash)" : "Maandelijkse terugkerende omzet (MRR)"}</h2>
-              <span className="text-sm text-zinc-600">{year}</span>
+              <h2 className="text-lg font-semibold">{mode === "cash" ? (received ? "Maandelijkse inkomsten (ontvangen)" : "Maandelijkse inkomsten (cash)") : mode === "mrr" ? "Maandelijkse terugkerende omzet (MRR)" : "Maandelijkse winst (inkomsten − uitgaven)"}</h2>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-zinc-600">{periodLabel}{gross ? " · incl. BTW" : ""}</span>
+                <ButtonOutline onClick={() => exportCsv("items")}>Items CSV</ButtonOutline>
+                <ButtonOutline onClick={() => exportCsv("series")}>Reeks CSV</ButtonOutline>
+                <ButtonOutline onClick={exportXlsx}>XLSX</ButtonOutline>
+              </div>
+            </div>
+            {forecastChart && (
+              <div className="mb-3 flex flex-wrap items-center gap-3 text-sm text-zinc-600">
+                <span>Prognose</span>
+                <Select value={String(forecastOptions.horizon)} onChange={(e) => setForecastOption("horizon", Number(e.target.value))} className="w-auto">
+                  {[3, 6, 12, 18, 24].map((n) => (
+                    <option key={n} value={n}>{n} maanden</option>
+                  ))}
+                </Select>
+                <Select value={forecastOptions.variableMethod} onChange={(e) => setForecastOption("variableMethod", e.target.value as VariableMethod)} className="w-auto">
+                  <option value="average">Variabel: gemiddelde</option>
+                  <option value="trend">Variabel: trend</option>
+                </Select>
+                <label className="flex items-center gap-1">
+                  Churn/mnd %
+                  <Input type="number" min="0" step="0.5" value={forecastOptions.churnRate * 100} onChange={(e) => setForecastOption("churnRate", Math.max(0, Number(e.target.value) || 0) / 100)} className="w-20" />
+                </label>
+                <label className="flex items-center gap-1">
+                  Groei/mnd %
+                  <Input type="number" min="0" step="0.5" value={forecastOptions.growthRate * 100} onChange={(e) => setForecastOption("growthRate", Math.max(0, Number(e.target.value) || 0) / 100)} className="w-20" />
+                </label>
+                <span className="ml-auto">Komende {forecastOptions.horizon} maanden: <span className="font-semibold text-zinc-900">{fmt(forecastChart.total)}</span></span>
+              </div>
+            )}
+            <MiniBarChartLabeled
+              currency={reportingCurrency}
+              data={forecastChart?.data ?? series}
+              legend={forecastChart?.legend ?? chart.legend}
+              compare={forecastChart ? forecastChart.compare : previousSeries}
+              prorated={proration}
+            />
+          </CardContent>
+        </Card>
+
+        {/* SaaS metrics */}
+        {mode === "mrr" && metricsTotal && (
+          <Card className="mb-6">
+            <CardContent>
+              <div className="mb-3 flex items-center justify-between">
+                <h2 className="text-lg font-semibold">MRR-bewegingen</h2>
+                <span className="text-sm text-zinc-600">{periodLabel}</span>
+              </div>
+              <WaterfallChart steps={waterfallSteps(metricsTotal)} currency={reportingCurrency} />
+              <div className="mt-2 mb-4 flex flex-wrap gap-4 text-sm">
+                <span>NRR <b>{fmtPct(metricsTotal.nrr)}</b></span>
+                <span>GRR <b>{fmtPct(metricsTotal.grr)}</b></span>
+                <span>Logo churn <b>{fmtPct(metricsTotal.logoChurn)}</b></span>
+                <span>Revenue churn <b>{fmtPct(metricsTotal.revenueChurn)}</b></span>
+                <span>ARPA <b>{metricsTotal.arpa == null ? "—" : fmt(metricsTotal.arpa)}</b></span>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-zinc-600">
+                      <th className="px-2 py-2">Maand</th>
+                      <th className="px-2 py-2 text-right">Start</th>
+                      <th className="px-2 py-2 text-right">Nieuw</th>
+                      <th className="px-2 py-2 text-right">Reactivatie</th>
+                      <th className="px-2 py-2 text-right">Expansie</th>
+                      <th className="px-2 py-2 text-right">Contractie</th>
+                      <th className="px-2 py-2 text-right">Churn</th>
+                      <th className="px-2 py-2 text-right">Eind</th>
+                      <th className="px-2 py-2 text-right">Logo churn</th>
+                      <th className="px-2 py-2 text-right">Revenue churn</th>
+                      <th className="px-2 py-2 text-right">NRR</th>
+                      <th className="px-2 py-2 text-right">GRR</th>
+                      <th className="px-2 py-2 text-right">ARPA</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {metrics.map((r) => (
+                      <tr key={r.month} className="border-t">
+                        <td className="px-2 py-1">{r.month}</td>
+                        <td className="px-2 py-1 text-right">{fmt(r.startMRR)}</td>
+                        <td className="px-2 py-1 text-right">{fmt(r.newMRR)}</td>
+                        <td className="px-2 py-1 text-right">{fmt(r.reactivated)}</td>
+                        <td className="px-2 py-1 text-right">{fmt(r.expansion)}</td>
+                        <td className="px-2 py-1 text-right">{fmt(r.contraction)}</td>
+                        <td className="px-2 py-1 text-right">{fmt(r.churned)}</td>
+                        <td className="px-2 py-1 text-right font-medium">{fmt(r.endMRR)}</td>
+                        <td className="px-2 py-1 text-right">{fmtPct(r.logoChurn)}</td>
+                        <td className="px-2 py-1 text-right">{fmtPct(r.revenueChurn)}</td>
+                        <td className="px-2 py-1 text-right">{fmtPct(r.nrr)}</td>
+                        <td className="px-2 py-1 text-right">{fmtPct(r.grr)}</td>
+                        <td className="px-2 py-1 text-right">{r.arpa == null ? "—" : fmt(r.arpa)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {metricsPerCompany.length > 0 && (
+                <div className="mt-4 overflow-x-auto">
+                  <h3 className="mb-2 text-sm font-semibold">Per bedrijf ({periodLabel})</h3>
+                  <table className="min-w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-zinc-600">
+                        <th className="px-2 py-2">Bedrijf</th>
+                        <th className="px-2 py-2 text-right">Start MRR</th>
+                        <th className="px-2 py-2 text-right">Eind MRR</th>
+                        <th className="px-2 py-2 text-right">Nieuw</th>
+                        <th className="px-2 py-2 text-right">Churn</th>
+                        <th className="px-2 py-2 text-right">NRR</th>
+                        <th className="px-2 py-2 text-right">GRR</th>
+                        <th className="px-2 py-2 text-right">ARPA</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {metricsPerCompany.map(({ companyId, name, total }) => total && (
+                        <tr key={companyId ?? "none"} className="border-t">
+                          <td className="px-2 py-1">{name}</td>
+                          <td className="px-2 py-1 text-right">{fmt(total.startMRR)}</td>
+                          <td className="px-2 py-1 text-right">{fmt(total.endMRR)}</td>
+                          <td className="px-2 py-1 text-right">{fmt(total.newMRR)}</td>
+                          <td className="px-2 py-1 text-right">{fmt(total.churned)}</td>
+                          <td className="px-2 py-1 text-right">{fmtPct(total.nrr)}</td>
+                          <td className="px-2 py-1 text-right">{fmtPct(total.grr)}</td>
+                          <td className="px-2 py-1 text-right">{total.arpa == null ? "—" : fmt(total.arpa)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Cohort retention */}
+        {mode === "mrr" && (
+          <Card className="mb-6">
+            <CardContent>
+              <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+                <h2 className="text-lg font-semibold">Cohorten per startmaand</h2>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge active={cohortMetric === "logos"} onClick={() => setCohortMetric("logos")}>Logo's</Badge>
+                  <Badge active={cohortMetric === "mrr"} onClick={() => setCohortMetric("mrr")}>MRR</Badge>
+                  <Badge active={cohortShare} onClick={() => setCohortShare((v) => !v)}>In %</Badge>
+                  <Select value={cohortType} onChange={(e) => setCohortType(e.target.value as BillingType | "")} className="w-auto">
+                    <option value="">Alle types</option>
+                    {(Object.keys(BILLING_LABEL) as BillingType[]).map((t) => (
+                      <option key={t} value={t}>{BILLING_LABEL[t]}</option>
+                    ))}
+                  </Select>
+                </div>
+              </div>
+              {cohorts.length > 0 ? (
+                <CohortTable cohorts={cohorts} metric={cohortMetric} showShare={cohortShare} currency={reportingCurrency} />
+              ) : (
+                <p className="text-sm text-zinc-500">Geen items gestart in {periodLabel}.</p>
+              )}
+              <p className="mt-2 text-xs text-zinc-500">M0 is de startmaand; elke kolom daarna toont wat er van het cohort nog actief is (einddatum telt mee).</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Profit per company */}
+        {mode === "profit" && (
+          <Card className="mb-6">
+            <CardContent>
+              <div className="mb-3 flex items-center justify-between">
+                <h2 className="text-lg font-semibold">Winst & marge per bedrijf</h2>
+                <span className="text-sm text-zinc-600">{periodLabel}</span>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-zinc-600">
+                      <th className="px-2 py-2">Bedrijf</th>
+                      <th className="px-2 py-2 text-right">Inkomsten</th>
+                      <th className="px-2 py-2 text-right">Uitgaven</th>
+                      <th className="px-2 py-2 text-right">Winst</th>
+                      <th className="px-2 py-2 text-right">Marge</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {companyProfits.map((row) => (
+                      <tr key={row.companyId ?? "none"} className="border-t">
+                        <td className="px-2 py-2">{row.name}</td>
+                        <td className="px-2 py-2 text-right">{fmt(row.revenue)}</td>
+                        <td className="px-2 py-2 text-right">{fmt(row.expenses)}</td>
+                        <td className={`px-2 py-2 text-right font-medium ${row.profit < 0 ? "text-red-600" : ""}`}>{fmt(row.profit)}</td>
+                        <td className="px-2 py-2 text-right">{fmtPct(row.margin)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Revenue per product */}
+        {stackProducts && productRevenue.length > 0 && (
+          <Card className="mb-6">
+            <CardContent>
+              <div className="mb-3 flex items-center justify-between">
+                <h2 className="text-lg font-semibold">Omzet per product</h2>
+                <span className="text-sm text-zinc-600">{periodLabel}</span>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-zinc-600">
+                      <th className="px-2 py-2">Product</th>
+                      <th className="px-2 py-2">Bedrijf</th>
+                      <th className="px-2 py-2 text-right">Items</th>
+                      <th className="px-2 py-2 text-right">Cash</th>
+                      <th className="px-2 py-2 text-right">Aandeel</th>
+                      <th className="px-2 py-2 text-right">MRR (nu)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {productRevenue.map((row) => (
+                      <tr key={row.productId ?? "none"} className="border-t">
+                        <td className="px-2 py-2">{row.name}</td>
+                        <td className="px-2 py-2">{companyName(state.companies, row.companyId) || "-"}</td>
+                        <td className="px-2 py-2 text-right">{row.items}</td>
+                        <td className="px-2 py-2 text-right">{fmt(row.revenue)}</td>
+                        <td className="px-2 py-2 text-right">{fmtPct(productTotal > 0 ? row.revenue / productTotal : null)}</td>
+                        <td className="px-2 py-2 text-right">{fmt(row.mrr)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Top customers */}
+        {mode !== "profit" && customerRanking.length > 0 && (
+          <Card className="mb-6">
+            <CardContent>
+              <div className="mb-3 flex items-center justify-between">
+                <h2 className="text-lg font-semibold">Topklanten & concentratie</h2>
+                <span className="text-sm text-zinc-600">Cash {periodLabel}</span>
+              </div>
+              <div className="grid gap-6 md:grid-cols-2">
+                {customerRanking.map(({ companyId, ranking, concentration }) => (
+                  <div key={companyId ?? "none"}>
+                    <div className="mb-1 flex items-baseline justify-between">
+                      <h3 className="font-medium">{companyName(state.companies, companyId) || "Zonder bedrijf"}</h3>
+                      <span className="text-xs text-zinc-600">
+                        Top 1 {fmtPct(concentration.top1)} · Top 5 {fmtPct(concentration.top5)} · HHI {concentration.hhi == null ? "—" : Math.round(concentration.hhi * 10000)}
+                      </span>
+                    </div>
+                    <table className="min-w-full text-sm">
+                      <tbody>
+                        {ranking.slice(0, 5).map((r: CustomerRank, i: number) => (
+                          <tr key={r.customerId ?? "none"} className="border-t">
+                            <td className="w-6 px-2 py-1 text-zinc-500">{i + 1}</td>
+                            <td className="px-2 py-1">
+                              {r.customerId ? (
+                                <button className="text-left hover:underline" onClick={() => setCustomerDetailId(r.customerId)}>{r.name}</button>
+                              ) : (
+                                r.name
+                              )}
+                            </td>
+                            <td className="px-2 py-1 text-right">{fmt(r.revenue)}</td>
+                            <td className="w-16 px-2 py-1 text-right">{fmtPct(r.share)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* VAT return */}
+        <Card className="mb-6">
+          <CardContent>
+            <div className="mb-3 flex items-center justify-between">
+              <h2 className="text-lg font-semibold">BTW-aangifte {year}</h2>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-zinc-600">Op kasbasis, in {BASE_CURRENCY}</span>
+                <ButtonOutline onClick={exportVatCsv}>BTW CSV</ButtonOutline>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-zinc-600">
+                    <th className="px-2 py-2">Kwartaal</th>
+                    <th className="px-2 py-2">Tarief</th>
+                    <th className="px-2 py-2 text-right">Omzet excl. BTW</th>
+                    <th className="px-2 py-2 text-right">BTW</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {vatReport.map((q) => (
+                    <React.Fragment key={q.quarter}>
+                      {q.rows.map((r) => (
+                        <tr key={r.code} className="border-t">
+                          <td className="px-2 py-1">{q.quarter}</td>
+                          <td className="px-2 py-1">{VAT_LABEL[r.code]}</td>
+                          <td className="px-2 py-1 text-right">{fmtMoney(r.turnover)}</td>
+                          <td className="px-2 py-1 text-right">{fmtMoney(r.vat)}</td>
+                        </tr>
+                      ))}
+                      <tr className="border-t font-medium">
+                        <td className="px-2 py-1">{q.quarter}</td>
+                        <td className="px-2 py-1">Totaal</td>
+                        <td className="px-2 py-1 text-right">{fmtMoney(q.turnover)}</td>
+                        <td className="px-2 py-1 text-right">{fmtMoney(q.vat)}</td>
+                      </tr>
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Payments */}
+        <Card className="mb-6">
+          <CardContent>
+            <div className="mb-3 flex items-center justify-between">
+              <h2 className="text-lg font-semibold">Betalingen & openstaande posten</h2>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-zinc-600">Excl. BTW</span>
+                <ButtonOutline onClick={() => setShowPaymentsModal(true)}>Betalingen</ButtonOutline>
+              </div>
             </div>
-            <MiniBarChartLabeled data={series} />
+            {!tracksPayments ? (
+              <p className="text-sm text-zinc-600">
+                Stel bij Bedrijven in vanaf welke maand betalingen worden bijgehouden; eerdere termijnen gelden als betaald.
+              </p>
+            ) : (
+              <div className="grid gap-6 md:grid-cols-2">
+                <div>
+                  <h3 className="mb-1 font-medium">Verwacht vs. ontvangen ({periodLabel})</h3>
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-zinc-600">
+                        <th className="px-2 py-1">Maand</th>
+                        <th className="px-2 py-1 text-right">Verwacht</th>
+                        <th className="px-2 py-1 text-right">Ontvangen</th>
+                        <th className="px-2 py-1 text-right">Open</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {receivedRows.length === 0 && (
+                        <tr><td colSpan={4} className="px-2 py-3 text-center text-zinc-500">Geen gevolgde termijnen in deze periode.</td></tr>
+                      )}
+                      {receivedRows.map((r) => (
+                        <tr key={r.month} className="border-t">
+                          <td className="px-2 py-1">{r.month}</td>
+                          <td className="px-2 py-1 text-right">{fmt(r.expected)}</td>
+                          <td className="px-2 py-1 text-right">{fmt(r.received)}</td>
+                          <td className={`px-2 py-1 text-right ${r.open > 0.005 ? "text-red-600" : ""}`}>{fmt(r.open)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div>
+                  <h3 className="mb-1 font-medium">Achterstallig</h3>
+                  <div className="mb-3 grid grid-cols-3 gap-2">
+                    {ageing.map((b) => (
+                      <div key={b.label} className="rounded-xl border border-zinc-200 p-2">
+                        <p className="text-xs text-zinc-600">{b.label}</p>
+                        <p className="font-semibold">{fmt(b.amount)}</p>
+                        <p className="text-xs text-zinc-500">{b.count} posten</p>
+                      </div>
+                    ))}
+                  </div>
+                  <table className="min-w-full text-sm">
+                    <tbody>
+                      {overdue.length === 0 && (
+                        <tr><td className="px-2 py-3 text-center text-zinc-500">Geen achterstallige betalingen.</td></tr>
+                      )}
+                      {overdue.slice(0, 10).map((c) => {
+                        const sub = state.subs.find((s: Subscription) => s.id === c.subscriptionId);
+                        return (
+                          <tr key={`${c.subscriptionId}|${c.month}`} className="border-t">
+                            <td className="px-2 py-1">{sub?.customer}</td>
+                            <td className="px-2 py-1 text-zinc-600">{sub?.planName} · {c.month}</td>
+                            <td className="px-2 py-1 text-right text-zinc-600">{c.daysOverdue} d</td>
+                            <td className="px-2 py-1 text-right">{fmtMoney(c.open, c.currency)}</td>
+                            <td className="px-2 py-1 text-right">
+                              <ButtonOutline onClick={() => receiveCharge(c)}>Ontvangen</ButtonOutline>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  {overdue.length > 10 && <p className="mt-1 text-xs text-zinc-500">En nog {overdue.length - 10} posten.</p>}
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -597,6 +3145,7 @@ export default function App() {
                     <th className="px-2 py-2">Plan</th>
                     <th className="px-2 py-2">Frequentie</th>
                     <th className="px-2 py-2">Prijs</th>
+                    <th className="px-2 py-2">BTW</th>
                     <th className="px-2 py-2">Datum / Start</th>
                     <th className="px-2 py-2">Eind</th>
                     <th className="px-2 py-2">Notities</th>
@@ -622,19 +3171,93 @@ export default function App() {
                           ))}
                         </Select>
                       </td>
-                      <td className="px-2 py-2"><Input value={s.customer} onChange={(e) => updateSub(s.id, { customer: e.target.value })} /></td>
-                      <td className="px-2 py-2"><Input value={s.planName} onChange={(e) => updateSub(s.id, { planName: e.target.value })} /></td>
                       <td className="px-2 py-2">
-                        {s.billingType === "recurring" ? (
-                          <Select value={s.cadence} onChange={(e) => updateSub(s.id, { cadence: e.target.value as Cadence })}>
-                            <option value="monthly">Maandelijks</option>
-                            <option value="yearly">Jaarlijks</option>
+                        <div className="flex items-center gap-1">
+                          <Select
+                            value={s.customerId ?? ""}
+                            onChange={(e) => {
+                              const customer = state.customers.find((c: Customer) => c.id === e.target.value);
+                              if (customer) updateSub(s.id, { customerId: customer.id, customer: customer.name });
+                            }}
+                          >
+                            {!s.customerId && <option value="">{s.customer}</option>}
+                            {customerOptions.map((c: Customer) => (
+                              <option key={c.id} value={c.id}>{c.name}</option>
+                            ))}
                           </Select>
+                          {s.customerId && <ButtonOutline onClick={() => setCustomerDetailId(s.customerId!)} title="Klantkaart">…</ButtonOutline>}
+                        </div>
+                      </td>
+                      <td className="px-2 py-2">
+                        <div className="flex flex-col gap-1">
+                          {state.products.length > 0 && (
+                            <Select
+                              value={s.productId || ""}
+                              onChange={(e) => {
+                                const product = state.products.find((p: Product) => p.id === e.target.value);
+                                updateSub(s.id, product ? { productId: product.id, planName: product.name } : { productId: null });
+                              }}
+                              title="Product"
+                            >
+                              <option value="">Geen product</option>
+                              {productsFor(s.companyId, s.productId).map((p: Product) => (
+                                <option key={p.id} value={p.id}>{p.name}</option>
+                              ))}
+                            </Select>
+                          )}
+                          {!s.productId && <Input value={s.planName} onChange={(e) => updateSub(s.id, { planName: e.target.value })} />}
+                        </div>
+                      </td>
+                      <td className="px-2 py-2">
+                        {s.billingType === "recurring" ? (
+                          <div className="flex flex-col gap-1">
+                            <div className="flex items-center gap-1">
+                              <Select
+                                value={s.cadence}
+                                onChange={(e) => {
+                                  const cadence = e.target.value as Cadence;
+                                  updateSub(s.id, { cadence, intervalMonths: cadence === "custom" ? s.intervalMonths ?? 2 : undefined });
+                                }}
+                              >
+                                {(Object.keys(CADENCE_LABEL) as Cadence[]).map((c) => (
+                                  <option key={c} value={c}>{CADENCE_LABEL[c]}</option>
+                                ))}
+                              </Select>
+                              {s.cadence === "custom" && (
+                                <Input type="number" min={1} value={String(s.intervalMonths ?? 2)} onChange={(e) => updateSub(s.id, { intervalMonths: Math.max(1, Math.round(Number(e.target.value) || 1)) })} className="w-16" title="Aantal maanden per termijn" />
+                              )}
+                            </div>
+                            {s.cadence !== "monthly" && (
+                              <Input type="date" value={s.anchorDate || ""} onChange={(e) => updateSub(s.id, { anchorDate: e.target.value || undefined })} title="Ankerdatum (leeg = startdatum)" />
+                            )}
+                          </div>
                         ) : (
                           <span className="text-xs text-zinc-500">—</span>
                         )}
                       </td>
-                      <td className="px-2 py-2 w-[120px]"><Input type="number" value={String(s.price)} onChange={(e) => updateSub(s.id, { price: Number(e.target.value || 0) })} /></td>
+                      <td className="px-2 py-2 w-[150px]">
+                        <div className="flex items-center gap-1">
+                          {s.billingType === "recurring" ? (
+                            <PriceHistoryPopover sub={s} onChange={(patch) => updateSub(s.id, patch)} />
+                          ) : (
+                            <Input type="number" value={String(s.price)} onChange={(e) => updateSub(s.id, { price: Number(e.target.value || 0) })} />
+                          )}
+                          <Select value={s.currency ?? BASE_CURRENCY} onChange={(e) => updateSub(s.id, { currency: e.target.value })} className="w-auto" title="Valuta">
+                            {currencies.map((c) => (
+                              <option key={c} value={c}>{c}</option>
+                            ))}
+                          </Select>
+                        </div>
+                        {s.billingType === "recurring" && <DiscountsPopover sub={s} onChange={(patch) => updateSub(s.id, patch)} />}
+                      </td>
+                      <td className="px-2 py-2">
+                        <Select value={s.vatCode ?? ""} onChange={(e) => updateSub(s.id, { vatCode: (e.target.value || undefined) as VatCode | undefined })}>
+                          <option value="">Bedrijf ({VAT_LABEL[vatCodeOf({ ...s, vatCode: undefined }, state.companies)]})</option>
+                          {VAT_CODES.map((c) => (
+                            <option key={c} value={c}>{VAT_LABEL[c]}</option>
+                          ))}
+                        </Select>
+                      </td>
                       <td className="px-2 py-2"><Input type="date" value={s.startDate} onChange={(e) => updateSub(s.id, { startDate: e.target.value })} /></td>
                       <td className="px-2 py-2">
                         {s.billingType === "recurring" ? (
@@ -646,14 +3269,79 @@ export default function App() {
                       <td className="px-2 py-2"><Input value={s.notes || ""} onChange={(e) => updateSub(s.id, { notes: e.target.value })} /></td>
                       <td className="px-2 py-2">
                         {s.billingType === "variable" ? (
-                          <ButtonOutline onClick={() => { setVariableEditId(s.id); setVariableYear(year); setShowVariableModal(true); }}>Bewerk maanden…</ButtonOutline>
+                          <div className="flex flex-col gap-1">
+                            <ButtonOutline onClick={() => { setVariableEditId(s.id); setVariableYear(year); setShowVariableModal(true); }}>Bewerk maanden…</ButtonOutline>
+                            <Select
+                              value={s.variableMrr ? encodeVariableMrr(s.variableMrr) : ""}
+                              onChange={(e) => updateSub(s.id, { variableMrr: e.target.value ? decodeVariableMrr(e.target.value) : undefined })}
+                              title="Variabele inkomsten in MRR"
+                            >
+                              <option value="">MRR: algemene instelling</option>
+                              {VARIABLE_MRR_OPTIONS.map((o) => (
+                                <option key={o.value} value={o.value}>{o.label}</option>
+                              ))}
+                            </Select>
+                          </div>
                         ) : (
                           <span className="text-xs text-zinc-500">—</span>
                         )}
                       </td>
-                      <td className="px-2 py-2"><ButtonOutline onClick={() => removeSub(s.id)}>X</ButtonOutline></td>
+                      <td className="px-2 py-2">
+                        <div className="flex gap-1">
+                          <ButtonOutline onClick={() => setHistoryFor({ title: `Historie – ${s.customer} – ${s.planName}`, entity: "subscription", id: s.id })} title="Historie">H</ButtonOutline>
+                          <ButtonOutline onClick={() => removeSub(s.id)} title="Verwijderen (Ctrl+Z maakt ongedaan)">X</ButtonOutline>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Expenses */}
+        <Card className="mt-6">
+          <CardContent>
+            <div className="mb-3 flex items-center justify-between">
+              <h2 className="text-lg font-semibold">Uitgaven</h2>
+              <p className="text-sm text-zinc-600">Uitgaven tellen mee in de winstweergave (in de maand van de datum).</p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-zinc-600">
+                    <th className="px-2 py-2">Bedrijf</th>
+                    <th className="px-2 py-2">Omschrijving</th>
+                    <th className="px-2 py-2">Categorie</th>
+                    <th className="px-2 py-2">Datum</th>
+                    <th className="px-2 py-2">Bedrag</th>
+                    <th className="px-2 py-2">Acties</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {expensesFiltered.map((e: Expense) => (
+                    <tr key={e.id} className="border-t">
+                      <td className="px-2 py-2">
+                        <Select value={e.companyId || ""} onChange={(ev) => updateExpense(e.id, { companyId: ev.target.value || null })}>
+                          <option value="">-</option>
+                          {state.companies.map((c: Company) => (
+                            <option key={c.id} value={c.id}>{c.name}</option>
+                          ))}
+                        </Select>
+                      </td>
+                      <td className="px-2 py-2"><Input value={e.description} onChange={(ev) => updateExpense(e.id, { description: ev.target.value })} /></td>
+                      <td className="px-2 py-2"><Input value={e.category} onChange={(ev) => updateExpense(e.id, { category: ev.target.value })} /></td>
+                      <td className="px-2 py-2"><Input type="date" value={e.date} onChange={(ev) => updateExpense(e.id, { date: ev.target.value })} /></td>
+                      <td className="px-2 py-2 w-[120px]"><Input type="number" value={String(e.amount)} onChange={(ev) => updateExpense(e.id, { amount: Number(ev.target.value || 0) })} /></td>
+                      <td className="px-2 py-2"><ButtonOutline onClick={() => removeExpense(e.id)}>X</ButtonOutline></td>
                     </tr>
                   ))}
+                  {expensesFiltered.length === 0 && (
+                    <tr className="border-t">
+                      <td colSpan={6} className="px-2 py-4 text-center text-xs text-zinc-500">Nog geen uitgaven.</td>
+                    </tr>
+                  )}
                 </tbody>
               </table>
             </div>
@@ -662,7 +3350,7 @@ export default function App() {
 
         <div className="mt-6 text-xs text-zinc-600">
           <p>
-            Tip: Eenmalig telt alleen mee in Cash (in de betaalmaand). Variabel kun je per maand invullen (Cash). Wil je variabel óók middelen naar MRR? Laat het weten — dan voeg ik een toggle toe.
+            Tip: Eenmalig telt alleen mee in Cash (in de betaalmaand). Variabel kun je per maand invullen (Cash) en telt in MRR alleen mee als je het laat middelen: kies in de MRR-weergave een gemiddelde, mediaan of laatste waarde, of stel het per item in.
           </p>
         </div>
       </div>
@@ -687,28 +3375,78 @@ export default function App() {
               ))}
             </Select>
           </div>
+          <div className="md:col-span-2">
+            <label className="text-xs text-zinc-600">Product (optioneel)</label>
+            <Select value={form.productId} onChange={(e) => chooseProduct(e.target.value)}>
+              <option value="">Geen – vrije invoer</option>
+              {productsFor(form.companyId || null, form.productId).map((p: Product) => (
+                <option key={p.id} value={p.id}>{p.name} · {fmtMoney(p.price, p.currency)}</option>
+              ))}
+            </Select>
+          </div>
           <div>
             <label className="text-xs text-zinc-600">Klantnaam</label>
-            <Input value={form.customer} onChange={(e) => setForm((f) => ({ ...f, customer: e.target.value }))} placeholder="Cafe de Markt" />
+            <Input list="customer-names" value={form.customer} onChange={(e) => setForm((f) => ({ ...f, customer: e.target.value }))} placeholder="Cafe de Markt" />
+            <datalist id="customer-names">
+              {customerOptions.map((c: Customer) => (
+                <option key={c.id} value={c.name} />
+              ))}
+            </datalist>
+            {form.customer.trim() && !state.customers.some((c: Customer) => customerKey(c.name) === customerKey(form.customer)) && (
+              <p className="mt-1 text-[10px] text-zinc-500">Nieuwe klant wordt aangemaakt.</p>
+            )}
           </div>
           <div>
             <label className="text-xs text-zinc-600">Plan / omschrijving</label>
-            <Input value={form.planName} onChange={(e) => setForm((f) => ({ ...f, planName: e.target.value }))} placeholder="QR Basic / Setup kosten / Ad revenue" />
+            <Input value={form.planName} disabled={!!form.productId} onChange={(e) => setForm((f) => ({ ...f, planName: e.target.value }))} placeholder="QR Basic / Setup kosten / Ad revenue" />
           </div>
           <div>
-            <label className="text-xs text-zinc-600">Prijs (EUR)</label>
-            <Input type="number" min={0} value={form.price} onChange={(e) => setForm((f) => ({ ...f, price: e.target.value }))} />
+            <label className="text-xs text-zinc-600">Prijs</label>
+            <div className="flex items-center gap-2">
+              <Input type="number" min={0} value={form.price} onChange={(e) => setForm((f) => ({ ...f, price: e.target.value }))} />
+              <Select value={form.currency} onChange={(e) => setForm((f) => ({ ...f, currency: e.target.value }))} className="w-auto">
+                {currencies.map((c) => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </Select>
+            </div>
             <p className="mt-1 text-[10px] text-zinc-500">Bij variabel vul je bedragen per maand in na opslaan.</p>
           </div>
+          <div>
+            <label className="text-xs text-zinc-600">BTW-tarief</label>
+            <Select value={form.vatCode} onChange={(e) => setForm((f) => ({ ...f, vatCode: e.target.value as VatCode | "" }))}>
+              <option value="">Zoals bedrijf</option>
+              {VAT_CODES.map((c) => (
+                <option key={c} value={c}>{VAT_LABEL[c]}</option>
+              ))}
+            </Select>
+            <p className="mt-1 text-[10px] text-zinc-500">Prijzen zijn altijd exclusief BTW.</p>
+          </div>
           {form.billingType === "recurring" && (
             <div>
               <label className="text-xs text-zinc-600">Betalingsfrequentie</label>
               <Select value={form.cadence} onChange={(e) => setForm((f) => ({ ...f, cadence: e.target.value as Cadence }))}>
-                <option value="monthly">Maandelijks</option>
-                <option value="yearly">Jaarlijks</option>
+                {(Object.keys(CADENCE_LABEL) as Cadence[]).map((c) => (
+                  <option key={c} value={c}>{CADENCE_LABEL[c]}</option>
+                ))}
               </Select>
             </div>
           )}
+          {form.billingType === "recurring" && form.cadence === "custom" && (
+            <div>
+              <label className="text-xs text-zinc-600">Elke … maanden</label>
+              <Input type="number" min={1} value={form.intervalMonths} onChange={(e) => setForm((f) => ({ ...f, intervalMonths: e.target.value }))} />
+            </div>
+          )}
+          {form.billingType === "recurring" && form.cadence !== "monthly" && (
+            <div>
+              <label className="text-xs text-zinc-600">Ankerdatum (optioneel)</label>
+              <Input type="date" value={form.anchorDate} onChange={(e) => setForm((f) => ({ ...f, anchorDate: e.target.value }))} />
+              <p className="mt-1 text-[10px] text-zinc-500">
+                {form.cadence === "weekly" ? "Betaaldag van de week; leeg = startdatum." : "Eerste factuurmaand; leeg = startmaand."}
+              </p>
+            </div>
+          )}
           <div>
             <label className="text-xs text-zinc-600">{form.billingType === "onetime" ? "Betaaldatum" : "Startdatum"}</label>
             <div className="flex items-center gap-2">
@@ -733,19 +3471,197 @@ export default function App() {
         </div>
       </Modal>
 
-      {/* Add Company Modal */}
-      <Modal open={showCompanyModal} onClose={() => setShowCompanyModal(false)} title="Bedrijf toevoegen">
-        <div className="grid gap-3">
+      {/* Add Expense Modal */}
+      <Modal open={showExpenseModal} onClose={() => setShowExpenseModal(false)} title="Nieuwe uitgave toevoegen">
+        <div className="grid gap-3 md:grid-cols-2">
           <div>
-            <label className="text-xs text-zinc-600">Naam</label>
-            <Input placeholder="TableTech" value={newCompany} onChange={(e) => setNewCompany(e.target.value)} />
+            <label className="text-xs text-zinc-600">Bedrijf</label>
+            <Select value={expenseForm.companyId} onChange={(e) => setExpenseForm((f) => ({ ...f, companyId: e.target.value }))}>
+              <option value="">-</option>
+              {state.companies.map((c: Company) => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </Select>
+          </div>
+          <div>
+            <label className="text-xs text-zinc-600">Omschrijving</label>
+            <Input value={expenseForm.description} onChange={(e) => setExpenseForm((f) => ({ ...f, description: e.target.value }))} placeholder="Hosting / Marketing / Freelancer" />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-600">Categorie</label>
+            <Input value={expenseForm.category} onChange={(e) => setExpenseForm((f) => ({ ...f, category: e.target.value }))} placeholder="Software" />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-600">Bedrag ({BASE_CURRENCY})</label>
+            <Input type="number" min={0} value={expenseForm.amount} onChange={(e) => setExpenseForm((f) => ({ ...f, amount: e.target.value }))} />
+          </div>
+          <div>
+            <label className="text-xs text-zinc-600">Datum</label>
+            <div className="flex items-center gap-2">
+              <IconCalendar />
+              <Input type="date" value={expenseForm.date} onChange={(e) => setExpenseForm((f) => ({ ...f, date: e.target.value }))} />
+            </div>
+          </div>
+        </div>
+        <div className="mt-4 flex justify-end gap-2">
+          <ButtonOutline onClick={() => setShowExpenseModal(false)}>Sluiten</ButtonOutline>
+          <Button
+            disabled={!canSaveExpense}
+            onClick={() => {
+              addExpense();
+              setExpenseForm((f) => ({ ...f, description: "", category: "", amount: "" }));
+              setShowExpenseModal(false);
+            }}
+          >
+            Opslaan
+          </Button>
+        </div>
+      </Modal>
+
+      {/* CSV Import Modal */}
+      <CsvImportModal open={showImportModal} onClose={() => setShowImportModal(false)} companies={state.companies} onImport={db.importBatch} />
+
+      {/* Restore Backup Modal */}
+      <RestoreBackupModal
+        open={showRestoreModal || restoreSource !== null}
+        source={restoreSource}
+        onClose={() => {
+          setShowRestoreModal(false);
+          setRestoreSource(null);
+        }}
+        onRestore={restoreBackup}
+      />
+      <ExchangeRatesModal
+        open={showRatesModal}
+        onClose={() => setShowRatesModal(false)}
+        rates={state.rates}
+        onSave={db.saveRates}
+        onDelete={db.deleteRate}
+      />
+
+      <CustomersModal
+        open={showCustomersModal}
+        onClose={() => setShowCustomersModal(false)}
+        customers={state.customers}
+        companies={state.companies}
+        subs={state.subs}
+        fx={fx}
+        onOpen={setCustomerDetailId}
+        onAdd={db.addCustomer}
+        onMerge={db.mergeCustomers}
+      />
+      <CustomerDetailModal
+        customer={state.customers.find((c: Customer) => c.id === customerDetailId) ?? null}
+        onClose={() => setCustomerDetailId(null)}
+        companies={state.companies}
+        subs={state.subs}
+        fx={fx}
+        onUpdate={db.updateCustomer}
+        onDelete={db.deleteCustomer}
+      />
+      <InvoicesModal
+        open={showInvoicesModal}
+        onClose={() => setShowInvoicesModal(false)}
+        invoices={state.invoices}
+        companies={state.companies}
+        customers={state.customers}
+        subs={subsBilled}
+        onSave={db.saveInvoices}
+        onUpdate={db.updateInvoice}
+        onDelete={db.deleteInvoice}
+      />
+      <PaymentsModal
+        open={showPaymentsModal}
+        onClose={() => setShowPaymentsModal(false)}
+        payments={state.payments}
+        subs={subsBilled}
+        companies={state.companies}
+        onAdd={db.addPayment}
+        onDelete={db.deletePayment}
+      />
+      <ProductsModal
+        open={showProductsModal}
+        onClose={() => setShowProductsModal(false)}
+        products={state.products}
+        companies={state.companies}
+        currencies={currencies}
+        itemCount={(productId) => state.subs.filter((s: Subscription) => s.productId === productId).length}
+        onAdd={db.addProduct}
+        onUpdate={db.updateProduct}
+        onDelete={db.deleteProduct}
+      />
+
+      {/* Companies Modal */}
+      <Modal open={showCompanyModal} onClose={() => setShowCompanyModal(false)} title="Bedrijven">
+        <div className="grid gap-4">
+          {state.companies.length > 0 && (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-zinc-600">
+                  <th className="px-2 py-2">Naam</th>
+                  <th className="px-2 py-2">Standaard BTW-tarief</th>
+                  <th className="px-2 py-2">Betalingen bijhouden vanaf</th>
+                  <th className="px-2 py-2">Pro rata</th>
+                  <th className="px-2 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {state.companies.map((c: Company) => (
+                  <tr key={c.id} className="border-t">
+                    <td className="px-2 py-2"><Input value={c.name} onChange={(e) => updateCompany(c.id, { name: e.target.value })} /></td>
+                    <td className="px-2 py-2">
+                      <Select value={c.vatCode ?? "standard"} onChange={(e) => updateCompany(c.id, { vatCode: e.target.value as VatCode })}>
+                        {VAT_CODES.map((code) => (
+                          <option key={code} value={code}>{VAT_LABEL[code]}</option>
+                        ))}
+                      </Select>
+                    </td>
+                    <td className="px-2 py-2">
+                      <Input type="month" value={c.paymentsFrom ?? ""} onChange={(e) => updateCompany(c.id, { paymentsFrom: e.target.value || undefined })} />
+                    </td>
+                    <td className="px-2 py-2">
+                      <Select value={c.proration ?? "none"} onChange={(e) => updateCompany(c.id, { proration: e.target.value as ProrationPolicy })} title="Gedeeltelijke eerste en laatste periodes">
+                        {(Object.keys(PRORATION_LABEL) as ProrationPolicy[]).map((p) => (
+                          <option key={p} value={p}>{PRORATION_LABEL[p]}</option>
+                        ))}
+                      </Select>
+                    </td>
+                    <td className="px-2 py-2">
+                      <ButtonOutline onClick={() => setHistoryFor({ title: `Historie – ${c.name}`, entity: "company", id: c.id })}>Historie</ButtonOutline>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <div className="grid gap-3 border-t pt-3 md:grid-cols-2">
+            <div>
+              <label className="text-xs text-zinc-600">Nieuw bedrijf</label>
+              <Input placeholder="TableTech" value={newCompany} onChange={(e) => setNewCompany(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-xs text-zinc-600">Standaard BTW-tarief</label>
+              <Select value={newCompanyVat} onChange={(e) => setNewCompanyVat(e.target.value as VatCode)}>
+                {VAT_CODES.map((code) => (
+                  <option key={code} value={code}>{VAT_LABEL[code]}</option>
+                ))}
+              </Select>
+            </div>
           </div>
           <div className="flex items-center gap-2">
-            <Button onClick={() => { if (newCompany.trim()) addCompany(newCompany.trim()); setNewCompany(""); setShowCompanyModal(false); }}>Opslaan</Button>
-            <ButtonOutline onClick={() => setShowCompanyModal(false)}>Annuleren</ButtonOutline>
+            <Button disabled={!newCompany.trim()} onClick={() => { addCompany(newCompany.trim(), newCompanyVat); setNewCompany(""); setNewCompanyVat("standard"); }}>Toevoegen</Button>
+            <ButtonOutline onClick={() => setShowCompanyModal(false)}>Sluiten</ButtonOutline>
           </div>
         </div>
       </Modal>
+      <HistoryModal
+        open={!!historyFor}
+        onClose={() => setHistoryFor(null)}
+        title={historyFor?.title ?? "Historie"}
+        entries={historyEntries}
+        companies={state.companies}
+        showLabel={!historyFor?.id}
+      />
 
       {/* Variable Months Modal */}
       <Modal open={showVariableModal} onClose={() => setShowVariableModal(false)} title={`Variabele bedragen bewerken (${variableYear})`}>
@@ -791,8 +3707,8 @@ export default function App() {
     const y = new Date().getFullYear();
     const months = Array.from({ length: 12 }, (_, i) => `${y}-${String(i + 1).padStart(2, "0")}`);
 
-    // --- Test: fmtEUR exists and returns a string
-    console.assert(typeof fmtEUR === "function" && typeof fmtEUR(1) === "string", "fmtEUR should be defined and return a string");
+    // --- Test: fmtMoney exists and returns a string
+    console.assert(typeof fmtMoney === "function" && typeof fmtMoney(1) === "string", "fmtMoney should be defined and return a string");
 
     // monthly sub active all year
     const m: Subscription = {
@@ -810,6 +3726,20 @@ export default function App() {
     const other = s2.filter((d) => !d.month.endsWith("-03")).reduce((a, b) => a + b.amount, 0);
     console.assert(march === 1200 && other === 0, "Yearly cash should hit in March only");
 
+    // Every N months in step with the anchor month; weekly bills 4 or 5 times a month
+    const qsub: Subscription = { ...ysub, id: "t2q", price: 300, cadence: "quarterly", startDate: `${y}-02-10`, anchorDate: `${y}-03-01` };
+    const sq = calcSeries([qsub], "cash", months);
+    console.assert(sq.filter((d) => d.amount === 300).map((d) => d.month.slice(5)).join() === "03,06,09,12", "Quarterly cash should follow the anchor month");
+    console.assert(calcSeries([qsub], "mrr", months)[5].amount === 100, "Quarterly MRR is a third of the price");
+    const qJan: Subscription = { ...qsub, id: "t2j", startDate: `${y}-01-01`, anchorDate: undefined };
+    console.assert(monthKey(`${y}-01-01`) === `${y}-01` && billMonthsCash(qJan, `${y - 1}-12`, `${y}-04`).has(`${y}-01`), "Date strings keep their calendar month in every time zone");
+    const every2: Subscription = { ...ysub, id: "t2c", price: 50, cadence: "custom", intervalMonths: 2, startDate: `${y}-01-05` };
+    console.assert(calcSeries([every2], "cash", months).reduce((a, b) => a + b.amount, 0) === 300, "Every 2 months bills 6 times a year");
+    const wsub: Subscription = { ...ysub, id: "t2w", price: 10, cadence: "weekly", startDate: "2024-01-01" };
+    const sw = calcSeries([wsub], "cash", ["2024-01", "2024-02"]);
+    console.assert(sw[0].amount === 50 && sw[1].amount === 40, "Weekly cash counts the charge dates per month");
+    console.assert(calcSeries([wsub], "mrr", ["2024-02"])[0].amount === 43, "Weekly MRR is 52 charges spread over 12 months");
+
     // MRR split produces integers (current behavior)
     const s3 = calcSeries([ysub], "mrr", months);
     console.assert(s3.every((d) => Number.isInteger(d.amount)), "MRR amounts are rounded to integers");
@@ -844,8 +3774,370 @@ export default function App() {
     const s8 = calcSeries([v], "mrr", months);
     console.assert(s8.reduce((a, b) => a + b.amount, 0) === 0, "Variable default has no MRR");
 
-    // fmtEUR formatting check on a few values (non-throwing)
-    console.assert(fmtEUR(0).includes("€"), "fmtEUR should include euro sign");
+    // fmtMoney formatting check on a few values (non-throwing)
+    console.assert(fmtMoney(0).includes("€") && fmtMoney(0, "USD").includes("US$"), "fmtMoney should include the currency sign");
+
+    // Profit: revenue minus expenses, negative when costs exceed cash
+    const exp: Expense = { id: "x1", companyId: null, amount: 150, description: "Hosting", category: "", date: `${y}-01-20` };
+    const p1 = calcProfitSeries([m], [exp], months);
+    console.assert(p1[0].amount === -50 && p1[1].amount === 100, "Profit should be cash minus expenses per month");
+    const cp = profitByCompany([], [m], [exp], months);
+    console.assert(cp.length === 1 && cp[0].profit === 1050 && Math.abs((cp[0].margin ?? 0) - 1050 / 1200) < 1e-9, "Profit/margin per company should cover the whole range");
+
+    // Stacked per-company series: one segment per company with revenue, totals add up
+    const mA: Subscription = { ...m, id: "t7", companyId: "A" };
+    const st = stackByCompany([{ id: "A", name: "A" }, { id: "B", name: "B" }], months, (cid) => calcSeries([mA, one].filter((x) => x.companyId === cid), "cash", months));
+    console.assert(st.legend.length === 2 && st.legend.every((l) => l.key !== "B"), "Stack should skip companies without amounts");
+    console.assert(st.data.find((d) => d.month.endsWith("-05"))?.amount === 350, "Stacked total should equal the sum of segments");
+
+    // Ranges: last 12 months ends in the current month; YoY shift crosses the year boundary
+    const today = new Date(y, 4, 15);
+    const r12 = resolveRange({ preset: "last12", year: y, fromYear: y, toYear: y, from: "", to: "" }, today);
+    console.assert(r12.from === `${y - 1}-06` && r12.to === `${y}-05`, "Last 12 months should end in the current month");
+    console.assert(monthsBetweenInclusive(r12.from, r12.to).length === 12, "Last 12 months should contain 12 months");
+    console.assert(shiftMonth(`${y}-01`, -12) === `${y - 1}-01` && shiftMonth(`${y}-01`, -1) === `${y - 1}-12`, "shiftMonth should cross years");
+    console.assert(growthOf(120, 100) === 0.2 && growthOf(5, 0) === null, "Growth is relative to the previous value");
+
+    // CSV import: ; delimiter, quoted cells, Dutch dates/amounts; invalid rows keep their errors
+    const csv = 'Klant;Plan;Prijs;Type;Frequentie;Start;Bedrijf\n"Cafe ""Zon""";Basic;1.234,50;abonnement;jaarlijks;15-03-2025;NewCo\nX;Y;abc;eenmalig;;2025-02-30;\n';
+    const rowsCsv = parseCsv(csv);
+    const prev = buildPreview(rowsCsv, guessMapping(rowsCsv[0]));
+    console.assert(prev[0].sub?.customer === 'Cafe "Zon"' && prev[0].sub?.price === 1234.5 && prev[0].sub?.cadence === "yearly" && prev[0].sub?.startDate === "2025-03-15", "CSV row should map to a Subscription");
+    console.assert(prev[1].sub === null && prev[1].errors.length === 2, "Invalid price and date should both be reported");
+    console.assert(missingCompanies(prev, [{ id: "c", name: "newco" }]).length === 0, "Company names match case-insensitively");
+
+    // Export: series rows per company + total, CSV quoting of ; and quotes
+    const exRows = buildSeriesCsvRows([mA, m], [{ id: "A", name: "A" }], months);
+    console.assert(exRows.length === 1 + 12 * 3 && exRows[1][1] === "A" && exRows[exRows.length - 1][2] === 200, "Series export should list each company and the total");
+    console.assert(toCsv([['a;b', 'c"d', 1]]) === '"a;b";"c""d";1\r\n', "CSV cells with delimiter or quotes are quoted");
+
+    // Versioned state: legacy v1 (no envelope, no expenses) is upgraded; newer versions are refused
+    const legacy = migrateState({ companies: [{ id: "c1", name: "A" }], subs: [m] });
+    console.assert(legacy.ok && legacy.fromVersion === 1 && legacy.data.expenses.length === 0, "Legacy v1 state should upgrade to the current version");
+    const roundTrip = migrateState(JSON.parse(JSON.stringify(toEnvelope({ companies: [], customers: [], products: [], subs: [m, v], payments: [], expenses: [exp], rates: [], invoices: [], audit: [] }))));
+    console.assert(roundTrip.ok && roundTrip.data.subs.length === 2, "Backup envelope should round-trip");
+    const future = migrateState({ app: "revenue-tracker", version: STATE_VERSION + 1, data: {} });
+    console.assert(!future.ok, "Backups from a newer version should be rejected");
+    const broken = migrateState({ companies: [], subs: [{ ...m, startDate: "31-12-2025", billingType: "x" }] });
+    console.assert(!broken.ok && broken.problems.length === 2, "Invalid items should be reported per problem");
+    const impossible = migrateState({ companies: [], subs: [{ ...m, startDate: "2024-02-30" }, { ...m, startDate: "2024-02-29" }] });
+    console.assert(!impossible.ok && impossible.problems.length === 1, "Dates must exist in the calendar");
+
+    // MRR movements: new -> expansion (second item, same customer) -> churn
+    const acc1: Subscription = { ...m, id: "m1", customer: "Acme", price: 100, startDate: `${y}-02-01`, cancelDate: `${y}-05-15` };
+    const acc2: Subscription = { ...m, id: "m2", customer: "acme ", price: 50, startDate: `${y}-03-01`, cancelDate: `${y}-05-15` };
+    const mv = calcMetrics([acc1, acc2], months);
+    console.assert(mv[1].newMRR === 100 && mv[1].newAccounts === 1, "First month of a customer is new MRR");
+    console.assert(mv[2].expansion === 50 && mv[2].newMRR === 0, "Extra item for the same customer is expansion");
+    console.assert(mv[5].churned === 150 && mv[5].churnedAccounts === 1 && mv[5].logoChurn === 1 && mv[5].nrr === 0, "Cancelled customer churns all MRR");
+    const tot = summarizeMovements(mv);
+    console.assert(tot !== null && tot.newMRR === 100 && tot.endMRR === 0, "Range summary adds up the movements");
+
+    // Price history: each month uses the price valid then; a downgrade is contraction, not churn
+    const priced: Subscription = { ...m, id: "t8", priceChanges: [{ effectiveDate: `${y}-07-01`, price: 80 }, { effectiveDate: `${y}-04-15`, price: 120 }] };
+    const sp = calcSeries([priced], "cash", months);
+    console.assert(sp[2].amount === 100 && sp[3].amount === 120 && sp[6].amount === 80, "Cash should use the price valid in each month");
+    console.assert(priceInMonth(priced, `${y}-06`) === 120 && priceInMonth(priced, `${y}-07`) === 80, "A change on the 1st applies from its own month in every time zone");
+    const mvp = calcMetrics([priced], months);
+    console.assert(mvp[3].expansion === 20 && mvp[6].contraction === 40 && mvp[6].churned === 0, "Price changes are expansion and contraction");
+
+    // Currencies: USD items converted with the rate of each month (latest earlier month as fallback)
+    const usd: Subscription = { ...m, id: "t9", currency: "USD" };
+    const fxEur: Fx = { to: "EUR", rates: [{ month: `${y}-01`, currency: "USD", rate: 0.9 }, { month: `${y}-06`, currency: "USD", rate: 0.8 }] };
+    const su = calcSeries([usd], "cash", months, fxEur);
+    console.assert(su[0].amount === 90 && su[4].amount === 90 && su[5].amount === 80, "USD cash converts at the month's rate");
+    const fxUsd: Fx = { ...fxEur, to: "USD" };
+    console.assert(calcSeries([m], "mrr", months, fxUsd)[5].amount === 125 && calcSeries([usd], "cash", months, fxUsd)[0].amount === 100, "EUR converts to a USD reporting currency");
+    console.assert(missingRates(["GBP", undefined], fxEur).join() === "GBP", "Currencies without any rate are reported");
+    const rateFile = parseRateRows(parseCsv("maand;valuta;koers\n2025-01;usd;0,92\n2025-13;GBP;1.17\n"));
+    console.assert(rateFile.rates.length === 1 && rateFile.rates[0].currency === "USD" && rateFile.rates[0].rate === 0.92 && rateFile.errors.length === 1, "Rate files are parsed per row");
+
+    // VAT: item tariff overrides the company default; gross view and quarterly report on cash months
+    const co: Company = { id: "c1", name: "Co", vatCode: "reduced" };
+    const mCo: Subscription = { ...m, companyId: co.id };
+    const qStd: Subscription = { ...qsub, companyId: co.id, vatCode: "standard" };
+    const vRev: Subscription = { ...v, vatCode: "reverse" };
+    console.assert(calcSeries(toGross([mCo, vRev], [co]), "cash", months)[0].amount === 209, "Gross adds 9% to the company item and nothing to reverse charge");
+    const vq = calcVatReport([mCo, qStd, vRev], [co], y);
+    console.assert(vq.length === 4 && vq[0].turnover === 1000 && vq[0].vat === 90 && vq[0].rows.length === 3, "Q1 lists turnover and VAT per tariff");
+    console.assert(vq[1].rows.find((r) => r.code === "standard")?.vat === 63 && vq[1].vat === 90, "Quarterly items fall in their billing quarter");
+
+    // Forecast: yearly items on their anniversary, cancellations respected, variable by average/trend
+    const fc = calcForecast([ysub, csub], "cash", `${y}-03`, { ...DEFAULT_FORECAST, horizon: 12 });
+    console.assert(fc.length === 12 && fc[0].month === `${y}-04` && fc[11].month === `${y + 1}-03`, "Forecast starts the month after the current month");
+    console.assert(fc[11].amount === 1200 && fc[2].amount === 120 && fc[3].amount === 0, "Forecast follows anniversaries and cancel dates");
+    const fcAvg = calcForecast([v], "cash", `${y}-03`, { ...DEFAULT_FORECAST, horizon: 3, lookback: 3 });
+    const fcTrend = calcForecast([v], "cash", `${y}-03`, { ...DEFAULT_FORECAST, horizon: 3, lookback: 3, variableMethod: "trend" });
+    console.assert(fcAvg[0].amount === 133 && fcTrend[0].amount === 333, "Variable items project from the trailing average or trend");
+    const fcChurn = calcForecast([m], "mrr", `${y}-03`, { ...DEFAULT_FORECAST, horizon: 2, churnRate: 0.1 });
+    console.assert(fcChurn[0].amount === 90 && fcChurn[1].amount === 81, "Churn compounds per forecast month");
+
+    // Product catalog: revenue per product; renaming renames the linked items, deleting unlinks them
+    const prod: Product = { id: "p1", companyId: null, name: "QR Basic", price: 100, billingType: "recurring", cadence: "monthly" };
+    const linked: Subscription = { ...m, productId: prod.id };
+    const byProd = revenueByProduct([prod], [linked, one], months, `${y}-06`);
+    console.assert(byProd.length === 2 && byProd[0].revenue === 1200 && byProd[0].mrr === 100 && byProd[1].productId === null && byProd[1].revenue === 250, "Revenue is grouped per product");
+    const stacked = stackByProduct([prod], months, (productId) => calcSeries(productId ? [linked] : [one], "cash", months));
+    console.assert(stacked.legend.length === 2 && stacked.data[4].amount === 350, "Chart stacks one segment per product");
+    const v6 = migrateState({ app: "revenue-tracker", version: 6, data: { companies: [], subs: [linked], expenses: [], rates: [] } });
+    console.assert(!v6.ok, "Items linked to an unknown product are rejected");
+    const catalog = createMemoryStore({ companies: [], customers: [], products: [prod], subs: [linked], payments: [], expenses: [], rates: [], invoices: [], audit: [] });
+    catalog.updateProduct(prod.id, { name: "QR Pro" })
+      .then(() => catalog.load())
+      .then((st) => {
+        console.assert(st.subs[0].planName === "QR Pro", "Renaming a product renames its items");
+        return catalog.deleteProduct(prod.id).then(() => catalog.load());
+      })
+      .then((st) => console.assert(st.subs[0].productId === null && st.subs[0].planName === "QR Pro", "Deleting a product unlinks its items"))
+      .catch(() => {});
+
+    // Customers: linked by name, duplicate suggestions, lifetime value, ranking and merging
+    const dupes = findDuplicates([
+      { id: "k1", name: "Cafe de Markt", companyIds: [] },
+      { id: "k2", name: "Café de Markt B.V.", companyIds: [] },
+      { id: "k3", name: "Bistro Noord", companyIds: [] },
+      { id: "k4", name: "Bistro Nord", companyIds: [] },
+      { id: "k5", name: "Bakker", companyIds: [] },
+    ]);
+    console.assert(dupes.length === 2 && dupes[0].length === 2 && dupes[1].length === 2, "Similar customer names are suggested as duplicates");
+    const linkedAcme = linkCustomers([], [acc1, acc2], () => "k1");
+    console.assert(linkedAcme.customers.length === 1 && linkedAcme.subs.every((s) => s.customerId === "k1" && s.customer === "Acme"), "Items with the same name share one customer");
+    const life = customerSummary([m], new Date(y, 5, 15));
+    console.assert(life.firstMonth === `${y}-01` && life.ltv === 600 && life.timeline.length === 6, "Lifetime value sums cash up to the current month");
+    const ranking = rankCustomers([{ id: "k1", name: "A", companyIds: [] }], [{ ...m, customerId: "k1" }, one], months);
+    console.assert(ranking[0].name === "A" && ranking[0].revenue === 1200 && ranking[1].name === "Zonder klant", "Customers are ranked by cash revenue");
+    console.assert(Math.abs((concentrationOf(ranking).top1 ?? 0) - 1200 / 1450) < 1e-9, "Top-1 share is the largest customer's part of revenue");
+    const v7 = migrateState({ app: "revenue-tracker", version: 7, data: { companies: [], products: [], subs: [acc1, acc2], expenses: [], rates: [] } });
+    console.assert(v7.ok && v7.data.customers.length === 1 && v7.data.subs[1].customerId === v7.data.customers[0].id, "Upgrade creates one customer per name");
+    const crm = createMemoryStore({
+      companies: [],
+      customers: [{ id: "k1", name: "Acme", companyIds: [] }, { id: "k2", name: "ACME bv", email: "info@acme.nl", companyIds: ["c1"] }],
+      products: [],
+      subs: [{ ...acc1, customerId: "k1" }, { ...acc2, customerId: "k2", customer: "ACME bv" }],
+      payments: [],
+      expenses: [],
+      rates: [],
+      invoices: [],
+      audit: [],
+    });
+    crm.mergeCustomers("k1", ["k2"])
+      .then(() => crm.load())
+      .then((st) => {
+        console.assert(st.customers.length === 1 && st.customers[0].email === "info@acme.nl" && st.customers[0].companyIds.join() === "c1", "Merge keeps contact details and company links");
+        console.assert(st.subs.every((s) => s.customerId === "k1" && s.customer === "Acme"), "Merged items move to the kept customer");
+      })
+      .catch(() => {});
+
+    // Invoices: one per customer, company and billing month, numbered per company; regenerating keeps the numbers
+    const billed: Subscription[] = [
+      { ...acc1, customerId: "k1", companyId: "c1", cancelDate: null },
+      { ...qsub, customerId: "k1", customer: "Acme", companyId: "c1", vatCode: "reduced" },
+      { ...m, id: "t1b", customerId: "k2", customer: "Bakker & Zn <b>", companyId: "c1" },
+    ];
+    const invoiceData = { companies: [{ id: "c1", name: "A" }], customers: [], subs: billed, invoices: [] as Invoice[] };
+    const marchRun = generateInvoices(invoiceData, `${y}-03`, { issueDate: `${y}-03-31`, paymentDays: 14 });
+    const acme = marchRun.invoices[0];
+    console.assert(marchRun.invoices.length === 2 && acme.number === `${y}-0001` && marchRun.invoices[1].number === `${y}-0002`, "Invoices are numbered per company and year");
+    console.assert(acme.lines.length === 2 && acme.dueDate === `${y}-04-14` && acme.lines[1].description === `Y – mrt ${y} t/m mei ${y}`, "Lines cover the billed period of each item");
+    const acmeTotals = invoiceTotals(acme);
+    console.assert(acmeTotals.net === 400 && acmeTotals.vatTotal === 48 && acmeTotals.gross === 448 && acmeTotals.vat.length === 2, "VAT is added per tariff");
+    const storedInvoices: Invoice[] = marchRun.invoices.map((inv, i) => ({ ...inv, id: `i${i}`, status: i === 0 ? "sent" : "draft" }));
+    const again = generateInvoices({ ...invoiceData, invoices: storedInvoices }, `${y}-03`, { issueDate: `${y}-04-01`, paymentDays: 14 });
+    console.assert(again.skipped === 1 && again.invoices.length === 1 && again.invoices[0].id === "i1" && again.invoices[0].number === `${y}-0002`, "Regenerating updates drafts and leaves sent invoices alone");
+    const refusal = (drafts: InvoiceDraft[]) => {
+      try {
+        assertSavable(storedInvoices, drafts);
+        return "";
+      } catch (err) {
+        return (err as Error).message;
+      }
+    };
+    console.assert(refusal(again.invoices) === "" && refusal([{ ...again.invoices[0], id: "i0" }]) === "Invoice i0 is already sent" && refusal([{ ...again.invoices[0], id: "x" }]) === "Invoice x not found", "Only stored drafts can be saved again");
+    const invoiceState = { companies: [{ id: "c1", name: "A" }], customers: [], products: [], subs: [], payments: [], expenses: [], rates: [], audit: [] };
+    createMemoryStore({ ...invoiceState, invoices: storedInvoices })
+      .deleteCompany("c1")
+      .then(() => console.assert(false, "A company with sent invoices is not deleted"))
+      .catch((err) => console.assert((err as Error).message === "Company c1 has sent invoices", "A company with sent invoices is not deleted"));
+    const draftsOnly = createMemoryStore({ ...invoiceState, invoices: storedInvoices.map((inv) => ({ ...inv, status: "draft" as const })) });
+    draftsOnly.deleteCompany("c1")
+      .then(() => draftsOnly.load())
+      .then((st) => console.assert(st.companies.length === 0 && st.invoices.length === 0, "Draft invoices are deleted with their company"))
+      .catch(() => console.assert(false, "Draft invoices are deleted with their company"));
+    const april = generateInvoices({ ...invoiceData, invoices: storedInvoices }, `${y}-04`, { issueDate: `${y}-04-30`, paymentDays: 30 });
+    console.assert(april.invoices.map((inv) => inv.number).join() === `${y}-0003,${y}-0004` && april.invoices[0].lines.length === 1, "A new month continues the numbering");
+    const html = renderInvoiceHtml(storedInvoices[1], { id: "c1", name: "A" }, undefined);
+    console.assert(html.includes(`Factuur ${y}-0002`) && html.includes("Bakker &amp; Zn &lt;b&gt;") && html.includes("CONCEPT"), "Invoice HTML escapes text and marks drafts");
+    const v8 = migrateState({ app: "revenue-tracker", version: 8, data: { companies: [], customers: [], products: [], subs: [], expenses: [], rates: [] } });
+    console.assert(v8.ok && v8.data.invoices.length === 0, "Upgrade adds an empty invoice list");
+
+    // Payments: expected vs. received per billing month, overdue receivables by age, received-only cash
+    const tracked = [{ id: "c1", name: "A", paymentsFrom: `${y}-02` }];
+    const paidSub: Subscription = { ...m, id: "pm", companyId: "c1", startDate: `${y}-01-10` };
+    const paid: Payment[] = [
+      { id: "pay1", subscriptionId: "pm", month: `${y}-02`, amount: 100, date: `${y}-02-12` },
+      { id: "pay2", subscriptionId: "pm", month: `${y}-03`, amount: 40, date: `${y}-04-02` },
+    ];
+    console.assert(expectedCharges([paidSub], `${y}-02`, `${y}-02`)[0].dueDate === `${y}-02-10`, "Charges are due on the anchor day of their month");
+    const evr = expectedVsReceived([paidSub], paid, tracked, months.slice(0, 4));
+    console.assert(evr[0].expected === 0 && evr[1].received === 100 && evr[2].open === 60 && evr[3].open === 100, "Expected vs. received only counts tracked months");
+    const late = overdueCharges([paidSub], paid, tracked, new Date(y, 5, 1));
+    console.assert(late.length === 3 && late[0].month === `${y}-03` && late[0].open === 60 && late[0].daysOverdue === 83, "Unpaid charges past their due date are overdue");
+    console.assert(ageingBuckets(late).map((b) => b.count).join() === "1,1,1", "Overdue charges fall into 0–30, 31–60 and 60+ day buckets");
+    console.assert(overdueCharges([paidSub], paid, [{ id: "c1", name: "A" }], new Date(y, 5, 1)).length === 0, "Companies without a start month are not tracked");
+    const rs = receivedSeries([paidSub], paid, months);
+    console.assert(rs[1].amount === 100 && rs[2].amount === 0 && rs[3].amount === 40, "Received cash follows the payment date");
+    const firstOfMonth = receivedSeries([paidSub], [{ ...paid[0], date: `${y}-03-01` }], months);
+    console.assert(firstOfMonth[1].amount === 0 && firstOfMonth[2].amount === 100, "A payment on the 1st counts in its own month in every time zone");
+    console.assert(expectedCharges([{ ...paidSub, startDate: `${y}-02-28` }], `${y}-02`, `${y}-02`)[0].dueDate === `${y}-02-28`, "A later start date in the billing month is the due date");
+    console.assert(paymentsToGross(paid, [paidSub], tracked)[0].amount === 121, "Gross payments include the item's VAT");
+    console.assert(isoDate(new Date(y, 0, 1, 0, 30)) === `${y}-01-01` && isoDate(new Date(y, 11, 31, 23, 30)) === `${y}-12-31`, "Form dates are the local date, also around midnight");
+    const v9 = migrateState({ app: "revenue-tracker", version: 9, data: { companies: [], customers: [], products: [], subs: [], expenses: [], rates: [], invoices: [] } });
+    console.assert(v9.ok && v9.data.payments.length === 0, "Upgrade adds an empty payment list");
+
+    // Variable income in MRR: trailing average/median (empty months count as 0) or last value; items override the global setting
+    const avg3: Subscription = { ...v, variableMrr: { method: "average", months: 3 } };
+    const s9 = calcSeries([avg3], "mrr", months);
+    console.assert(s9[0].amount === 100 && s9[1].amount === 50 && s9[2].amount === 133 && s9[4].amount === 100 && s9[5].amount === 0, "Trailing average starts at the start month");
+    console.assert(variableMRR({ ...v, variableMrr: { method: "median", months: 3 } }, `${y}-03`) === 100, "Median of the trailing window");
+    console.assert(variableMRR({ ...v, variableMrr: { method: "last", months: 12 } }, `${y}-02`) === 100, "Last value carries over months without an amount");
+    const viewSubs = withVariableMrr([v, { ...v, id: "t6b", variableMrr: { method: "off", months: 1 } }], { method: "last", months: 12 });
+    console.assert(calcSeries(viewSubs, "mrr", [`${y}-03`])[0].amount === 300, "The global setting only applies to items without their own");
+    const fcVar = calcForecast([avg3], "mrr", `${y}-03`, { ...DEFAULT_FORECAST, horizon: 2 });
+    console.assert(fcVar[0].amount === 133 && fcVar[1].amount === 133, "MRR forecast holds the normalized variable MRR");
+    const badMrr = migrateState({ app: "revenue-tracker", version: 10, data: { companies: [], customers: [], products: [], subs: [{ ...v, variableMrr: { method: "mean", months: 3 } }], expenses: [], rates: [], invoices: [], payments: [] } });
+    console.assert(!badMrr.ok, "Unknown variable MRR methods are refused");
+
+    // Proration per company: partial first/last months per day or by the half-month rule, credit for mid-period cancellation
+    const proCo: Company[] = [{ id: "c1", name: "A", proration: "daily" }];
+    const partial: Subscription = { ...m, id: "pr", companyId: "c1", price: 310, anchorDate: `${y}-01-01`, startDate: `${y}-03-28`, cancelDate: `${y}-06-03` };
+    const daily = withProration([partial], proCo);
+    const prCash = calcSeries(daily, "cash", months);
+    console.assert(prCash[2].amount === 40 && prCash[3].amount === 310 && prCash[5].amount === 31, "Daily proration charges the days of partial months");
+    console.assert(calcSeries([partial], "cash", months)[2].amount === 310, "Without a policy partial months are charged in full");
+    const prMrr = calcSeries(daily, "mrr", months);
+    console.assert(prMrr[2].amount === 40 && prMrr[5].amount === 31, "Prorated MRR follows the active days");
+    const half = calcSeries(withProration([partial], [{ id: "c1", name: "A", proration: "halfmonth" }]), "cash", months);
+    console.assert(half[2].amount === 0 && half[3].amount === 310 && half[5].amount === 0, "Half-month rule skips months active less than half");
+    const yearlyCancel: Subscription = { ...ysub, id: "prY", companyId: "c1", startDate: `${y}-01-01`, cancelDate: `${y}-03-31` };
+    console.assert(calcSeries(withProration([yearlyCancel], proCo), "cash", months)[0].amount === 300, "A mid-period cancellation of a yearly plan credits the unused months");
+    const prAdj = prorationSeries(daily, "cash", months);
+    console.assert(prAdj[2].amount === -270 && prAdj[3].amount === 0 && prAdj[5].amount === -279, "Proration series holds the credited amount per month");
+    const prInvoice = generateInvoices({ companies: proCo, customers: [], subs: daily, invoices: [] }, `${y}-03`, { issueDate: `${y}-03-31`, paymentDays: 14 });
+    console.assert(prInvoice.invoices[0].lines[0].unitPrice === 40 && prInvoice.invoices[0].lines[0].description.endsWith("(pro rata)"), "Invoices charge the prorated amount");
+    const badProration = migrateState({ app: "revenue-tracker", version: 11, data: { companies: [{ id: "c1", name: "A", proration: "weekly" }], customers: [], products: [], subs: [], expenses: [], rates: [], invoices: [], payments: [] } });
+    console.assert(!badProration.ok, "Unknown proration policies are refused");
+
+    // Discounts: percentage for N billing cycles, open-ended fixed amounts, a yearly cycle covers its 12 months
+    const promo: Subscription = {
+      ...m, id: "dc", discounts: [{ kind: "percent", value: 50, cycles: 3, label: "Introductie" }, { kind: "fixed", value: 10, startDate: `${y}-06-01` }]
+    };
+    const dcCash = calcSeries([promo], "cash", months);
+    console.assert(dcCash[0].amount === 50 && dcCash[2].amount === 50 && dcCash[3].amount === 100 && dcCash[5].amount === 90, "Discounts apply to their cycles and period only");
+    console.assert(calcSeries([promo], "mrr", months)[1].amount === 50 && effectivePrice(promo, `${y}-04`) === 100, "MRR uses the effective price");
+    const weeklyPromo: Subscription = { ...wsub, id: "dcW", startDate: `${y}-01-01`, discounts: [{ kind: "fixed", value: 5, cycles: 5, startDate: `${y}-02-01` }] };
+    console.assert(discountEndMonth(promo, { kind: "fixed", value: 1, endDate: `${y}-04-01` }) === `${y}-04` && discountEndMonth(weeklyPromo, weeklyPromo.discounts![0]) === `${y}-03` && effectivePrice(promo, `${y}-06`) === 90, "Discount months follow the dates as written in every time zone");
+    const yearlyPromo: Subscription = { ...ysub, id: "dcY", discounts: [{ kind: "percent", value: 25, cycles: 1 }] };
+    const dcYear = calcSeries([yearlyPromo], "mrr", months);
+    console.assert(calcSeries([yearlyPromo], "cash", months)[2].amount === 900 && dcYear[2].amount === 75 && dcYear[11].amount === 75, "One yearly cycle discounts the charge and its 12 months of MRR");
+    const dcInvoice = generateInvoices({ companies: [], customers: [], subs: [promo], invoices: [] }, `${y}-02`, { issueDate: `${y}-02-28`, paymentDays: 14 });
+    const dcLines = dcInvoice.invoices[0].lines;
+    console.assert(dcLines.length === 2 && dcLines[0].unitPrice === 100 && dcLines[1].unitPrice === -50 && dcLines[1].description === "Korting Introductie", "Invoices show the list price and a discount line");
+    console.assert(calcSeries(toGross([{ ...promo, companyId: "c1" }], [{ id: "c1", name: "A" }]), "cash", [`${y}-06`])[0].amount === 109, "Gross view adds VAT to fixed discounts too");
+    const badDiscount = migrateState({ app: "revenue-tracker", version: 12, data: { companies: [], customers: [], products: [], subs: [{ ...m, discounts: [{ kind: "percent", value: 120 }] }], expenses: [], rates: [], invoices: [], payments: [] } });
+    console.assert(!badDiscount.ok, "Discounts over 100% are refused");
+
+    // Cohorts: grouped by start month, retained logos and MRR up to the last month of the range
+    const cohortSubs: Subscription[] = [
+      { ...m, id: "co1", customer: "A" },
+      { ...m, id: "co2", customer: "B", cancelDate: `${y}-03-10` },
+      { ...m, id: "co3", customer: "A", planName: "Extra" },
+      { ...m, id: "co4", customer: "C", startDate: `${y}-02-15` },
+    ];
+    const cohortRows = calcCohorts(cohortSubs, months.slice(0, 6));
+    const jan = cohortRows[0];
+    console.assert(cohortRows.length === 2 && jan.items === 3 && jan.cells.length === 6 && cohortRows[1].cells.length === 5, "One cohort per start month, up to the last month");
+    console.assert(jan.cells[0].logos === 2 && jan.cells[2].logos === 2 && jan.cells[3].logos === 1 && jan.cells[3].mrr === 200, "Logos count accounts; cancelled items drop out after their cancel month");
+    console.assert(retentionOf(jan, 3, "logos") === 0.5 && Math.abs(retentionOf(jan, 3, "mrr")! - 2 / 3) < 1e-9, "Retention is the share of the start month");
+    console.assert(calcCohorts([{ ...m, id: "co5", startDate: `${y}-02-01` }], months.slice(0, 6))[0].cohort === `${y}-02`, "An item starting on the 1st joins its own cohort in every time zone");
+
+    // Audit log: field diffs, coalesced typing, inverse edits and the history of a re-created item
+    const typed = diffChanges(m, { price: 120, notes: m.notes });
+    console.assert(typed.length === 1 && typed[0].field === "price" && typed[0].before === m.price && typed[0].after === 120, "Only changed fields are recorded");
+    const t0 = Date.parse(`${y}-03-01T10:00:00Z`);
+    const edit = { id: "a1", at: new Date(t0).toISOString(), user: "Jan", entity: "subscription" as const, entityId: "m", action: "update" as const, label: "Acme – Pro", changes: [{ field: "price", before: 100, after: 12 }] };
+    const nextKey = { ...edit, id: undefined, at: new Date(t0 + 1000).toISOString(), changes: [{ field: "price", before: 12, after: 120 }] };
+    const merged = coalesceEntry(edit, nextKey);
+    console.assert(merged.id === "a1" && merged.changes[0].before === 100 && merged.changes[0].after === 120, "Typing in one field extends the previous entry");
+    console.assert(coalesceEntry(edit, { ...nextKey, at: new Date(t0 + COALESCE_MS + 1).toISOString() }).id === undefined, "A pause starts a new entry");
+    console.assert(coalesceEntry(edit, { ...nextKey, user: "Piet" }).id === undefined && coalesceEntry(edit, { ...nextKey, source: "redo" }).id === undefined, "Other users and redo are never merged");
+    const revertEdit = inverseOf(edit);
+    console.assert(revertEdit.action === "update" && revertEdit.patch.price === 100, "Undo of an update restores the old value");
+    console.assert(inverseOf({ ...edit, action: "create", changes: [] }).action === "delete", "Undo of a create deletes");
+    const itemPaid = [{ id: "p1", subscriptionId: "m", month: `${y}-01`, amount: 100, date: `${y}-01-05` }];
+    const revertDelete = inverseOf({ ...edit, action: "delete", changes: [], snapshot: m, payments: itemPaid });
+    console.assert(revertDelete.action === "create" && revertDelete.record === m && revertDelete.payments.length === 1, "Undo of a delete re-creates the item with its payments");
+    const recreated = { ...edit, id: "a3", at: new Date(t0 + 9000).toISOString(), entityId: "m2", action: "create" as const, changes: [], restoredFrom: "m", source: "undo" as const };
+    const itemHistory = historyOf([recreated, { ...edit, id: "a2", entityId: "other" }, edit], "subscription", "m2");
+    console.assert(itemHistory.length === 2 && itemHistory[0].id === "a3" && itemHistory[1].id === "a1", "History follows an item through undo of its delete");
+    const coState = {
+      companies: [{ id: "c1", name: "Acme BV", vatCode: "reduced" as const }],
+      customers: [{ id: "k1", name: "Acme", companyIds: ["c1"] }],
+      products: [{ id: "pr1", companyId: "c1", name: "Pro", price: 100, billingType: "recurring" as const, cadence: "monthly" as const }],
+      subs: [{ ...m, id: "s1", companyId: "c1", productId: "pr1", customerId: "k1", customer: "Acme" }],
+      payments: [],
+      expenses: [{ id: "e1", companyId: "c1", amount: 50, description: "Hosting", category: "IT", date: `${y}-01-10` }],
+      rates: [],
+      invoices: [{
+        id: "i1", companyId: "c1", customerId: "k1", customer: "Acme", number: `${y}-0001`, period: `${y}-01`, issueDate: `${y}-01-31`, dueDate: `${y}-02-14`,
+        currency: "EUR", status: "draft" as const, lines: [{ subscriptionId: "s1", description: "Pro", quantity: 1, unitPrice: 100, vatCode: "standard" as const }],
+      }],
+      audit: [],
+    };
+    const coStore = createMemoryStore(coState);
+    const coDependents = companyDependents(coState, "c1");
+    coStore.deleteCompany("c1")
+      .then(() => coStore.load())
+      .then((st) => restoreCompany(coStore, coState.companies[0], coDependents, st))
+      .then((co) => coStore.load().then((st) => ({ co, st })))
+      .then(({ co, st }) => {
+        const [product] = st.products;
+        console.assert(co.vatCode === "reduced" && st.companies.length === 1 && product?.companyId === co.id && st.expenses[0]?.companyId === co.id, "Undo of a company delete restores its products and expenses");
+        console.assert(st.subs[0].companyId === co.id && st.subs[0].productId === product?.id && st.customers[0].companyIds.join() === co.id, "Undo of a company delete relinks its items and customers");
+        console.assert(st.invoices.length === 1 && st.invoices[0].companyId === co.id && st.invoices[0].lines[0].subscriptionId === "s1", "Undo of a company delete restores its draft invoices");
+      })
+      .catch(() => console.assert(false, "Undo of a company delete restores its products and expenses"));
+    const v13 = migrateState({ app: "revenue-tracker", version: 13, data: { companies: [], customers: [], products: [], subs: [], expenses: [], rates: [], invoices: [], payments: [] } });
+    console.assert(v13.ok && Array.isArray(v13.data.audit) && v13.data.audit.length === 0, "v13 state upgrades with an empty history");
+    const badAudit = migrateState({ app: "revenue-tracker", version: 14, data: { ...(v13.ok ? v13.data : {}), audit: [{ ...edit, entity: "expense" }] } });
+    console.assert(!badAudit.ok, "Unknown audit entities are rejected");
+    const log = createMemoryStore({ companies: [], customers: [], products: [], subs: [], payments: [], expenses: [], rates: [], invoices: [], audit: [] });
+    log.saveAuditEntry({ ...edit, id: undefined })
+      .then((saved) => log.saveAuditEntry({ ...saved, changes: merged.changes }))
+      .then(() => log.load())
+      .then((st) => console.assert(st.audit.length === 1 && st.audit[0].changes[0].after === 120, "A coalesced entry replaces the stored one"))
+      .catch(() => {});
+    const full = createMemoryStore({ companies: [], customers: [], products: [], subs: [], payments: [], expenses: [], rates: [], invoices: [], audit: [] }, () => {
+      throw new Error("quota");
+    });
+    full.addCompany("A")
+      .then(() => console.assert(false, "A failed save should reject the change"))
+      .catch(() => full.load().then((st) => console.assert(st.companies.length === 0, "A change that cannot be saved is not applied")));
+    const longLog = createMemoryStore({ companies: [], customers: [], products: [], subs: [], payments: [], expenses: [], rates: [], invoices: [], audit: Array.from({ length: AUDIT_LIMIT }, (_, i) => ({ ...edit, id: `old${i}` })) });
+    longLog.saveAuditEntry({ ...edit, id: undefined })
+      .then(() => longLog.load())
+      .then((st) => console.assert(st.audit.length === AUDIT_LIMIT && st.audit[AUDIT_LIMIT - 1].id === `old${AUDIT_LIMIT - 2}`, "The browser history keeps the newest entries only"))
+      .catch(() => {});
+
+    // In-memory store: add/update/delete round-trip keeps the full Subscription shape
+    const mem = createMemoryStore({ companies: [], customers: [], products: [], subs: [], payments: [], expenses: [], rates: [], invoices: [], audit: [] });
+    mem.addSubscription(v)
+      .then((added) => mem.updateSubscription(added.id, { cancelDate: `${y}-12-31` }))
+      .then((updated) => {
+        console.assert(updated.variableAmounts?.[`${y}-03`] === 300 && updated.cancelDate === `${y}-12-31`, "Memory store should keep all Subscription fields");
+        return mem.deleteSubscription(updated.id).then(() => mem.load());
+      })
+      .then((st) => console.assert(st.subs.length === 0, "Memory store delete should remove the item"))
+      .catch(() => {});
   } catch (err) {
     // console.error("Runtime tests failed", err);
   }
@@ -4,4 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // The API server (npm run server) holds the database URL; the App calls it under /api
+    proxy: {
+      '/api': `http://127.0.0.1:${process.env.API_PORT || 3001}`,
+    },
+  },
 })
\ No newline at end of file